@@ -1,13 +1,109 @@
 import { useState } from "react"
-import { getApiGlobalIcttTransfers, getApiGlobalIcttTvl } from "./client/sdk.gen"
-import { type GetApiGlobalIcttTransfersResponses, type GetApiGlobalIcttTvlResponses } from "./client/types.gen"
+import { getApiGlobalIcttTransfers, getApiGlobalIcttTvl, getApiGlobalIcttTvlHistory } from "./client/sdk.gen"
+import { type GetApiGlobalIcttTransfersResponses, type GetApiGlobalIcttTvlResponses, type GetApiGlobalIcttTvlHistoryResponses } from "./client/types.gen"
 import { useQuery } from '@tanstack/react-query'
+import { LineChart, Line, XAxis, YAxis, Tooltip, Legend, ResponsiveContainer } from 'recharts'
 import ExampleCard from "./components/ExampleCard"
 import ErrorComponent from "./components/ErrorComponent"
 import NamedCoin from "./components/NamedCoin"
+import TokenAmount from "./components/TokenAmount"
+import UsdValue from "./components/UsdValue"
 
 type TransferData = GetApiGlobalIcttTransfersResponses[200][0]
 type TVLData = GetApiGlobalIcttTvlResponses[200][0]
+type TVLHistorySeries = GetApiGlobalIcttTvlHistoryResponses[200][0]
+
+const SERIES_COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#EC4899', '#14B8A6', '#6366F1']
+
+function TVLHistoryChart({ contracts }: { contracts: Array<{ contractAddress: string, label: string }> }) {
+    const [contract, setContract] = useState<string>("")
+    const [days, setDays] = useState<number>(30)
+
+    const selectedContract = contract || contracts[0]?.contractAddress || ""
+
+    const { data, error, isError, isLoading } = useQuery<TVLHistorySeries[]>({
+        queryKey: ['icttTvlHistory', selectedContract, days],
+        queryFn: async () => {
+            const res = await getApiGlobalIcttTvlHistory({
+                query: { contract: selectedContract, days }
+            })
+            if (res.data) {
+                return res.data
+            }
+            throw new Error('Failed to fetch ICTT TVL history')
+        },
+        enabled: selectedContract !== ""
+    })
+
+    // One row per day, one key per remote chain. Numbers are for plotting only, tables keep exact strings
+    const chartData = (data?.[0]?.points ?? []).map((point, index) => {
+        const row: Record<string, string | number> = {
+            date: new Date(point.dayTs * 1000).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+        }
+        for (const series of data!) {
+            row[series.remoteChainName] = Number(series.points[index]?.tvl ?? 0)
+        }
+        return row
+    })
+
+    return (
+        <ExampleCard
+            name="ICTT TVL History"
+            curlString={`curl -X GET "${window.location.origin}/api/global/ictt/tvl/history?contract=${selectedContract}&days=${days}"`}
+        >
+            <div className="flex flex-col md:flex-row gap-4 mb-4">
+                <select
+                    value={selectedContract}
+                    onChange={(e) => setContract(e.target.value)}
+                    className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+                >
+                    {contracts.map(({ contractAddress, label }) => (
+                        <option key={contractAddress} value={contractAddress}>{label}</option>
+                    ))}
+                </select>
+                <select
+                    value={days}
+                    onChange={(e) => setDays(parseInt(e.target.value))}
+                    className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                    <option value={7}>7 days</option>
+                    <option value={30}>30 days</option>
+                    <option value={90}>90 days</option>
+                    <option value={365}>365 days</option>
+                </select>
+            </div>
+
+            {isError ? (
+                <ErrorComponent message={error?.message || 'Failed to load TVL history'} />
+            ) : isLoading ? (
+                <div className="text-center py-8">Loading TVL history...</div>
+            ) : !data || data.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">No TVL history found</div>
+            ) : (
+                <div className="h-80">
+                    <ResponsiveContainer width="100%" height="100%">
+                        <LineChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+                            <XAxis dataKey="date" tick={{ fontSize: 12 }} interval="preserveStartEnd" />
+                            <YAxis tick={{ fontSize: 12 }} />
+                            <Tooltip formatter={(value) => Number(value).toLocaleString()} />
+                            <Legend />
+                            {data.map((series, index) => (
+                                <Line
+                                    key={series.remoteChainBlockchainId}
+                                    type="monotone"
+                                    dataKey={series.remoteChainName}
+                                    stroke={SERIES_COLORS[index % SERIES_COLORS.length]}
+                                    strokeWidth={2}
+                                    dot={false}
+                                />
+                            ))}
+                        </LineChart>
+                    </ResponsiveContainer>
+                </div>
+            )}
+        </ExampleCard>
+    )
+}
 
 export default function ICTTTransfers() {
     const [startTs, setStartTs] = useState<number>(0)
@@ -103,6 +199,7 @@ export default function ICTTTransfers() {
                         <li><span className="font-semibold">Coin Address:</span> Token contract address</li>
                         <li><span className="font-semibold">Transfer Count:</span> Number of transfers in the period</li>
                         <li><span className="font-semibold">Total Amount:</span> Sum of all transferred tokens</li>
+                        <li><span className="font-semibold">USD Value:</span> Each transfer at its coin's USD price on the transfer day, from the configured price sources</li>
                     </ul>
 
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -179,6 +276,9 @@ export default function ICTTTransfers() {
                                     <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                                         Total Amount
                                     </th>
+                                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                        USD Value
+                                    </th>
                                 </tr>
                             </thead>
                             <tbody className="bg-white divide-y divide-gray-200">
@@ -213,6 +313,8 @@ export default function ICTTTransfers() {
                                             <td className="px-3 py-2 text-sm font-mono text-gray-600">
                                                 <NamedCoin
                                                     address={transfer.coinAddress}
+                                                    name={transfer.coinName}
+                                                    symbol={transfer.coinSymbol}
                                                     extras={{
                                                         "0x0000000000000000000000000000000000000000": `${transfer.homeChainName} Native Token`
                                                     }}
@@ -222,7 +324,10 @@ export default function ICTTTransfers() {
                                                 {transfer.transferCount.toLocaleString()}
                                             </td>
                                             <td className="px-3 py-2 whitespace-nowrap text-sm text-right font-medium">
-                                                {transfer.transferCoinsTotal.toLocaleString()}
+                                                <TokenAmount value={transfer.transferCoinsTotal} />
+                                            </td>
+                                            <td className="px-3 py-2 whitespace-nowrap text-sm text-right font-medium">
+                                                <UsdValue value={transfer.usdValue} />
                                             </td>
                                         </tr>
                                     )
@@ -290,6 +395,9 @@ export default function ICTTTransfers() {
                                         <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                                             TVL
                                         </th>
+                                        <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                            USD Value
+                                        </th>
                                     </tr>
                                 </thead>
                                 <tbody className="bg-white divide-y divide-gray-200">
@@ -298,7 +406,7 @@ export default function ICTTTransfers() {
                                         const showRemoteChainId = item.remoteChainName === item.remoteChainBlockchainId;
                                         const homeDisplay = showHomeChainId ? item.homeChainBlockchainId : item.homeChainName;
                                         const remoteDisplay = showRemoteChainId ? item.remoteChainBlockchainId : item.remoteChainName;
-                                        const tvlClass = item.tvl > 0 ? 'text-red-600' : item.tvl < 0 ? 'text-green-600' : 'text-gray-900';
+                                        const tvlClass = item.tvlRaw.startsWith('-') ? 'text-green-600' : item.tvlRaw !== '0' ? 'text-red-600' : 'text-gray-900';
 
                                         return (
                                             <tr key={`${item.homeChainBlockchainId}-${item.remoteChainBlockchainId}-${item.contractAddress}-${item.coinAddress}-${index}`} className="hover:bg-gray-50">
@@ -318,13 +426,18 @@ export default function ICTTTransfers() {
                                                 <td className="px-3 py-2 text-sm font-mono text-gray-600">
                                                     <NamedCoin
                                                         address={item.coinAddress}
+                                                        name={item.coinName}
+                                                        symbol={item.coinSymbol}
                                                         extras={{
                                                             "0x0000000000000000000000000000000000000000": `${item.homeChainName} Native Token`
                                                         }}
                                                     />
                                                 </td>
                                                 <td className={`px-3 py-2 whitespace-nowrap text-sm text-right font-medium ${tvlClass}`}>
-                                                    {item.tvl.toLocaleString()}
+                                                    <TokenAmount value={item.tvl} />
+                                                </td>
+                                                <td className="px-3 py-2 whitespace-nowrap text-sm text-right font-medium">
+                                                    <UsdValue value={item.usdValue} />
                                                 </td>
                                             </tr>
                                         )
@@ -334,6 +447,17 @@ export default function ICTTTransfers() {
                         </div>
                     )}
                 </ExampleCard>
+
+                {tvlData && tvlData.length > 0 && (
+                    <div className="mt-6">
+                        <TVLHistoryChart
+                            contracts={Array.from(new Map(tvlData.map(item => [
+                                item.contractAddress,
+                                { contractAddress: item.contractAddress, label: `${item.homeChainName} · ${item.contractAddress}` }
+                            ])).values())}
+                        />
+                    </div>
+                )}
             </div>
         </div>
     )
@@ -1,14 +1,19 @@
-import { useState } from "react"
+import { useEffect, useRef, useState } from "react"
 import { getApiGlobalIcttTransfersList } from "./client/sdk.gen"
 import { type GetApiGlobalIcttTransfersListResponses } from "./client/types.gen"
-import { useQuery } from '@tanstack/react-query'
+import { useInfiniteQuery } from '@tanstack/react-query'
 import ExampleCard from "./components/ExampleCard"
 import ErrorComponent from "./components/ErrorComponent"
 import NamedCoin from "./components/NamedCoin"
 import TimeTimestamp from "./components/TimeTimestamp"
 import ShortHash from "./components/ShortHash"
+import TokenAmount from "./components/TokenAmount"
+import UsdValue from "./components/UsdValue"
 
 type TransferListData = GetApiGlobalIcttTransfersListResponses[200]
+type TransferCursor = TransferListData['nextCursor']
+
+const PAGE_SIZE = 100
 
 export default function ICTTTransfersList() {
     const [startTs, setStartTs] = useState<number>(0)
@@ -17,27 +22,54 @@ export default function ICTTTransfersList() {
     const [remoteChain, setRemoteChain] = useState<string>("")
     const [contractAddress, setContractAddress] = useState<string>("")
     const [coinAddress, setCoinAddress] = useState<string>("")
+    const [direction, setDirection] = useState<"" | "in" | "out">("")
+    const [sort, setSort] = useState<"newest" | "oldest">("newest")
+    const loadMoreRef = useRef<HTMLDivElement>(null)
 
-    const { data, error, isError, isLoading } = useQuery<TransferListData>({
-        queryKey: ['icttTransfersList', startTs, endTs, homeChain, remoteChain, contractAddress, coinAddress],
-        queryFn: async () => {
+    const { data, error, isError, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+        queryKey: ['icttTransfersList', startTs, endTs, homeChain, remoteChain, contractAddress, coinAddress, direction, sort],
+        initialPageParam: null as TransferCursor,
+        queryFn: async ({ pageParam }): Promise<TransferListData> => {
+            // The cursor bounds the side the list grows towards
+            const cursor = pageParam && (sort === 'newest'
+                ? { before: pageParam.blockTimestamp, beforeTxHash: pageParam.txHash }
+                : { after: pageParam.blockTimestamp, afterTxHash: pageParam.txHash })
             const res = await getApiGlobalIcttTransfersList({
                 query: {
                     startTs,
                     endTs,
+                    sort,
+                    limit: PAGE_SIZE,
                     ...(homeChain && { homeChain }),
                     ...(remoteChain && { remoteChain }),
                     ...(contractAddress && { contractAddress }),
-                    ...(coinAddress && { coinAddress })
+                    ...(coinAddress && { coinAddress }),
+                    ...(direction && { direction }),
+                    ...cursor
                 }
             })
             if (res.data) {
                 return res.data
             }
             throw new Error('Failed to fetch ICTT transfers list')
-        }
+        },
+        getNextPageParam: (lastPage) => lastPage.nextCursor
     })
 
+    // Load the next page once the end of the table scrolls into view
+    useEffect(() => {
+        const node = loadMoreRef.current
+        if (!node || !hasNextPage) return
+
+        const observer = new IntersectionObserver((entries) => {
+            if (entries[0]?.isIntersecting && !isFetchingNextPage) {
+                fetchNextPage()
+            }
+        }, { rootMargin: '400px' })
+        observer.observe(node)
+        return () => observer.disconnect()
+    }, [hasNextPage, isFetchingNextPage, fetchNextPage])
+
     const formatTimestampForInput = (ts: number): string => {
         if (ts === 0) return new Date(0).toISOString().slice(0, 16)
         return new Date(ts * 1000).toISOString().slice(0, 16)
@@ -71,10 +103,9 @@ export default function ICTTTransfersList() {
         return <ErrorComponent message={error?.message || 'Failed to load ICTT transfers list'} />
     }
 
-    const transfers = data?.transfers || []
-    const totalCount = data?.totalCount || 0
-    const availableChains = data?.availableChains || []
-    const moreItems = totalCount - transfers.length
+    const transfers = data?.pages.flatMap(page => page.transfers) || []
+    const totalCount = data?.pages[0]?.totalCount || 0
+    const availableChains = data?.pages[0]?.availableChains || []
 
     return (
         <div className="py-8 px-4 md:px-8">
@@ -150,6 +181,35 @@ export default function ICTTTransfersList() {
                             />
                         </div>
 
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                                Direction
+                            </label>
+                            <select
+                                value={direction}
+                                onChange={(e) => setDirection(e.target.value as "" | "in" | "out")}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            >
+                                <option value="">Both</option>
+                                <option value="out">Outbound (home chain → remote chain)</option>
+                                <option value="in">Inbound (remote chain → home chain)</option>
+                            </select>
+                        </div>
+
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                                Sort
+                            </label>
+                            <select
+                                value={sort}
+                                onChange={(e) => setSort(e.target.value as "newest" | "oldest")}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            >
+                                <option value="newest">Newest first</option>
+                                <option value="oldest">Oldest first</option>
+                            </select>
+                        </div>
+
                         <div>
                             <label className="block text-sm font-medium text-gray-700 mb-2">
                                 Start Time
@@ -193,7 +253,7 @@ export default function ICTTTransfersList() {
 
             <ExampleCard
                 name="ICTT Transfer Records"
-                curlString={`curl -X GET "${window.location.origin}/api/ictt/transfers-list?startTs=${startTs}&endTs=${endTs}${homeChain ? `&homeChain=${homeChain}` : ''}${remoteChain ? `&remoteChain=${remoteChain}` : ''}${contractAddress ? `&contractAddress=${contractAddress}` : ''}${coinAddress ? `&coinAddress=${coinAddress}` : ''}"`}
+                curlString={`curl -X GET "${window.location.origin}/api/global/ictt/transfers-list?startTs=${startTs}&endTs=${endTs}&sort=${sort}&limit=${PAGE_SIZE}${direction ? `&direction=${direction}` : ''}${homeChain ? `&homeChain=${homeChain}` : ''}${remoteChain ? `&remoteChain=${remoteChain}` : ''}${contractAddress ? `&contractAddress=${contractAddress}` : ''}${coinAddress ? `&coinAddress=${coinAddress}` : ''}"`}
             >
                 {isLoading ? (
                     <div className="text-center py-8">Loading transfers...</div>
@@ -225,6 +285,9 @@ export default function ICTTTransfersList() {
                                         <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                                             Amount
                                         </th>
+                                        <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                            USD Value
+                                        </th>
                                         <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                                             TX Hash
                                         </th>
@@ -240,7 +303,7 @@ export default function ICTTTransfersList() {
                                         const remoteDisplay = showRemoteChainId ? transfer.remoteChainBlockchainId : transfer.remoteChainName
 
                                         return (
-                                            <tr key={`transfer-${index}`} className="hover:bg-gray-50">
+                                            <tr key={`${transfer.txHash}-${index}`} className="hover:bg-gray-50">
                                                 <td className="px-3 py-2 text-sm text-gray-600">
                                                     <TimeTimestamp timestamp={transfer.blockTimestamp} />
                                                 </td>
@@ -265,13 +328,18 @@ export default function ICTTTransfersList() {
                                                 <td className="px-3 py-2 text-sm font-mono text-gray-600">
                                                     <NamedCoin
                                                         address={transfer.coinAddress}
+                                                        name={transfer.coinName}
+                                                        symbol={transfer.coinSymbol}
                                                         extras={{
                                                             "0x0000000000000000000000000000000000000000": `${transfer.homeChainName} Native Token`
                                                         }}
                                                     />
                                                 </td>
                                                 <td className="px-3 py-2 whitespace-nowrap text-sm text-right font-medium">
-                                                    {transfer.amount.toLocaleString()}
+                                                    <TokenAmount value={transfer.amount} />
+                                                </td>
+                                                <td className="px-3 py-2 whitespace-nowrap text-sm text-right font-medium">
+                                                    <UsdValue value={transfer.usdValue} />
                                                 </td>
                                                 <td className="px-3 py-2 text-xs font-mono text-gray-600">
                                                     <ShortHash hash={transfer.txHash} />
@@ -282,11 +350,11 @@ export default function ICTTTransfersList() {
                                 </tbody>
                             </table>
                         </div>
-                        {moreItems > 0 && (
-                            <div className="text-center py-4 text-gray-600">
-                                {moreItems.toLocaleString()} more items
-                            </div>
-                        )}
+                        <div ref={loadMoreRef} className="text-center py-4 text-gray-600">
+                            {isFetchingNextPage
+                                ? 'Loading more transfers...'
+                                : `Showing ${transfers.length.toLocaleString()} of ${totalCount.toLocaleString()} transfers`}
+                        </div>
                     </>
                 )}
             </ExampleCard>
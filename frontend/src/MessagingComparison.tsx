@@ -231,10 +231,10 @@ export default function MessagingComparison() {
                             </ul>
                         </li>
                         <li>
-                            <span className="font-semibold text-purple-600">LayerZero V2 (Purple):</span> Cross-chain messaging protocol
+                            <span className="font-semibold text-purple-600">LayerZero (Purple):</span> Cross-chain messaging protocol, V1 and V2 endpoints combined
                             <ul className="ml-6 mt-1 text-xs space-y-1">
-                                <li>• Events tracked: <code>PacketSent</code> (outgoing) and <code>PacketDelivered</code> (incoming)</li>
-                                <li>• From LayerZero Endpoint V2 contracts deployed on each chain</li>
+                                <li>• V2 events tracked: <code>PacketSent</code> (outgoing) and <code>PacketVerified</code> (incoming) from EndpointV2</li>
+                                <li>• V1 events tracked: <code>Packet</code> (outgoing) and <code>PacketReceived</code> (incoming) from UltraLightNodeV2</li>
                             </ul>
                         </li>
                         <li><span className="font-semibold">Time Windows:</span> Last {MONTHS_COUNT} months, each showing a 30-day rolling window</li>
@@ -1,7 +1,7 @@
 // This file is auto-generated by @hey-api/openapi-ts
 
 import type { Options as ClientOptions, TDataShape, Client } from './client';
-import type { GetApiChainsData, GetApiChainsResponses, PostApiByEvmChainIdRpcData, PostApiByEvmChainIdRpcResponses, GetApiReplicationChainsJsonData, GetApiReplicationChainsJsonResponses, GetApiByEvmChainIdStatsActiveAddressesPeriodData, GetApiByEvmChainIdStatsActiveAddressesPeriodResponses, GetApiByEvmChainIdStatsActiveAddressesPeriodErrors, GetApiByEvmChainIdStatsDailyActiveAddressesData, GetApiByEvmChainIdStatsDailyActiveAddressesResponses, GetApiByEvmChainIdStatsDailyActiveAddressesErrors, GetApiByEvmChainIdStatsGasUsagePeriodData, GetApiByEvmChainIdStatsGasUsagePeriodResponses, GetApiByEvmChainIdStatsGasUsagePeriodErrors, GetApiByEvmChainIdStatsCumulativeGasData, GetApiByEvmChainIdStatsCumulativeGasResponses, GetApiByEvmChainIdStatsCumulativeGasErrors, GetApiByEvmChainIdStatsDailyGasData, GetApiByEvmChainIdStatsDailyGasResponses, GetApiByEvmChainIdStatsDailyGasErrors, GetApiGlobalIcmGasUsageData, GetApiGlobalIcmGasUsageResponses, GetApiGlobalIcttTransfersData, GetApiGlobalIcttTransfersResponses, GetApiGlobalIcttTransfersListData, GetApiGlobalIcttTransfersListResponses, GetApiGlobalIcttTvlData, GetApiGlobalIcttTvlResponses, GetApiByEvmChainIdBlocksLatestData, GetApiByEvmChainIdBlocksLatestResponses, GetApiByEvmChainIdBlocksLatestErrors, GetApiByEvmChainIdBlocksLatestByCountData, GetApiByEvmChainIdBlocksLatestByCountResponses, GetApiByEvmChainIdBlocksLatestByCountErrors, GetApiGlobalMessagingComparisonData, GetApiGlobalMessagingComparisonResponses, GetApiGlobalMessagingComparisonDetailedData, GetApiGlobalMessagingComparisonDetailedResponses, GetApiGlobalMessagingChainPairsData, GetApiGlobalMessagingChainPairsResponses, GetApiGlobalOverviewLastWeekTxsData, GetApiGlobalOverviewLastWeekTxsResponses, GetApiGlobalOverviewMaxTpsObservedData, GetApiGlobalOverviewMaxTpsObservedResponses, GetApiGlobalOverviewLastWeekActiveAddressesData, GetApiGlobalOverviewLastWeekActiveAddressesResponses, GetApiGlobalOverviewDailyTxsByChainData, GetApiGlobalOverviewDailyTxsByChainResponses, GetApiGlobalOverviewDailyTxsByChainCompactData, GetApiGlobalOverviewDailyTxsByChainCompactResponses, GetApiGlobalOverviewMonthlyTxsByChainCompactData, GetApiGlobalOverviewMonthlyTxsByChainCompactResponses, GetApiGlobalOverviewMonthlyIcttOperationsByChainCompactData, GetApiGlobalOverviewMonthlyIcttOperationsByChainCompactResponses, GetApiGlobalOverviewMonthlyIcmByDirectionByChainCompactData, GetApiGlobalOverviewMonthlyIcmByDirectionByChainCompactResponses, GetApiByEvmChainIdStatsTpsData, GetApiByEvmChainIdStatsTpsResponses, GetApiByEvmChainIdStatsTpsErrors, GetApiByEvmChainIdStatsCumulativeTxsData, GetApiByEvmChainIdStatsCumulativeTxsResponses, GetApiByEvmChainIdStatsCumulativeTxsErrors, GetApiGlobalMetricsDailyMessageVolumeData, GetApiGlobalMetricsDailyMessageVolumeResponses, GetApiByEvmChainIdMetricsDailyMessageVolumeData, GetApiByEvmChainIdMetricsDailyMessageVolumeResponses, GetApiByEvmChainIdMetricsDailyMessageVolumeErrors, GetApiGlobalLeaderboardDayData, GetApiGlobalLeaderboardDayResponses, GetApiGlobalLeaderboardWeekData, GetApiGlobalLeaderboardWeekResponses, GetApiByEvmChainIdStatsIcmMessagesTotalData, GetApiByEvmChainIdStatsIcmMessagesTotalResponses, GetApiByEvmChainIdStatsIcmMessagesTotalErrors, GetApiGlobalStatsTpsData, GetApiGlobalStatsTpsResponses, GetApiOpenapiJsonData, GetApiOpenapiJsonResponses } from './types.gen';
+import type { GetApiChainsData, GetApiChainsResponses, PostApiByEvmChainIdRpcData, PostApiByEvmChainIdRpcResponses, GetApiReplicationChainsJsonData, GetApiReplicationChainsJsonResponses, GetApiByEvmChainIdStatsActiveAddressesPeriodData, GetApiByEvmChainIdStatsActiveAddressesPeriodResponses, GetApiByEvmChainIdStatsActiveAddressesPeriodErrors, GetApiByEvmChainIdStatsDailyActiveAddressesData, GetApiByEvmChainIdStatsDailyActiveAddressesResponses, GetApiByEvmChainIdStatsDailyActiveAddressesErrors, GetApiByEvmChainIdStatsGasUsagePeriodData, GetApiByEvmChainIdStatsGasUsagePeriodResponses, GetApiByEvmChainIdStatsGasUsagePeriodErrors, GetApiByEvmChainIdStatsCumulativeGasData, GetApiByEvmChainIdStatsCumulativeGasResponses, GetApiByEvmChainIdStatsCumulativeGasErrors, GetApiByEvmChainIdStatsDailyGasData, GetApiByEvmChainIdStatsDailyGasResponses, GetApiByEvmChainIdStatsDailyGasErrors, GetApiGlobalIcmGasUsageData, GetApiGlobalIcmGasUsageResponses, GetApiGlobalIcttTransfersData, GetApiGlobalIcttTransfersResponses, GetApiGlobalIcttTransfersListData, GetApiGlobalIcttTransfersListResponses, GetApiGlobalIcttTvlData, GetApiGlobalIcttTvlResponses, GetApiGlobalIcttTvlHistoryData, GetApiGlobalIcttTvlHistoryResponses, GetApiByEvmChainIdBlocksLatestData, GetApiByEvmChainIdBlocksLatestResponses, GetApiByEvmChainIdBlocksLatestErrors, GetApiByEvmChainIdBlocksLatestByCountData, GetApiByEvmChainIdBlocksLatestByCountResponses, GetApiByEvmChainIdBlocksLatestByCountErrors, GetApiGlobalMessagingComparisonData, GetApiGlobalMessagingComparisonResponses, GetApiGlobalMessagingComparisonDetailedData, GetApiGlobalMessagingComparisonDetailedResponses, GetApiGlobalMessagingChainPairsData, GetApiGlobalMessagingChainPairsResponses, GetApiGlobalOverviewLastWeekTxsData, GetApiGlobalOverviewLastWeekTxsResponses, GetApiGlobalOverviewMaxTpsObservedData, GetApiGlobalOverviewMaxTpsObservedResponses, GetApiGlobalOverviewLastWeekActiveAddressesData, GetApiGlobalOverviewLastWeekActiveAddressesResponses, GetApiGlobalOverviewDailyTxsByChainData, GetApiGlobalOverviewDailyTxsByChainResponses, GetApiGlobalOverviewTxsByChainCompactData, GetApiGlobalOverviewTxsByChainCompactResponses, GetApiGlobalOverviewTxsByChainCompactErrors, GetApiGlobalOverviewDailyTxsByChainCompactData, GetApiGlobalOverviewDailyTxsByChainCompactResponses, GetApiGlobalOverviewDailyTxsByChainCompactErrors, GetApiGlobalOverviewMonthlyTxsByChainCompactData, GetApiGlobalOverviewMonthlyTxsByChainCompactResponses, GetApiGlobalOverviewMonthlyTxsByChainCompactErrors, GetApiGlobalOverviewMonthlyIcttOperationsByChainCompactData, GetApiGlobalOverviewMonthlyIcttOperationsByChainCompactResponses, GetApiGlobalOverviewMonthlyIcmByDirectionByChainCompactData, GetApiGlobalOverviewMonthlyIcmByDirectionByChainCompactResponses, GetApiGlobalOverviewMonthlyMessagesByDirectionByChainCompactData, GetApiGlobalOverviewMonthlyMessagesByDirectionByChainCompactResponses, GetApiByEvmChainIdStatsTpsData, GetApiByEvmChainIdStatsTpsResponses, GetApiByEvmChainIdStatsTpsErrors, GetApiByEvmChainIdStatsCumulativeTxsData, GetApiByEvmChainIdStatsCumulativeTxsResponses, GetApiByEvmChainIdStatsCumulativeTxsErrors, GetApiGlobalMetricsDailyMessageVolumeData, GetApiGlobalMetricsDailyMessageVolumeResponses, GetApiByEvmChainIdMetricsDailyMessageVolumeData, GetApiByEvmChainIdMetricsDailyMessageVolumeResponses, GetApiByEvmChainIdMetricsDailyMessageVolumeErrors, GetApiGlobalLeaderboardDayData, GetApiGlobalLeaderboardDayResponses, GetApiGlobalLeaderboardWeekData, GetApiGlobalLeaderboardWeekResponses, GetApiByEvmChainIdStatsIcmMessagesTotalData, GetApiByEvmChainIdStatsIcmMessagesTotalResponses, GetApiByEvmChainIdStatsIcmMessagesTotalErrors, GetApiGlobalStatsTpsData, GetApiGlobalStatsTpsResponses, GetApiOpenapiJsonData, GetApiOpenapiJsonResponses } from './types.gen';
 import { client as _heyApiClient } from './client.gen';
 
 export type Options<TData extends TDataShape = TDataShape, ThrowOnError extends boolean = boolean> = ClientOptions<TData, ThrowOnError> & {
@@ -103,6 +103,9 @@ export const getApiGlobalIcmGasUsage = <ThrowOnError extends boolean = false>(op
     });
 };
 
+/**
+ * ICTT movements aggregated per home chain, remote chain, direction and contract. Direction is seen from the home. Movements of remote contracts count only when their home is not recognized on an indexed chain, since the home records every transfer too.
+ */
 export const getApiGlobalIcttTransfers = <ThrowOnError extends boolean = false>(options?: Options<GetApiGlobalIcttTransfersData, ThrowOnError>) => {
     return (options?.client ?? _heyApiClient).get<GetApiGlobalIcttTransfersResponses, unknown, ThrowOnError>({
         url: '/api/global/ictt/transfers',
@@ -110,6 +113,9 @@ export const getApiGlobalIcttTransfers = <ThrowOnError extends boolean = false>(
     });
 };
 
+/**
+ * Individual ICTT movements across all indexed chains, paginated by a (blockTimestamp, txHash) cursor. Chains and direction are seen from the home. Movements of remote contracts are listed only when their home is not recognized on an indexed chain, since the home records every transfer too. Pass nextCursor of the previous page as before/beforeTxHash when sorting by newest, or as after/afterTxHash when sorting by oldest. Pages end on tx boundaries, so a page can exceed limit by the other movements of its last tx. totalCount counts all movements matching the filters, ignoring the cursor.
+ */
 export const getApiGlobalIcttTransfersList = <ThrowOnError extends boolean = false>(options?: Options<GetApiGlobalIcttTransfersListData, ThrowOnError>) => {
     return (options?.client ?? _heyApiClient).get<GetApiGlobalIcttTransfersListResponses, unknown, ThrowOnError>({
         url: '/api/global/ictt/transfers-list',
@@ -117,6 +123,9 @@ export const getApiGlobalIcttTransfersList = <ThrowOnError extends boolean = fal
     });
 };
 
+/**
+ * Collateral locked in ICTT homes per remote chain at the timestamp: outbound minus inbound movements of homes with at least one RemoteRegistered. Remotes hold no collateral, their movements mirror the home's and are not counted, so homes on chains that are not indexed have no TVL here.
+ */
 export const getApiGlobalIcttTvl = <ThrowOnError extends boolean = false>(options?: Options<GetApiGlobalIcttTvlData, ThrowOnError>) => {
     return (options?.client ?? _heyApiClient).get<GetApiGlobalIcttTvlResponses, unknown, ThrowOnError>({
         url: '/api/global/ictt/tvl',
@@ -124,6 +133,16 @@ export const getApiGlobalIcttTvl = <ThrowOnError extends boolean = false>(option
     });
 };
 
+/**
+ * Daily collateral locked in ICTT homes per remote chain, taken at the end of each UTC day from the ictt_tvl_daily snapshot table. Days without movements repeat the previous value. The current day is the TVL so far. Only homes with at least one RemoteRegistered are included; remotes hold no collateral, so their movements are not counted.
+ */
+export const getApiGlobalIcttTvlHistory = <ThrowOnError extends boolean = false>(options?: Options<GetApiGlobalIcttTvlHistoryData, ThrowOnError>) => {
+    return (options?.client ?? _heyApiClient).get<GetApiGlobalIcttTvlHistoryResponses, unknown, ThrowOnError>({
+        url: '/api/global/ictt/tvl/history',
+        ...options
+    });
+};
+
 /**
  * Latest Block Data
  * Get the latest block with complete data including transactions and metadata
@@ -208,20 +227,30 @@ export const getApiGlobalOverviewDailyTxsByChain = <ThrowOnError extends boolean
 };
 
 /**
- * Get daily transaction counts by chain in compact format (arrays) since September 2020
+ * Transaction counts by chain in compact format (arrays) from the rollups indexer, which buckets every transaction by block timestamp in UTC. Periods: hourly (hour buckets are kept for 180 days), daily, weekly (ISO weeks starting Monday 00:00 UTC) and monthly. Range: from/to for a custom range, otherwise the last days days (hourly defaults to 7), otherwise everything since 2020-09-23. Every bucket of the range is listed, 0 where a chain has no transactions; ranges start no earlier than 2020-09-23 and, for hourly, the hour bucket retention.
+ */
+export const getApiGlobalOverviewTxsByChainCompact = <ThrowOnError extends boolean = false>(options: Options<GetApiGlobalOverviewTxsByChainCompactData, ThrowOnError>) => {
+    return (options.client ?? _heyApiClient).get<GetApiGlobalOverviewTxsByChainCompactResponses, GetApiGlobalOverviewTxsByChainCompactErrors, ThrowOnError>({
+        url: '/api/global/overview/txsByChainCompact',
+        ...options
+    });
+};
+
+/**
+ * Get daily transaction counts by chain in compact format (arrays) from the rollups indexer day buckets, for every day since 2020-09-23 unless days or from/to narrow the range. Every day of the range is listed, 0 where a chain has no transactions. Same as txsByChainCompact?period=daily
  */
 export const getApiGlobalOverviewDailyTxsByChainCompact = <ThrowOnError extends boolean = false>(options?: Options<GetApiGlobalOverviewDailyTxsByChainCompactData, ThrowOnError>) => {
-    return (options?.client ?? _heyApiClient).get<GetApiGlobalOverviewDailyTxsByChainCompactResponses, unknown, ThrowOnError>({
+    return (options?.client ?? _heyApiClient).get<GetApiGlobalOverviewDailyTxsByChainCompactResponses, GetApiGlobalOverviewDailyTxsByChainCompactErrors, ThrowOnError>({
         url: '/api/global/overview/dailyTxsByChainCompact',
         ...options
     });
 };
 
 /**
- * Get monthly transaction counts by chain in compact format (arrays) since September 2020
+ * Get monthly transaction counts by chain in compact format (arrays) from the rollups indexer month buckets, for every month since September 2020 unless days or from/to narrow the range. Every month of the range is listed, 0 where a chain has no transactions. Same as txsByChainCompact?period=monthly
  */
 export const getApiGlobalOverviewMonthlyTxsByChainCompact = <ThrowOnError extends boolean = false>(options?: Options<GetApiGlobalOverviewMonthlyTxsByChainCompactData, ThrowOnError>) => {
-    return (options?.client ?? _heyApiClient).get<GetApiGlobalOverviewMonthlyTxsByChainCompactResponses, unknown, ThrowOnError>({
+    return (options?.client ?? _heyApiClient).get<GetApiGlobalOverviewMonthlyTxsByChainCompactResponses, GetApiGlobalOverviewMonthlyTxsByChainCompactErrors, ThrowOnError>({
         url: '/api/global/overview/monthlyTxsByChainCompact',
         ...options
     });
@@ -247,6 +276,16 @@ export const getApiGlobalOverviewMonthlyIcmByDirectionByChainCompact = <ThrowOnE
     });
 };
 
+/**
+ * Get monthly cross-chain message counts by direction (incoming/outgoing) and chain since June 2024, for one messaging protocol or all of them summed. Protocols: icm (ICM/Teleporter), layerzero (LayerZero)
+ */
+export const getApiGlobalOverviewMonthlyMessagesByDirectionByChainCompact = <ThrowOnError extends boolean = false>(options: Options<GetApiGlobalOverviewMonthlyMessagesByDirectionByChainCompactData, ThrowOnError>) => {
+    return (options.client ?? _heyApiClient).get<GetApiGlobalOverviewMonthlyMessagesByDirectionByChainCompactResponses, unknown, ThrowOnError>({
+        url: '/api/global/overview/monthlyMessages/{direction}/byChainCompact',
+        ...options
+    });
+};
+
 export const getApiByEvmChainIdStatsTps = <ThrowOnError extends boolean = false>(options: Options<GetApiByEvmChainIdStatsTpsData, ThrowOnError>) => {
     return (options.client ?? _heyApiClient).get<GetApiByEvmChainIdStatsTpsResponses, GetApiByEvmChainIdStatsTpsErrors, ThrowOnError>({
         url: '/api/{evmChainId}/stats/tps',
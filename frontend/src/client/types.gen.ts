@@ -397,8 +397,28 @@ export type GetApiGlobalIcttTransfersResponses = {
         direction: 'in' | 'out';
         contractAddress: string;
         coinAddress: string;
+        /**
+         * ERC20 name() of the coin
+         */
+        coinName: string | null;
+        /**
+         * ERC20 symbol() of the coin
+         */
+        coinSymbol: string | null;
+        tokenDecimals: number;
         transferCount: number;
-        transferCoinsTotal: number;
+        /**
+         * Base units divided by 10^tokenDecimals, exact
+         */
+        transferCoinsTotal: string;
+        /**
+         * Base units, exact
+         */
+        transferCoinsTotalRaw: string;
+        /**
+         * Sum of each transfer valued at its day's price. Transfers without a price are left out, null if none had one
+         */
+        usdValue: number | null;
     }>;
 };
 
@@ -410,10 +430,26 @@ export type GetApiGlobalIcttTransfersListData = {
     query?: {
         startTs?: number;
         endTs?: number;
+        /**
+         * Chain of the home contract
+         */
         homeChain?: string;
         remoteChain?: string;
         contractAddress?: string;
         coinAddress?: string;
+        direction?: 'in' | 'out';
+        sort?: 'newest' | 'oldest';
+        limit?: number;
+        /**
+         * Only movements older than this blockTimestamp, or at it with a lower txHash
+         */
+        before?: number;
+        beforeTxHash?: string;
+        /**
+         * Only movements newer than this blockTimestamp, or at it with a higher txHash
+         */
+        after?: number;
+        afterTxHash?: string;
     };
     url: '/api/global/ictt/transfers-list';
 };
@@ -431,11 +467,38 @@ export type GetApiGlobalIcttTransfersListResponses = {
             direction: 'in' | 'out';
             contractAddress: string;
             coinAddress: string;
-            amount: number;
+            /**
+             * ERC20 name() of the coin
+             */
+            coinName: string | null;
+            /**
+             * ERC20 symbol() of the coin
+             */
+            coinSymbol: string | null;
+            tokenDecimals: number;
+            /**
+             * Base units divided by 10^tokenDecimals, exact
+             */
+            amount: string;
+            /**
+             * Base units, exact
+             */
+            amountRaw: string;
+            /**
+             * Amount at the coin's USD price on the transfer day, null without a price
+             */
+            usdValue: number | null;
             blockTimestamp: number;
             txHash: string;
         }>;
         totalCount: number;
+        /**
+         * Last movement of this page, null when there are no more pages
+         */
+        nextCursor: {
+            blockTimestamp: number;
+            txHash: string;
+        } | null;
         availableChains: Array<{
             blockchainId: string;
             chainName: string;
@@ -465,12 +528,91 @@ export type GetApiGlobalIcttTvlResponses = {
         remoteChainName: string;
         contractAddress: string;
         coinAddress: string;
-        tvl: number;
+        /**
+         * ERC20 name() of the coin
+         */
+        coinName: string | null;
+        /**
+         * ERC20 symbol() of the coin
+         */
+        coinSymbol: string | null;
+        tokenDecimals: number;
+        /**
+         * Outbound minus inbound, base units divided by 10^tokenDecimals, exact
+         */
+        tvl: string;
+        /**
+         * Outbound minus inbound in base units, exact
+         */
+        tvlRaw: string;
+        /**
+         * TVL at the coin's USD price on the timestamp's day, null without a price
+         */
+        usdValue: number | null;
     }>;
 };
 
 export type GetApiGlobalIcttTvlResponse = GetApiGlobalIcttTvlResponses[keyof GetApiGlobalIcttTvlResponses];
 
+export type GetApiGlobalIcttTvlHistoryData = {
+    body?: never;
+    path?: never;
+    query?: {
+        /**
+         * Home contract address. All homes if omitted
+         */
+        contract?: string;
+        /**
+         * Number of days up to and including today
+         */
+        days?: number;
+    };
+    url: '/api/global/ictt/tvl/history';
+};
+
+export type GetApiGlobalIcttTvlHistoryResponses = {
+    /**
+     * Default Response
+     */
+    200: Array<{
+        homeChainBlockchainId: string;
+        homeChainName: string;
+        remoteChainBlockchainId: string;
+        remoteChainName: string;
+        contractAddress: string;
+        coinAddress: string;
+        /**
+         * ERC20 name() of the coin
+         */
+        coinName: string | null;
+        /**
+         * ERC20 symbol() of the coin
+         */
+        coinSymbol: string | null;
+        tokenDecimals: number;
+        points: Array<{
+            /**
+             * UTC day start (Unix timestamp)
+             */
+            dayTs: number;
+            /**
+             * Base units divided by 10^tokenDecimals, exact
+             */
+            tvl: string;
+            /**
+             * Base units, exact
+             */
+            tvlRaw: string;
+            /**
+             * TVL at the coin's USD price that day, null without a price
+             */
+            usdValue: number | null;
+        }>;
+    }>;
+};
+
+export type GetApiGlobalIcttTvlHistoryResponse = GetApiGlobalIcttTvlHistoryResponses[keyof GetApiGlobalIcttTvlHistoryResponses];
+
 export type GetApiByEvmChainIdBlocksLatestData = {
     body?: never;
     path: {
@@ -875,13 +1017,17 @@ export type GetApiGlobalMessagingComparisonResponses = {
              */
             toTs: number;
             /**
-             * LayerZero message count in window
+             * LayerZero message count in window, V1 and V2 endpoints
              */
             layerzero: number;
             /**
              * ICM/Teleporter message count in window
              */
             icm: number;
+            /**
+             * Message count in window of every other registered protocol, keyed by protocol id
+             */
+            [key: string]: number;
         }>;
     }>;
 };
@@ -922,18 +1068,24 @@ export type GetApiGlobalMessagingComparisonDetailedResponses = {
          */
         blockchainId: string;
         /**
-         * Total LayerZero messages in period
-         */
-        layerzeroTotal: number;
-        /**
-         * Total ICM/Teleporter messages in period
+         * Total messages in period per protocol id
          */
-        icmTotal: number;
+        protocolTotals: {
+            [key: string]: number;
+        };
         chainPairs: Array<{
             /**
              * Connected chain ID (blockchain ID for ICM, endpoint ID for LayerZero)
              */
             otherChainId: string;
+            /**
+             * Connected chain name from the indexed chains or the LayerZero EID registry (V1 and V2 EIDs), "EID <id>" if unknown
+             */
+            otherChainName: string;
+            /**
+             * Avalanche blockchain ID of the connected chain, null for LayerZero chains outside Avalanche or not in the registry
+             */
+            otherBlockchainId: string | null;
             /**
              * Cross-chain protocol used
              */
@@ -950,6 +1102,31 @@ export type GetApiGlobalMessagingComparisonDetailedResponses = {
              * Total bidirectional message count
              */
             total: number;
+            /**
+             * Costs on this chain in its native token, null without cost data for the pair. ICM gas comes from icm_gas_usage (5 minute intervals), LayerZero gas is the tx gas split across the packets of the tx
+             */
+            costs: {
+                /**
+                 * Gas of the txs sending to the other chain
+                 */
+                sendGasCost: number;
+                /**
+                 * Gas of the txs receiving (ICM) or verifying (LayerZero) messages from the other chain
+                 */
+                receiveGasCost: number;
+                /**
+                 * Sum of ExecutorFeePaid of outbound V2 packets, null for ICM
+                 */
+                executorFee: number | null;
+                /**
+                 * Sum of DVNFeePaid of outbound V2 packets, null for ICM
+                 */
+                dvnFee: number | null;
+                /**
+                 * Outbound packets the worker fees were seen for, null for ICM
+                 */
+                feePaidMessages: number | null;
+            } | null;
         }>;
     }>;
 };
@@ -964,6 +1141,10 @@ export type GetApiGlobalMessagingChainPairsData = {
          * Number of days to analyze (default: 30)
          */
         days?: number;
+        /**
+         * Combine ICM and LayerZero rows reaching the same counterpart chain (matched by Avalanche blockchain ID) into one row with protocol "all" and a per-protocol breakdown
+         */
+        mergeProtocols?: boolean;
     };
     url: '/api/global/messaging/chain-pairs';
 };
@@ -986,13 +1167,21 @@ export type GetApiGlobalMessagingChainPairsResponses = {
          */
         sourceBlockchainId: string;
         /**
-         * Connected chain ID (format depends on protocol)
+         * Connected chain ID (format depends on protocol, blockchain ID for merged rows when known)
          */
         otherChainId: string;
         /**
-         * Cross-chain messaging protocol
+         * Connected chain name from the indexed chains or the LayerZero EID registry (V1 and V2 EIDs), "EID <id>" if unknown
+         */
+        otherChainName: string;
+        /**
+         * Avalanche blockchain ID of the connected chain, null for LayerZero chains outside Avalanche or not in the registry
          */
-        protocol: 'icm' | 'layerzero';
+        otherBlockchainId: string | null;
+        /**
+         * Cross-chain messaging protocol, "all" for merged rows
+         */
+        protocol: 'icm' | 'layerzero' | 'all';
         /**
          * Messages received from other chain
          */
@@ -1005,6 +1194,15 @@ export type GetApiGlobalMessagingChainPairsResponses = {
          * Total bidirectional message count
          */
         total: number;
+        /**
+         * Per-protocol counts of merged rows
+         */
+        breakdown?: Array<{
+            protocol: 'icm' | 'layerzero';
+            inbound: number;
+            outbound: number;
+            total: number;
+        }>;
     }>;
 };
 
@@ -1105,13 +1303,95 @@ export type GetApiGlobalOverviewDailyTxsByChainResponses = {
 
 export type GetApiGlobalOverviewDailyTxsByChainResponse = GetApiGlobalOverviewDailyTxsByChainResponses[keyof GetApiGlobalOverviewDailyTxsByChainResponses];
 
+export type GetApiGlobalOverviewTxsByChainCompactData = {
+    body?: never;
+    path?: never;
+    query: {
+        period: 'hourly' | 'daily' | 'weekly' | 'monthly';
+        /**
+         * Last N days up to now
+         */
+        days?: number;
+        /**
+         * Custom range start (Unix timestamp), the bucket containing it is the first one. Takes precedence over days
+         */
+        from?: number;
+        /**
+         * Custom range end (Unix timestamp), inclusive. Defaults to and is capped at now
+         */
+        to?: number;
+    };
+    url: '/api/global/overview/txsByChainCompact';
+};
+
+export type GetApiGlobalOverviewTxsByChainCompactErrors = {
+    /**
+     * Default Response
+     */
+    400: {
+        error?: string;
+    };
+};
+
+export type GetApiGlobalOverviewTxsByChainCompactError = GetApiGlobalOverviewTxsByChainCompactErrors[keyof GetApiGlobalOverviewTxsByChainCompactErrors];
+
+export type GetApiGlobalOverviewTxsByChainCompactResponses = {
+    /**
+     * Default Response
+     */
+    200: {
+        /**
+         * Bucket labels: YYYY-MM-DDTHH:00Z (hourly), YYYY-MM-DD (daily), YYYY-Www ISO week (weekly), YYYY-MM (monthly)
+         */
+        dates: Array<string>;
+        /**
+         * Bucket start (Unix timestamp, UTC) of each date
+         */
+        timestamps: Array<number>;
+        chains: Array<{
+            evmChainId: number;
+            name: string;
+            /**
+             * Transaction counts corresponding to dates array
+             */
+            values: Array<number>;
+        }>;
+    };
+};
+
+export type GetApiGlobalOverviewTxsByChainCompactResponse = GetApiGlobalOverviewTxsByChainCompactResponses[keyof GetApiGlobalOverviewTxsByChainCompactResponses];
+
 export type GetApiGlobalOverviewDailyTxsByChainCompactData = {
     body?: never;
     path?: never;
-    query?: never;
+    query?: {
+        /**
+         * Last N days up to now
+         */
+        days?: number;
+        /**
+         * Custom range start (Unix timestamp), the bucket containing it is the first one. Takes precedence over days
+         */
+        from?: number;
+        /**
+         * Custom range end (Unix timestamp), inclusive. Defaults to and is capped at now
+         */
+        to?: number;
+    };
     url: '/api/global/overview/dailyTxsByChainCompact';
 };
 
+export type GetApiGlobalOverviewDailyTxsByChainCompactErrors = {
+    /**
+     * Default Response
+     */
+    400: {
+        error?: string;
+    };
+};
+
+export type GetApiGlobalOverviewDailyTxsByChainCompactError = GetApiGlobalOverviewDailyTxsByChainCompactErrors[keyof GetApiGlobalOverviewDailyTxsByChainCompactErrors];
+
 export type GetApiGlobalOverviewDailyTxsByChainCompactResponses = {
     /**
      * Default Response
@@ -1121,6 +1401,10 @@ export type GetApiGlobalOverviewDailyTxsByChainCompactResponses = {
          * Array of dates in YYYY-MM-DD format
          */
         dates: Array<string>;
+        /**
+         * Bucket start (Unix timestamp, UTC) of each date
+         */
+        timestamps: Array<number>;
         chains: Array<{
             evmChainId: number;
             name: string;
@@ -1137,10 +1421,34 @@ export type GetApiGlobalOverviewDailyTxsByChainCompactResponse = GetApiGlobalOve
 export type GetApiGlobalOverviewMonthlyTxsByChainCompactData = {
     body?: never;
     path?: never;
-    query?: never;
+    query?: {
+        /**
+         * Last N days up to now
+         */
+        days?: number;
+        /**
+         * Custom range start (Unix timestamp), the bucket containing it is the first one. Takes precedence over days
+         */
+        from?: number;
+        /**
+         * Custom range end (Unix timestamp), inclusive. Defaults to and is capped at now
+         */
+        to?: number;
+    };
     url: '/api/global/overview/monthlyTxsByChainCompact';
 };
 
+export type GetApiGlobalOverviewMonthlyTxsByChainCompactErrors = {
+    /**
+     * Default Response
+     */
+    400: {
+        error?: string;
+    };
+};
+
+export type GetApiGlobalOverviewMonthlyTxsByChainCompactError = GetApiGlobalOverviewMonthlyTxsByChainCompactErrors[keyof GetApiGlobalOverviewMonthlyTxsByChainCompactErrors];
+
 export type GetApiGlobalOverviewMonthlyTxsByChainCompactResponses = {
     /**
      * Default Response
@@ -1150,6 +1458,10 @@ export type GetApiGlobalOverviewMonthlyTxsByChainCompactResponses = {
          * Array of months in YYYY-MM format
          */
         dates: Array<string>;
+        /**
+         * Bucket start (Unix timestamp, UTC) of each date
+         */
+        timestamps: Array<number>;
         chains: Array<{
             evmChainId: number;
             name: string;
@@ -1226,6 +1538,49 @@ export type GetApiGlobalOverviewMonthlyIcmByDirectionByChainCompactResponses = {
 
 export type GetApiGlobalOverviewMonthlyIcmByDirectionByChainCompactResponse = GetApiGlobalOverviewMonthlyIcmByDirectionByChainCompactResponses[keyof GetApiGlobalOverviewMonthlyIcmByDirectionByChainCompactResponses];
 
+export type GetApiGlobalOverviewMonthlyMessagesByDirectionByChainCompactData = {
+    body?: never;
+    path: {
+        /**
+         * Message direction: incoming (received) or outgoing (sent)
+         */
+        direction: 'incoming' | 'outgoing';
+    };
+    query?: {
+        /**
+         * Protocol id, or all to sum every protocol (default: all)
+         */
+        protocol?: 'icm' | 'layerzero' | 'all';
+    };
+    url: '/api/global/overview/monthlyMessages/{direction}/byChainCompact';
+};
+
+export type GetApiGlobalOverviewMonthlyMessagesByDirectionByChainCompactResponses = {
+    /**
+     * Default Response
+     */
+    200: {
+        /**
+         * Array of months in YYYY-MM format
+         */
+        dates: Array<string>;
+        /**
+         * Protocol ids included in the counts
+         */
+        protocols: Array<string>;
+        chains: Array<{
+            evmChainId: number;
+            name: string;
+            /**
+             * Monthly message counts for specified direction
+             */
+            values: Array<number>;
+        }>;
+    };
+};
+
+export type GetApiGlobalOverviewMonthlyMessagesByDirectionByChainCompactResponse = GetApiGlobalOverviewMonthlyMessagesByDirectionByChainCompactResponses[keyof GetApiGlobalOverviewMonthlyMessagesByDirectionByChainCompactResponses];
+
 export type GetApiByEvmChainIdStatsTpsData = {
     body?: never;
     path: {
@@ -1,28 +1,19 @@
-import coinNames from "./coinNames.json"
-
 interface NamedCoinProps {
     address: string
+    // ERC20 name()/symbol() from the API, null until the indexer fetched them
+    name?: string | null
+    symbol?: string | null
     extras?: Record<string, string>
 }
 
-export default function NamedCoin({ address, extras }: NamedCoinProps) {
+export default function NamedCoin({ address, name, symbol, extras }: NamedCoinProps) {
     // Check extras first
-    const extraName = extras?.[address]
-    if (extraName) {
-        return (
-            <span>
-                {extraName}<br />
-                <span className="text-xs text-gray-500 font-mono">{address}</span>
-            </span>
-        )
-    }
+    const displayName = extras?.[address] || (name && symbol && name !== symbol ? `${name} (${symbol})` : name || symbol)
 
-    // Then check coinNames
-    const name = coinNames[address as keyof typeof coinNames]
-    if (name) {
+    if (displayName) {
         return (
             <span>
-                {name}<br />
+                {displayName}<br />
                 <span className="text-xs text-gray-500 font-mono">{address}</span>
             </span>
         )
@@ -0,0 +1,13 @@
+interface TokenAmountProps {
+    // Exact decimal string from the API, e.g. "-1234.5678"
+    value: string
+}
+
+// Groups the integer part without going through Number, which would round large 18-decimal amounts
+export default function TokenAmount({ value }: TokenAmountProps) {
+    const negative = value.startsWith('-')
+    const [integer, fraction] = (negative ? value.slice(1) : value).split('.')
+    const grouped = BigInt(integer || '0').toLocaleString()
+
+    return <>{negative ? '-' : ''}{grouped}{fraction ? `.${fraction}` : ''}</>
+}
@@ -0,0 +1,10 @@
+interface UsdValueProps {
+    value: number | null
+}
+
+// Null when the API has no price for the coin
+export default function UsdValue({ value }: UsdValueProps) {
+    if (value === null) return <span className="text-gray-400">—</span>
+
+    return <>{value.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 2 })}</>
+}
@@ -1,8 +1,8 @@
-import type { IndexingPlugin } from "frostbyte-sdk";
+import { finishBatch, initBlockRange, planBatch, rewindBlockRange, txBlockNumber, type BlockRollbackPlugin } from "./lib/blockLedger";
 
-const module: IndexingPlugin = {
+const module: BlockRollbackPlugin = {
     name: "daily_active_addresses",
-    version: 1,
+    version: 3,
     usesTraces: false,
 
     initialize: (db) => {
@@ -25,6 +25,19 @@ const module: IndexingPlugin = {
             )
         `);
 
+        // What each block added to daily_address_activity, kept for the rollback window
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS daily_address_ledger (
+                block_number INTEGER NOT NULL,
+                day_ts INTEGER NOT NULL,
+                address TEXT NOT NULL,
+                tx_count INTEGER NOT NULL,
+                PRIMARY KEY (block_number, address)
+            )
+        `);
+
+        initBlockRange(db);
+
         // Create indexes for performance
         try {
             db.exec(`
@@ -47,12 +60,53 @@ const module: IndexingPlugin = {
         }
     },
 
+    // Subtracts the ledgered blocks >= fromBlock from the address activity and refreshes the affected day summaries
+    rollbackBlocks: (db, fromBlock) => {
+        const reverted = db.prepare(`
+            SELECT day_ts, address, SUM(tx_count) as tx_count
+            FROM daily_address_ledger
+            WHERE block_number >= ?
+            GROUP BY day_ts, address
+        `).all(fromBlock) as Array<{ day_ts: number; address: string; tx_count: number }>;
+
+        const subtractAddressStmt = db.prepare(`
+            UPDATE daily_address_activity SET tx_count = tx_count - ? WHERE day_ts = ? AND address = ?
+        `);
+        const deleteAddressStmt = db.prepare(`
+            DELETE FROM daily_address_activity WHERE day_ts = ? AND address = ? AND tx_count <= 0
+        `);
+        const days = new Set<number>();
+        for (const row of reverted) {
+            subtractAddressStmt.run(row.tx_count, row.day_ts, row.address);
+            deleteAddressStmt.run(row.day_ts, row.address);
+            days.add(row.day_ts);
+        }
+
+        const refreshDayStmt = db.prepare(`
+            UPDATE daily_active_counts SET
+                active_addresses = (SELECT COUNT(DISTINCT address) FROM daily_address_activity WHERE day_ts = ?),
+                total_txs = (SELECT COALESCE(SUM(tx_count), 0) FROM daily_address_activity WHERE day_ts = ?)
+            WHERE day_ts = ?
+        `);
+        const deleteDayStmt = db.prepare('DELETE FROM daily_active_counts WHERE day_ts = ? AND total_txs = 0');
+        for (const dayTs of days) {
+            refreshDayStmt.run(dayTs, dayTs, dayTs);
+            deleteDayStmt.run(dayTs);
+        }
+
+        db.prepare('DELETE FROM daily_address_ledger WHERE block_number >= ?').run(fromBlock);
+        rewindBlockRange(db, fromBlock);
+    },
+
     handleTxBatch: (db, blocksDb, batch) => {
+        const { txs, rollbackFromBlock } = planBatch(db, batch.txs);
+
         // Accumulate data in memory
         const dailyAddressMap = new Map<number, Map<string, number>>();
         const dailyTxCounts = new Map<number, number>();
+        const blockAddressMap = new Map<number, { dayTs: number, addresses: Map<string, number> }>();
 
-        for (const tx of batch.txs) {
+        for (const tx of txs) {
             // Round down to midnight UTC
             const dayTs = Math.floor(tx.blockTs / 86400) * 86400;
             const fromAddress = tx.tx.from;
@@ -68,8 +122,17 @@ const module: IndexingPlugin = {
 
             // Track total txs per day
             dailyTxCounts.set(dayTs, (dailyTxCounts.get(dayTs) || 0) + 1);
+
+            const blockNumber = txBlockNumber(tx);
+            if (!blockAddressMap.has(blockNumber)) {
+                blockAddressMap.set(blockNumber, { dayTs, addresses: new Map() });
+            }
+            const blockAddresses = blockAddressMap.get(blockNumber)!.addresses;
+            blockAddresses.set(fromAddress, (blockAddresses.get(fromAddress) || 0) + 1);
         }
 
+        if (rollbackFromBlock !== null) module.rollbackBlocks(db, rollbackFromBlock);
+
         if (dailyAddressMap.size === 0) return;
 
         // Prepare statements
@@ -101,6 +164,18 @@ const module: IndexingPlugin = {
             // Update daily summary
             updateDailyCountsStmt.run(dayTs, dayTs, dayTs, dayTs, dayTs);
         }
+
+        const insertLedgerStmt = db.prepare(`
+            INSERT OR REPLACE INTO daily_address_ledger (block_number, day_ts, address, tx_count)
+            VALUES (?, ?, ?, ?)
+        `);
+        for (const [blockNumber, { dayTs, addresses }] of blockAddressMap) {
+            for (const [address, txCount] of addresses) {
+                insertLedgerStmt.run(blockNumber, dayTs, address, txCount);
+            }
+        }
+
+        finishBatch(db, txs, ['daily_address_ledger']);
     }
 };
 
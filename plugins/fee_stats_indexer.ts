@@ -0,0 +1,230 @@
+import { finishBatch, initBlockRange, planBatch, rewindBlockRange, txBlockNumber, type BlockRollbackPlugin } from "./lib/blockLedger";
+import { gasPriceBin } from "./lib/gasPriceBins";
+
+type BatchTx = Parameters<BlockRollbackPlugin['handleTxBatch']>[2]['txs'][number];
+
+interface FeeStats {
+    count: number;
+    gasUsed: number;
+    fees: bigint; // wei
+    burned: bigint;
+    tips: bigint;
+}
+
+/**
+ * Receipts don't carry the block base fee and the blocks DB only reads full blocks, too slow for every
+ * block of a batch, so it is recovered from the block's transactions. For a type 2+ tx,
+ * effectiveGasPrice - maxPriorityFeePerGas equals the base fee unless maxFeePerGas capped it, in which
+ * case it is lower. No tx pays less than the base fee. Blocks with legacy txs only fall back to their
+ * lowest effectiveGasPrice, an upper bound of the base fee
+ */
+function inferredBaseFee(txs: BatchTx[]): bigint {
+    let lowestPrice: bigint | null = null;
+    let baseFee: bigint | null = null;
+
+    for (const { tx, receipt } of txs) {
+        const price = BigInt(receipt.effectiveGasPrice || '0');
+        if (lowestPrice === null || price < lowestPrice) lowestPrice = price;
+
+        if (tx.type !== '0x0' && tx.type !== '0x1' && tx.maxPriorityFeePerGas) {
+            const candidate = price - BigInt(tx.maxPriorityFeePerGas);
+            if (baseFee === null || candidate > baseFee) baseFee = candidate;
+        }
+    }
+
+    if (lowestPrice === null) return 0n;
+    if (baseFee === null || baseFee > lowestPrice) return lowestPrice;
+    return baseFee < 0n ? 0n : baseFee;
+}
+
+const module: BlockRollbackPlugin = {
+    name: "fee_stats",
+    version: 4,
+    usesTraces: false,
+
+    initialize: (db) => {
+        // Fee amounts in native token units (wei / 1e18)
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS daily_fee_stats (
+                day_ts INTEGER PRIMARY KEY,     -- Unix timestamp of start of day (00:00:00 UTC)
+                tx_count INTEGER NOT NULL,
+                gas_used INTEGER NOT NULL,
+                total_fees REAL NOT NULL,       -- gasUsed * effectiveGasPrice
+                burned_fees REAL NOT NULL,      -- gasUsed * block base fee
+                priority_fees REAL NOT NULL     -- total_fees - burned_fees
+            );
+
+            -- Transactions per effectiveGasPrice bin (see lib/gasPriceBins) for median gas prices
+            CREATE TABLE IF NOT EXISTS daily_gas_price_bins (
+                day_ts INTEGER NOT NULL,
+                price_bin INTEGER NOT NULL,
+                tx_count INTEGER NOT NULL,
+                PRIMARY KEY (day_ts, price_bin)
+            );
+
+            -- What each block added to both tables, kept for the rollback window
+            CREATE TABLE IF NOT EXISTS fee_ledger (
+                block_number INTEGER PRIMARY KEY,
+                day_ts INTEGER NOT NULL,
+                tx_count INTEGER NOT NULL,
+                gas_used INTEGER NOT NULL,
+                total_fees REAL NOT NULL,
+                burned_fees REAL NOT NULL,
+                priority_fees REAL NOT NULL
+            );
+
+            CREATE TABLE IF NOT EXISTS fee_price_ledger (
+                block_number INTEGER NOT NULL,
+                price_bin INTEGER NOT NULL,
+                tx_count INTEGER NOT NULL,
+                PRIMARY KEY (block_number, price_bin)
+            );
+        `);
+
+        initBlockRange(db);
+    },
+
+    // Subtracts the ledgered blocks >= fromBlock from the daily stats and gas price bins
+    rollbackBlocks: (db, fromBlock) => {
+        const revertedDays = db.prepare(`
+            SELECT day_ts, SUM(tx_count) as tx_count, SUM(gas_used) as gas_used,
+                SUM(total_fees) as total_fees, SUM(burned_fees) as burned_fees, SUM(priority_fees) as priority_fees
+            FROM fee_ledger
+            WHERE block_number >= ?
+            GROUP BY day_ts
+        `).all(fromBlock) as Array<{ day_ts: number; tx_count: number; gas_used: number; total_fees: number; burned_fees: number; priority_fees: number }>;
+
+        const revertedBins = db.prepare(`
+            SELECT l.day_ts, p.price_bin, SUM(p.tx_count) as tx_count
+            FROM fee_price_ledger p
+            JOIN fee_ledger l ON l.block_number = p.block_number
+            WHERE p.block_number >= ?
+            GROUP BY l.day_ts, p.price_bin
+        `).all(fromBlock) as Array<{ day_ts: number; price_bin: number; tx_count: number }>;
+
+        const subtractDayStmt = db.prepare(`
+            UPDATE daily_fee_stats SET
+                tx_count = tx_count - ?,
+                gas_used = gas_used - ?,
+                total_fees = total_fees - ?,
+                burned_fees = burned_fees - ?,
+                priority_fees = priority_fees - ?
+            WHERE day_ts = ?
+        `);
+        const deleteDayStmt = db.prepare('DELETE FROM daily_fee_stats WHERE day_ts = ? AND tx_count <= 0');
+        for (const row of revertedDays) {
+            subtractDayStmt.run(row.tx_count, row.gas_used, row.total_fees, row.burned_fees, row.priority_fees, row.day_ts);
+            deleteDayStmt.run(row.day_ts);
+        }
+
+        const subtractBinStmt = db.prepare(`
+            UPDATE daily_gas_price_bins SET tx_count = tx_count - ? WHERE day_ts = ? AND price_bin = ?
+        `);
+        const deleteBinStmt = db.prepare('DELETE FROM daily_gas_price_bins WHERE day_ts = ? AND price_bin = ? AND tx_count <= 0');
+        for (const row of revertedBins) {
+            subtractBinStmt.run(row.tx_count, row.day_ts, row.price_bin);
+            deleteBinStmt.run(row.day_ts, row.price_bin);
+        }
+
+        db.prepare('DELETE FROM fee_price_ledger WHERE block_number >= ?').run(fromBlock);
+        db.prepare('DELETE FROM fee_ledger WHERE block_number >= ?').run(fromBlock);
+        rewindBlockRange(db, fromBlock);
+    },
+
+    handleTxBatch: (db, blocksDb, batch) => {
+        const { txs, rollbackFromBlock } = planBatch(db, batch.txs);
+
+        // The base fee is per block, so group the batch by block first
+        const blocks = new Map<number, BatchTx[]>();
+        for (const tx of txs) {
+            const blockNumber = txBlockNumber(tx);
+            if (!blocks.has(blockNumber)) blocks.set(blockNumber, []);
+            blocks.get(blockNumber)!.push(tx);
+        }
+
+        // Accumulate per day and per block in memory
+        const dayStats = new Map<number, FeeStats>();
+        const dayBins = new Map<number, Map<number, number>>();
+        const blockStats = new Map<number, { dayTs: number; stats: FeeStats; bins: Map<number, number> }>();
+
+        for (const [blockNumber, blockTxs] of blocks) {
+            const baseFee = inferredBaseFee(blockTxs);
+            const dayTs = Math.floor(blockTxs[0]!.blockTs / 86400) * 86400;
+            const block = { dayTs, stats: { count: 0, gasUsed: 0, fees: 0n, burned: 0n, tips: 0n }, bins: new Map<number, number>() };
+            blockStats.set(blockNumber, block);
+
+            if (!dayStats.has(dayTs)) {
+                dayStats.set(dayTs, { count: 0, gasUsed: 0, fees: 0n, burned: 0n, tips: 0n });
+                dayBins.set(dayTs, new Map());
+            }
+            const day = dayStats.get(dayTs)!;
+            const bins = dayBins.get(dayTs)!;
+
+            for (const { receipt } of blockTxs) {
+                const gasUsed = BigInt(receipt.gasUsed || '0');
+                const price = BigInt(receipt.effectiveGasPrice || '0');
+                const fee = gasUsed * price;
+                const burned = gasUsed * (baseFee < price ? baseFee : price);
+                const bin = gasPriceBin(price);
+
+                for (const stats of [day, block.stats]) {
+                    stats.count += 1;
+                    stats.gasUsed += Number(gasUsed);
+                    stats.fees += fee;
+                    stats.burned += burned;
+                    stats.tips += fee - burned;
+                }
+                bins.set(bin, (bins.get(bin) || 0) + 1);
+                block.bins.set(bin, (block.bins.get(bin) || 0) + 1);
+            }
+        }
+
+        if (rollbackFromBlock !== null) module.rollbackBlocks(db, rollbackFromBlock);
+
+        if (dayStats.size === 0) return;
+
+        const upsertDayStmt = db.prepare(`
+            INSERT INTO daily_fee_stats (day_ts, tx_count, gas_used, total_fees, burned_fees, priority_fees)
+            VALUES (?, ?, ?, ?, ?, ?)
+            ON CONFLICT(day_ts) DO UPDATE SET
+                tx_count = tx_count + excluded.tx_count,
+                gas_used = gas_used + excluded.gas_used,
+                total_fees = total_fees + excluded.total_fees,
+                burned_fees = burned_fees + excluded.burned_fees,
+                priority_fees = priority_fees + excluded.priority_fees
+        `);
+        const upsertBinStmt = db.prepare(`
+            INSERT INTO daily_gas_price_bins (day_ts, price_bin, tx_count)
+            VALUES (?, ?, ?)
+            ON CONFLICT(day_ts, price_bin) DO UPDATE SET
+                tx_count = tx_count + excluded.tx_count
+        `);
+
+        // Convert from wei to native token units (divide by 10^18)
+        for (const [dayTs, stats] of dayStats) {
+            upsertDayStmt.run(dayTs, stats.count, stats.gasUsed, Number(stats.fees) / 1e18, Number(stats.burned) / 1e18, Number(stats.tips) / 1e18);
+            for (const [bin, count] of dayBins.get(dayTs)!) {
+                upsertBinStmt.run(dayTs, bin, count);
+            }
+        }
+
+        const insertLedgerStmt = db.prepare(`
+            INSERT OR REPLACE INTO fee_ledger (block_number, day_ts, tx_count, gas_used, total_fees, burned_fees, priority_fees)
+            VALUES (?, ?, ?, ?, ?, ?, ?)
+        `);
+        const insertPriceLedgerStmt = db.prepare(`
+            INSERT OR REPLACE INTO fee_price_ledger (block_number, price_bin, tx_count)
+            VALUES (?, ?, ?)
+        `);
+        for (const [blockNumber, { dayTs, stats, bins }] of blockStats) {
+            insertLedgerStmt.run(blockNumber, dayTs, stats.count, stats.gasUsed, Number(stats.fees) / 1e18, Number(stats.burned) / 1e18, Number(stats.tips) / 1e18);
+            for (const [bin, count] of bins) {
+                insertPriceLedgerStmt.run(blockNumber, bin, count);
+            }
+        }
+
+        finishBatch(db, txs, ['fee_price_ledger', 'fee_ledger']);
+    }
+};
+
+export default module;
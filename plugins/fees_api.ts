@@ -0,0 +1,235 @@
+import type { ApiPlugin } from "frostbyte-sdk";
+import { medianGasPrice } from "./lib/gasPriceBins";
+
+type DbCtx = Parameters<ApiPlugin['registerRoutes']>[1];
+type IndexerConnection = ReturnType<DbCtx['getIndexerDbConnection']>;
+
+interface FeeTotals {
+    txCount: number;
+    gasUsed: number;
+    totalFees: number;
+    burnedFees: number;
+    priorityFees: number;
+    avgGasPriceGwei: number | null;
+    medianGasPriceGwei: number | null;
+}
+
+interface DailyFeeRow {
+    day_ts: number;
+    tx_count: number;
+    gas_used: number;
+    total_fees: number;
+    burned_fees: number;
+    priority_fees: number;
+}
+
+const FEES_DESCRIPTION = 'Computed by the fee_stats indexer from every transaction receipt: totalFees = gasUsed * effectiveGasPrice, burnedFees = gasUsed * block base fee, priorityFees = the rest. Receipts carry no base fee, so it is recovered per block as the highest effectiveGasPrice - maxPriorityFeePerGas of its type 2+ txs (capped by the lowest effectiveGasPrice), or the lowest effectiveGasPrice if the block only has legacy txs, which overstates the burn of such blocks. Amounts are in native token units of each chain (wei / 1e18), gas prices in gwei (1e9 wei). avgGasPriceGwei is gas-weighted (totalFees / gasUsed); medianGasPriceGwei is per transaction, from a histogram with 1% wide bins. Days are UTC and include today.';
+
+const feeTotalsProperties = {
+    txCount: { type: 'number' },
+    gasUsed: { type: 'number' },
+    totalFees: { type: 'number', description: 'Native token units' },
+    burnedFees: { type: 'number', description: 'Native token units' },
+    priorityFees: { type: 'number', description: 'Native token units' },
+    avgGasPriceGwei: { type: ['number', 'null'] },
+    medianGasPriceGwei: { type: ['number', 'null'] }
+};
+
+const feeTotalsRequired = Object.keys(feeTotalsProperties);
+
+const daysQuerystring = {
+    type: 'object',
+    properties: {
+        days: { type: 'integer', minimum: 1, maximum: 365, default: 30, description: 'Number of UTC days up to and including today' }
+    },
+    additionalProperties: false
+};
+
+function toFeeTotals(row: Omit<DailyFeeRow, 'day_ts'>, bins: Array<{ price_bin: number; tx_count: number }>): FeeTotals {
+    const median = medianGasPrice(bins);
+    return {
+        txCount: row.tx_count,
+        gasUsed: row.gas_used,
+        totalFees: row.total_fees,
+        burnedFees: row.burned_fees,
+        priorityFees: row.priority_fees,
+        avgGasPriceGwei: row.gas_used > 0 ? row.total_fees * 1e9 / row.gas_used : null,
+        medianGasPriceGwei: median === null ? null : median / 1e9
+    };
+}
+
+function periodTotals(conn: IndexerConnection, fromDayTs: number): FeeTotals {
+    const row = conn.prepare(`
+        SELECT COALESCE(SUM(tx_count), 0) as tx_count, COALESCE(SUM(gas_used), 0) as gas_used,
+            TOTAL(total_fees) as total_fees, TOTAL(burned_fees) as burned_fees, TOTAL(priority_fees) as priority_fees
+        FROM daily_fee_stats
+        WHERE day_ts >= ?
+    `).get(fromDayTs) as Omit<DailyFeeRow, 'day_ts'>;
+    const bins = conn.prepare(`
+        SELECT price_bin, SUM(tx_count) as tx_count
+        FROM daily_gas_price_bins
+        WHERE day_ts >= ?
+        GROUP BY price_bin
+    `).all(fromDayTs) as Array<{ price_bin: number; tx_count: number }>;
+    return toFeeTotals(row, bins);
+}
+
+function fromDayTs(days: number): number {
+    const todayTs = Math.floor(Date.now() / 1000 / 86400) * 86400;
+    return todayTs - (days - 1) * 86400;
+}
+
+const module: ApiPlugin = {
+    name: "fees_api",
+    requiredIndexers: ['fee_stats'],
+
+    registerRoutes: (app, dbCtx) => {
+        const configs = dbCtx.getAllChainConfigs();
+        const chainIds = configs.map(config => config.evmChainId.toString());
+
+        app.get<{
+            Params: { evmChainId: string };
+            Querystring: { days?: number }
+        }>('/api/:evmChainId/stats/fees', {
+            schema: {
+                description: `Transaction fees paid on the chain over the period, with daily breakdown. ${FEES_DESCRIPTION}`,
+                tags: ["Gas Analytics"],
+                params: {
+                    type: 'object',
+                    properties: {
+                        evmChainId: {
+                            type: 'string',
+                            enum: chainIds,
+                            description: `EVM Chain ID. Available chains: ${chainIds.join(', ')}`
+                        }
+                    },
+                    required: ['evmChainId'],
+                    additionalProperties: false
+                },
+                querystring: daysQuerystring,
+                response: {
+                    200: {
+                        type: 'object',
+                        properties: {
+                            evmChainId: { type: 'number' },
+                            days: { type: 'number' },
+                            totals: {
+                                type: 'object',
+                                properties: feeTotalsProperties,
+                                required: feeTotalsRequired
+                            },
+                            daily: {
+                                type: 'array',
+                                items: {
+                                    type: 'object',
+                                    properties: {
+                                        timestamp: { type: 'number', description: 'Start of the UTC day' },
+                                        ...feeTotalsProperties
+                                    },
+                                    required: ['timestamp', ...feeTotalsRequired]
+                                }
+                            }
+                        },
+                        required: ['evmChainId', 'days', 'totals', 'daily']
+                    },
+                    400: {
+                        type: 'object',
+                        properties: {
+                            error: { type: 'string' }
+                        }
+                    },
+                    404: {
+                        type: 'object',
+                        properties: {
+                            error: { type: 'string' }
+                        }
+                    }
+                }
+            }
+        }, async (request, reply) => {
+            const evmChainId = parseInt(request.params.evmChainId);
+            if (isNaN(evmChainId)) {
+                return reply.code(400).send({ error: 'Invalid chain ID format' });
+            }
+
+            const chainConfig = configs.find(config => config.evmChainId === evmChainId);
+            if (!chainConfig) {
+                return reply.code(404).send({ error: `Chain ${evmChainId} not found` });
+            }
+
+            const days = request.query.days ?? 30;
+            const since = fromDayTs(days);
+            const conn = dbCtx.getIndexerDbConnection(evmChainId, 'fee_stats');
+
+            const dailyRows = conn.prepare(`
+                SELECT day_ts, tx_count, gas_used, total_fees, burned_fees, priority_fees
+                FROM daily_fee_stats
+                WHERE day_ts >= ?
+                ORDER BY day_ts ASC
+            `).all(since) as DailyFeeRow[];
+
+            const binRows = conn.prepare(`
+                SELECT day_ts, price_bin, tx_count
+                FROM daily_gas_price_bins
+                WHERE day_ts >= ?
+            `).all(since) as Array<{ day_ts: number; price_bin: number; tx_count: number }>;
+
+            const binsByDay = new Map<number, Array<{ price_bin: number; tx_count: number }>>();
+            for (const row of binRows) {
+                if (!binsByDay.has(row.day_ts)) binsByDay.set(row.day_ts, []);
+                binsByDay.get(row.day_ts)!.push(row);
+            }
+
+            return reply.send({
+                evmChainId,
+                days,
+                totals: periodTotals(conn, since),
+                daily: dailyRows.map(row => ({
+                    timestamp: row.day_ts,
+                    ...toFeeTotals(row, binsByDay.get(row.day_ts) ?? [])
+                }))
+            });
+        });
+
+        app.get<{
+            Querystring: { days?: number }
+        }>('/api/global/stats/fees', {
+            schema: {
+                description: `Fee revenue of every indexed L1 over the period, ranked by totalFees. Native tokens differ between chains, so the ranking compares raw native token amounts, not their value. ${FEES_DESCRIPTION}`,
+                tags: ["Gas Analytics"],
+                querystring: daysQuerystring,
+                response: {
+                    200: {
+                        type: 'array',
+                        items: {
+                            type: 'object',
+                            properties: {
+                                evmChainId: { type: 'number' },
+                                name: { type: 'string' },
+                                blockchainId: { type: 'string' },
+                                ...feeTotalsProperties
+                            },
+                            required: ['evmChainId', 'name', 'blockchainId', ...feeTotalsRequired]
+                        }
+                    }
+                }
+            }
+        }, async (request, reply) => {
+            const since = fromDayTs(request.query.days ?? 30);
+
+            const results = configs.map(config => ({
+                evmChainId: config.evmChainId,
+                name: config.chainName,
+                blockchainId: config.blockchainId,
+                ...periodTotals(dbCtx.getIndexerDbConnection(config.evmChainId, 'fee_stats'), since)
+            }));
+
+            // Sort by fee revenue descending
+            results.sort((a, b) => b.totalFees - a.totalFees);
+
+            return reply.send(results);
+        });
+    }
+};
+
+export default module;
@@ -1,15 +1,11 @@
 import type { ApiPlugin } from "frostbyte-sdk";
+import { getCumulativeTxs } from "./lib/cumulativeTxs";
 
 interface GasUsagePeriodResult {
     totalGasUsed: number;
     avgDailyGasUsed: number;
 }
 
-interface CumulativeGasResult {
-    minute_ts: number;
-    cumulative_gas_used: number;
-}
-
 interface MinuteGasSum {
     total_gas: number | null;
 }
@@ -110,26 +106,8 @@ const module: ApiPlugin = {
             const indexerConn = dbCtx.getIndexerDbConnection(evmChainId, 'minute_tx_counter');
 
             // Get cumulative gas at start and end of period
-            const startStmt = indexerConn.prepare(`
-                SELECT minute_ts, cumulative_gas_used
-                FROM cumulative_tx_counts
-                WHERE minute_ts <= ?
-                ORDER BY minute_ts DESC
-                LIMIT 1
-            `);
-            const endStmt = indexerConn.prepare(`
-                SELECT minute_ts, cumulative_gas_used
-                FROM cumulative_tx_counts
-                WHERE minute_ts <= ?
-                ORDER BY minute_ts DESC
-                LIMIT 1
-            `);
-
-            const startResult = startStmt.get(startTimestamp) as CumulativeGasResult | undefined;
-            const endResult = endStmt.get(endTimestamp) as CumulativeGasResult | undefined;
-
-            const startGas = startResult?.cumulative_gas_used || 0;
-            const endGas = endResult?.cumulative_gas_used || 0;
+            const startGas = getCumulativeTxs(indexerConn, Math.floor(startTimestamp / 60) * 60)?.cumulativeGasUsed || 0;
+            const endGas = getCumulativeTxs(indexerConn, Math.floor(endTimestamp / 60) * 60)?.cumulativeGasUsed || 0;
             const totalGasUsed = Math.max(0, endGas - startGas);
 
             const periodDays = Math.ceil((endTimestamp - startTimestamp) / 86400);
@@ -212,29 +190,7 @@ const module: ApiPlugin = {
 
             const indexerConn = dbCtx.getIndexerDbConnection(evmChainId, 'minute_tx_counter');
 
-            let result: CumulativeGasResult | undefined;
-
-            if (queryTimestamp) {
-                // Get cumulative gas at or before the specified timestamp
-                const minuteTs = Math.floor(queryTimestamp / 60) * 60;
-                const stmt = indexerConn.prepare(`
-                    SELECT minute_ts, cumulative_gas_used
-                    FROM cumulative_tx_counts
-                    WHERE minute_ts <= ?
-                    ORDER BY minute_ts DESC
-                    LIMIT 1
-                `);
-                result = stmt.get(minuteTs) as CumulativeGasResult | undefined;
-            } else {
-                // Get the latest cumulative gas
-                const stmt = indexerConn.prepare(`
-                    SELECT minute_ts, cumulative_gas_used
-                    FROM cumulative_tx_counts
-                    ORDER BY minute_ts DESC
-                    LIMIT 1
-                `);
-                result = stmt.get() as CumulativeGasResult | undefined;
-            }
+            const result = getCumulativeTxs(indexerConn, queryTimestamp ? Math.floor(queryTimestamp / 60) * 60 : null);
 
             if (!result) {
                 return reply.send({
@@ -244,8 +200,8 @@ const module: ApiPlugin = {
             }
 
             return reply.send({
-                timestamp: result.minute_ts,
-                cumulativeGasUsed: result.cumulative_gas_used
+                timestamp: result.minuteTs,
+                cumulativeGasUsed: result.cumulativeGasUsed
             });
         });
 
@@ -1,8 +1,7 @@
-import type { IndexingPlugin } from "frostbyte-sdk";
 import { encodingUtils, viem } from "frostbyte-sdk";
-
-// Teleporter contract address
-const TELEPORTER_ADDRESS = "0x253b2784c75e510dd0ff1da844684a1ac0aa5fcf";
+import { findTeleporterMessenger } from "./lib/teleporterRegistry";
+import { txEvmChainId } from "./lib/chainContext";
+import { finishBatch, initBlockRange, planBatch, rewindBlockRange, txBlockNumber, type BlockRollbackPlugin } from "./lib/blockLedger";
 
 // Event topic signatures
 const SEND_CROSS_CHAIN_MESSAGE_TOPIC = '0x2a211ad4a59ab9d003852404f9c57c690704ee755f3c79d2c2812ad32da99df8';
@@ -17,9 +16,9 @@ interface ChainIntervalStats {
 
 export const ICM_CHAIN_INTERVAL_SIZE = 300; // 5 minutes
 
-const module: IndexingPlugin = {
+const module: BlockRollbackPlugin = {
     name: "icm_gas_usage",
-    version: 21,
+    version: 24,
     usesTraces: false,
     filterEvents: [SEND_CROSS_CHAIN_MESSAGE_TOPIC, RECEIVE_CROSS_CHAIN_MESSAGE_TOPIC],
 
@@ -30,14 +29,32 @@ const module: IndexingPlugin = {
             CREATE TABLE IF NOT EXISTS icm_chain_interval_stats (
                 other_chain_id TEXT,
                 interval_ts INTEGER,
+                messenger_version TEXT NOT NULL,
                 send_count INTEGER NOT NULL DEFAULT 0,
                 receive_count INTEGER NOT NULL DEFAULT 0,
                 send_gas_cost REAL NOT NULL DEFAULT 0,
                 receive_gas_cost REAL NOT NULL DEFAULT 0,
-                PRIMARY KEY (other_chain_id, interval_ts)
+                PRIMARY KEY (other_chain_id, interval_ts, messenger_version)
+            )
+        `);
+
+        // What each block added to icm_chain_interval_stats, kept for the rollback window
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS icm_gas_ledger (
+                block_number INTEGER NOT NULL,
+                other_chain_id TEXT NOT NULL,
+                interval_ts INTEGER NOT NULL,
+                messenger_version TEXT NOT NULL,
+                send_count INTEGER NOT NULL,
+                receive_count INTEGER NOT NULL,
+                send_gas_cost REAL NOT NULL,
+                receive_gas_cost REAL NOT NULL,
+                PRIMARY KEY (block_number, other_chain_id, messenger_version)
             )
         `);
 
+        initBlockRange(db);
+
         // Create index for queries
         try {
             db.exec(`
@@ -51,23 +68,60 @@ const module: IndexingPlugin = {
         }
     },
 
+    // Subtract the ledgered blocks >= fromBlock from the interval stats
+    rollbackBlocks: (db, fromBlock) => {
+        const reverted = db.prepare(`
+            SELECT other_chain_id, interval_ts, messenger_version,
+                SUM(send_count) as send_count, SUM(receive_count) as receive_count,
+                SUM(send_gas_cost) as send_gas_cost, SUM(receive_gas_cost) as receive_gas_cost
+            FROM icm_gas_ledger
+            WHERE block_number >= ?
+            GROUP BY other_chain_id, interval_ts, messenger_version
+        `).all(fromBlock) as Array<{ other_chain_id: string; interval_ts: number; messenger_version: string; send_count: number; receive_count: number; send_gas_cost: number; receive_gas_cost: number }>;
+
+        const subtractStmt = db.prepare(`
+            UPDATE icm_chain_interval_stats SET
+                send_count = send_count - ?,
+                receive_count = receive_count - ?,
+                send_gas_cost = send_gas_cost - ?,
+                receive_gas_cost = receive_gas_cost - ?
+            WHERE other_chain_id = ? AND interval_ts = ? AND messenger_version = ?
+        `);
+        const deleteStmt = db.prepare(`
+            DELETE FROM icm_chain_interval_stats
+            WHERE other_chain_id = ? AND interval_ts = ? AND messenger_version = ? AND send_count <= 0 AND receive_count <= 0
+        `);
+        for (const row of reverted) {
+            subtractStmt.run(row.send_count, row.receive_count, row.send_gas_cost, row.receive_gas_cost, row.other_chain_id, row.interval_ts, row.messenger_version);
+            deleteStmt.run(row.other_chain_id, row.interval_ts, row.messenger_version);
+        }
+
+        db.prepare('DELETE FROM icm_gas_ledger WHERE block_number >= ?').run(fromBlock);
+        rewindBlockRange(db, fromBlock);
+    },
+
     // Process transactions
     handleTxBatch: (db, blocksDb, batch) => {
-        // Accumulate updates per chain per interval
-        const updates = new Map<string, Map<number, ChainIntervalStats>>();
+        const { txs, rollbackFromBlock } = planBatch(db, batch.txs);
+
+        // Accumulate updates per chain and messenger version per interval, and per block for the ledger
+        const updates = new Map<string, { chainId: string; messengerVersion: string; intervals: Map<number, ChainIntervalStats> }>();
+        const blockUpdates = new Map<string, { blockNumber: number; chainId: string; messengerVersion: string; intervalTs: number; stats: ChainIntervalStats }>();
 
-        for (const tx of batch.txs) {
+        for (const tx of txs) {
             const gasUsed = BigInt(tx.receipt.gasUsed || '0');
             const gasPrice = BigInt(tx.receipt.effectiveGasPrice || '0');
             const gasCost = gasUsed * gasPrice; // Cost in wei
             const intervalTs = Math.floor(tx.blockTs / ICM_CHAIN_INTERVAL_SIZE) * ICM_CHAIN_INTERVAL_SIZE;
+            const evmChainId = txEvmChainId(tx.tx);
+            const blockNumber = txBlockNumber(tx);
 
             // First, count all ICM events in this transaction
             let sendEventCount = 0;
             let receiveEventCount = 0;
 
             for (const log of tx.receipt.logs) {
-                if (log.address !== TELEPORTER_ADDRESS) continue;
+                if (!findTeleporterMessenger(log.address, evmChainId)) continue;
                 const topic = log.topics[0];
                 if (topic === SEND_CROSS_CHAIN_MESSAGE_TOPIC) sendEventCount++;
                 if (topic === RECEIVE_CROSS_CHAIN_MESSAGE_TOPIC) receiveEventCount++;
@@ -81,7 +135,8 @@ const module: IndexingPlugin = {
 
             // Now process events and allocate costs
             for (const log of tx.receipt.logs) {
-                if (log.address !== TELEPORTER_ADDRESS) continue;
+                const messenger = findTeleporterMessenger(log.address, evmChainId);
+                if (!messenger) continue;
                 const topic = log.topics[0];
 
                 let chainId: string;
@@ -98,10 +153,11 @@ const module: IndexingPlugin = {
                 }
 
                 // Get or create chain map
-                if (!updates.has(chainId)) {
-                    updates.set(chainId, new Map());
+                const updateKey = `${chainId}|${messenger.version}`;
+                if (!updates.has(updateKey)) {
+                    updates.set(updateKey, { chainId, messengerVersion: messenger.version, intervals: new Map() });
                 }
-                const chainMap = updates.get(chainId)!;
+                const chainMap = updates.get(updateKey)!.intervals;
 
                 // Get or create interval stats
                 if (!chainMap.has(intervalTs)) {
@@ -114,22 +170,41 @@ const module: IndexingPlugin = {
                 }
                 const stats = chainMap.get(intervalTs)!;
 
-                if (isSend) {
-                    stats.send_count += 1;
-                    stats.send_gas_cost += gasCostPerEvent;
-                } else {
-                    stats.receive_count += 1;
-                    stats.receive_gas_cost += gasCostPerEvent;
+                const blockKey = `${blockNumber}|${updateKey}`;
+                if (!blockUpdates.has(blockKey)) {
+                    blockUpdates.set(blockKey, {
+                        blockNumber,
+                        chainId,
+                        messengerVersion: messenger.version,
+                        intervalTs,
+                        stats: { send_count: 0, receive_count: 0, send_gas_cost: 0n, receive_gas_cost: 0n }
+                    });
+                }
+                const blockStats = blockUpdates.get(blockKey)!.stats;
+
+                for (const target of [stats, blockStats]) {
+                    if (isSend) {
+                        target.send_count += 1;
+                        target.send_gas_cost += gasCostPerEvent;
+                    } else {
+                        target.receive_count += 1;
+                        target.receive_gas_cost += gasCostPerEvent;
+                    }
                 }
             }
         }
 
+        // A reorged range may no longer hold any ICM events, its old contributions still have to go
+        if (rollbackFromBlock !== null) module.rollbackBlocks(db, rollbackFromBlock);
+
+        if (updates.size === 0) return;
+
         // Prepare statements for batch insert/update
         const insertStmt = db.prepare(`
             INSERT INTO icm_chain_interval_stats 
-            (other_chain_id, interval_ts, send_count, receive_count, send_gas_cost, receive_gas_cost)
-            VALUES (?, ?, ?, ?, ?, ?)
-            ON CONFLICT(other_chain_id, interval_ts) DO UPDATE SET
+            (other_chain_id, interval_ts, messenger_version, send_count, receive_count, send_gas_cost, receive_gas_cost)
+            VALUES (?, ?, ?, ?, ?, ?, ?)
+            ON CONFLICT(other_chain_id, interval_ts, messenger_version) DO UPDATE SET
                 send_count = send_count + excluded.send_count,
                 receive_count = receive_count + excluded.receive_count,
                 send_gas_cost = send_gas_cost + excluded.send_gas_cost,
@@ -137,19 +212,30 @@ const module: IndexingPlugin = {
         `);
 
         // Update database
-        for (const [chainId, chainMap] of updates) {
-            for (const [intervalTs, stats] of chainMap) {
+        for (const { chainId, messengerVersion, intervals } of updates.values()) {
+            for (const [intervalTs, stats] of intervals) {
                 // Convert from wei to ETH/AVAX (divide by 10^18)
                 const sendGasCostInEth = Number(stats.send_gas_cost) / 1e18;
                 const receiveGasCostInEth = Number(stats.receive_gas_cost) / 1e18;
 
-                insertStmt.run(chainId, intervalTs, stats.send_count, stats.receive_count, sendGasCostInEth, receiveGasCostInEth);
+                insertStmt.run(chainId, intervalTs, messengerVersion, stats.send_count, stats.receive_count, sendGasCostInEth, receiveGasCostInEth);
             }
         }
 
+        const insertLedgerStmt = db.prepare(`
+            INSERT OR REPLACE INTO icm_gas_ledger
+            (block_number, other_chain_id, interval_ts, messenger_version, send_count, receive_count, send_gas_cost, receive_gas_cost)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        `);
+        for (const { blockNumber, chainId, messengerVersion, intervalTs, stats } of blockUpdates.values()) {
+            insertLedgerStmt.run(blockNumber, chainId, intervalTs, messengerVersion, stats.send_count, stats.receive_count, Number(stats.send_gas_cost) / 1e18, Number(stats.receive_gas_cost) / 1e18);
+        }
+
+        finishBatch(db, txs, ['icm_gas_ledger']);
+
         // Optional logging
         if (updates.size > 0) {
-            console.log(`ICM Burner: Updated stats for ${updates.size} chains across ${Array.from(updates.values()).reduce((sum, m) => sum + m.size, 0)} intervals`);
+            console.log(`ICM Burner: Updated stats for ${updates.size} chain/messenger pairs across ${Array.from(updates.values()).reduce((sum, m) => sum + m.intervals.size, 0)} intervals`);
         }
     }
 };
@@ -0,0 +1,147 @@
+import type { ApiPlugin } from "frostbyte-sdk";
+import { collectIcmLifecycles } from "./lib/icmLifecycle";
+import { type LatencyStats, computeStats, latencyStatsProperties } from "./lib/latencyStats";
+
+type LatencyBucket = LatencyStats & {
+    bucketTs: number;
+}
+
+type ChainPairLatency = LatencyStats & {
+    sourceBlockchainId: string;
+    sourceChainName: string;
+    destinationBlockchainId: string;
+    destinationChainName: string;
+    buckets: LatencyBucket[];
+}
+
+type ChainPairKey = `${string}->${string}`;
+
+const BUCKET_SECONDS = {
+    hour: 3600,
+    day: 86400
+} as const;
+
+const module: ApiPlugin = {
+    name: "icm_latency_api",
+    requiredIndexers: ['teleporter_messages'],
+
+    registerRoutes: (app, dbCtx) => {
+        app.get<{
+            Querystring: { days?: number; bucket?: 'hour' | 'day' }
+        }>('/api/global/icm/latency', {
+            schema: {
+                tags: ["Cross-Chain Messaging"],
+                description: 'ICM delivery latency percentiles per source/destination chain pair. Latency is ReceiveCrossChainMessage block timestamp on the destination minus SendCrossChainMessage block timestamp on the source, matched by Teleporter messageID. Only pairs where both chains are indexed have data. Buckets are keyed by send time.',
+                querystring: {
+                    type: 'object',
+                    properties: {
+                        days: {
+                            type: 'number',
+                            minimum: 1,
+                            maximum: 90,
+                            description: 'Number of days to analyze (default: 7)'
+                        },
+                        bucket: {
+                            type: 'string',
+                            enum: ['hour', 'day'],
+                            description: 'Bucket size for the time series (default: day)'
+                        }
+                    },
+                    additionalProperties: false
+                },
+                response: {
+                    200: {
+                        type: 'array',
+                        items: {
+                            type: 'object',
+                            properties: {
+                                sourceBlockchainId: { type: 'string' },
+                                sourceChainName: { type: 'string' },
+                                destinationBlockchainId: { type: 'string' },
+                                destinationChainName: { type: 'string' },
+                                ...latencyStatsProperties,
+                                buckets: {
+                                    type: 'array',
+                                    items: {
+                                        type: 'object',
+                                        properties: {
+                                            bucketTs: { type: 'number', description: 'Bucket start (Unix)' },
+                                            ...latencyStatsProperties
+                                        },
+                                        required: ['bucketTs', 'messageCount', 'p50', 'p90', 'p99']
+                                    }
+                                }
+                            },
+                            required: ['sourceBlockchainId', 'sourceChainName', 'destinationBlockchainId', 'destinationChainName',
+                                'messageCount', 'p50', 'p90', 'p99', 'buckets']
+                        }
+                    }
+                }
+            }
+        }, async (request, reply) => {
+            const days = request.query.days || 7;
+            const bucketSeconds = BUCKET_SECONDS[request.query.bucket || 'day'];
+
+            const now = Math.floor(Date.now() / 1000);
+            const fromTs = now - days * 86400;
+
+            const chainNameById = new Map<string, string>();
+            for (const config of dbCtx.getAllChainConfigs()) {
+                chainNameById.set(config.blockchainId, config.chainName);
+            }
+
+            // pair -> bucketTs -> latencies
+            const pairLatencies = new Map<ChainPairKey, Map<number, number[]>>();
+
+            for (const lifecycle of collectIcmLifecycles(dbCtx, fromTs).values()) {
+                if (lifecycle.deliveryLatency === null || lifecycle.sentAt === null) continue;
+
+                const key: ChainPairKey = `${lifecycle.sourceBlockchainId}->${lifecycle.destinationBlockchainId}`;
+                let buckets = pairLatencies.get(key);
+                if (!buckets) {
+                    buckets = new Map();
+                    pairLatencies.set(key, buckets);
+                }
+
+                const bucketTs = Math.floor(lifecycle.sentAt / bucketSeconds) * bucketSeconds;
+                const latencies = buckets.get(bucketTs) || [];
+                latencies.push(lifecycle.deliveryLatency);
+                buckets.set(bucketTs, latencies);
+            }
+
+            const results: ChainPairLatency[] = [];
+
+            for (const [key, buckets] of pairLatencies) {
+                const [sourceBlockchainId, destinationBlockchainId] = key.split('->') as [string, string];
+
+                const allLatencies: number[] = [];
+                const bucketStats: LatencyBucket[] = [];
+
+                for (const [bucketTs, latencies] of buckets) {
+                    for (const latency of latencies) {
+                        allLatencies.push(latency);
+                    }
+                    bucketStats.push({ bucketTs, ...computeStats(latencies) });
+                }
+
+                bucketStats.sort((a, b) => a.bucketTs - b.bucketTs);
+
+                results.push({
+                    sourceBlockchainId,
+                    sourceChainName: chainNameById.get(sourceBlockchainId) || sourceBlockchainId,
+                    destinationBlockchainId,
+                    destinationChainName: chainNameById.get(destinationBlockchainId) || destinationBlockchainId,
+                    ...computeStats(allLatencies),
+                    buckets: bucketStats
+                });
+            }
+
+            // Busiest pairs first
+            results.sort((a, b) => b.messageCount - a.messageCount);
+
+            return reply.send(results);
+        });
+    }
+};
+
+export default module;
@@ -0,0 +1,186 @@
+import type { ApiPlugin } from "frostbyte-sdk";
+import { collectIcmLifecycles, type IcmMessageLifecycle } from "./lib/icmLifecycle";
+
+type StuckMessage = {
+    messageId: string;
+    status: 'sent' | 'received' | 'failed';
+    sentAt: number;
+    sentTxHash: string | null;
+    receivedAt: number | null;
+    receivedTxHash: string | null;
+    failedAt: number | null;
+    ageSeconds: number;
+}
+
+type ChainPairDelivery = {
+    sourceBlockchainId: string;
+    sourceChainName: string;
+    destinationBlockchainId: string;
+    destinationChainName: string;
+    sentCount: number;
+    executedCount: number;
+    pendingCount: number;
+    failedCount: number;
+    oldestPendingSentAt: number | null;
+    messages: StuckMessage[];
+}
+
+type ChainPairKey = `${string}->${string}`;
+
+const MAX_MESSAGES_PER_PAIR = 100;
+
+const module: ApiPlugin = {
+    name: "icm_lifecycle_api",
+    requiredIndexers: ['teleporter_messages'],
+
+    registerRoutes: (app, dbCtx) => {
+        app.get<{
+            Querystring: { hours?: number; minAgeSeconds?: number }
+        }>('/api/global/icm/lifecycle/stuck', {
+            schema: {
+                tags: ["Cross-Chain Messaging"],
+                description: 'Stuck or undelivered ICM messages per chain pair. Correlates SendCrossChainMessage, ReceiveCrossChainMessage, MessageExecuted, MessageExecutionFailed and ReceiptReceived by Teleporter messageID across all indexed chains. Only pairs whose destination chain is indexed are reported, since delivery to other chains cannot be observed.',
+                querystring: {
+                    type: 'object',
+                    properties: {
+                        hours: {
+                            type: 'number',
+                            minimum: 1,
+                            maximum: 720,
+                            description: 'Look back this many hours for sent messages (default: 24)'
+                        },
+                        minAgeSeconds: {
+                            type: 'number',
+                            minimum: 0,
+                            description: 'Ignore messages sent less than this many seconds ago, so in-flight messages are not reported (default: 600)'
+                        }
+                    },
+                    additionalProperties: false
+                },
+                response: {
+                    200: {
+                        type: 'array',
+                        items: {
+                            type: 'object',
+                            properties: {
+                                sourceBlockchainId: { type: 'string' },
+                                sourceChainName: { type: 'string' },
+                                destinationBlockchainId: { type: 'string' },
+                                destinationChainName: { type: 'string' },
+                                sentCount: { type: 'number', description: 'Messages sent on this pair in the window' },
+                                executedCount: { type: 'number', description: 'Messages executed on the destination' },
+                                pendingCount: { type: 'number', description: 'Messages not executed yet (not received, or received without MessageExecuted)' },
+                                failedCount: { type: 'number', description: 'Messages with MessageExecutionFailed and no successful retry' },
+                                oldestPendingSentAt: { type: ['number', 'null'] },
+                                messages: {
+                                    type: 'array',
+                                    description: `Oldest stuck messages, up to ${MAX_MESSAGES_PER_PAIR} per pair`,
+                                    items: {
+                                        type: 'object',
+                                        properties: {
+                                            messageId: { type: 'string' },
+                                            status: { type: 'string', enum: ['sent', 'received', 'failed'] },
+                                            sentAt: { type: 'number' },
+                                            sentTxHash: { type: ['string', 'null'] },
+                                            receivedAt: { type: ['number', 'null'] },
+                                            receivedTxHash: { type: ['string', 'null'] },
+                                            failedAt: { type: ['number', 'null'] },
+                                            ageSeconds: { type: 'number' }
+                                        },
+                                        required: ['messageId', 'status', 'sentAt', 'sentTxHash', 'receivedAt', 'receivedTxHash', 'failedAt', 'ageSeconds']
+                                    }
+                                }
+                            },
+                            required: ['sourceBlockchainId', 'sourceChainName', 'destinationBlockchainId', 'destinationChainName',
+                                'sentCount', 'executedCount', 'pendingCount', 'failedCount', 'oldestPendingSentAt', 'messages']
+                        }
+                    }
+                }
+            }
+        }, async (request, reply) => {
+            const hours = request.query.hours || 24;
+            const minAgeSeconds = request.query.minAgeSeconds ?? 600;
+
+            const now = Math.floor(Date.now() / 1000);
+            const fromTs = now - hours * 3600;
+            const cutoffTs = now - minAgeSeconds;
+
+            const configs = dbCtx.getAllChainConfigs();
+            const chainNameById = new Map<string, string>();
+            for (const config of configs) {
+                chainNameById.set(config.blockchainId, config.chainName);
+            }
+
+            const lifecycles = collectIcmLifecycles(dbCtx, fromTs);
+            const pairs = new Map<ChainPairKey, ChainPairDelivery>();
+
+            for (const lifecycle of lifecycles.values()) {
+                // Only messages whose send we saw and whose destination we index
+                if (lifecycle.sentAt === null || lifecycle.sentAt > cutoffTs) continue;
+                if (!chainNameById.has(lifecycle.destinationBlockchainId)) continue;
+
+                const key: ChainPairKey = `${lifecycle.sourceBlockchainId}->${lifecycle.destinationBlockchainId}`;
+                let pair = pairs.get(key);
+                if (!pair) {
+                    pair = {
+                        sourceBlockchainId: lifecycle.sourceBlockchainId,
+                        sourceChainName: chainNameById.get(lifecycle.sourceBlockchainId) || lifecycle.sourceBlockchainId,
+                        destinationBlockchainId: lifecycle.destinationBlockchainId,
+                        destinationChainName: chainNameById.get(lifecycle.destinationBlockchainId) || lifecycle.destinationBlockchainId,
+                        sentCount: 0,
+                        executedCount: 0,
+                        pendingCount: 0,
+                        failedCount: 0,
+                        oldestPendingSentAt: null,
+                        messages: []
+                    };
+                    pairs.set(key, pair);
+                }
+
+                pair.sentCount++;
+
+                if (lifecycle.status === 'executed') {
+                    pair.executedCount++;
+                    continue;
+                }
+
+                if (lifecycle.status === 'failed') {
+                    pair.failedCount++;
+                } else {
+                    pair.pendingCount++;
+                    if (pair.oldestPendingSentAt === null || lifecycle.sentAt < pair.oldestPendingSentAt) {
+                        pair.oldestPendingSentAt = lifecycle.sentAt;
+                    }
+                }
+
+                pair.messages.push(toStuckMessage(lifecycle, now));
+            }
+
+            const results = Array.from(pairs.values()).filter(pair => pair.pendingCount > 0 || pair.failedCount > 0);
+
+            for (const pair of results) {
+                pair.messages.sort((a, b) => a.sentAt - b.sentAt);
+                pair.messages = pair.messages.slice(0, MAX_MESSAGES_PER_PAIR);
+            }
+
+            results.sort((a, b) => (b.pendingCount + b.failedCount) - (a.pendingCount + a.failedCount));
+
+            return reply.send(results);
+        });
+    }
+};
+
+function toStuckMessage(lifecycle: IcmMessageLifecycle, now: number): StuckMessage {
+    return {
+        messageId: lifecycle.messageId,
+        status: lifecycle.status as StuckMessage['status'],
+        sentAt: lifecycle.sentAt!,
+        sentTxHash: lifecycle.sentTxHash,
+        receivedAt: lifecycle.receivedAt,
+        receivedTxHash: lifecycle.receivedTxHash,
+        failedAt: lifecycle.failedAt,
+        ageSeconds: now - lifecycle.sentAt!
+    };
+}
+
+export default module;
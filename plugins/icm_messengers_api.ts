@@ -0,0 +1,149 @@
+import type { ApiPlugin } from "frostbyte-sdk";
+import { DEFAULT_TELEPORTER_MESSENGERS, getChainMessengerOverrides, getTeleporterMessengers } from "./lib/teleporterRegistry";
+
+type MessengerCoverage = {
+    address: string;
+    version: string;
+    sentCount: number;
+    receivedCount: number;
+    lastSeenAt: number | null;
+}
+
+type ChainMessengers = {
+    evmChainId: number;
+    chainName: string;
+    blockchainId: string;
+    source: 'default' | 'override';
+    messengers: MessengerCoverage[];
+}
+
+interface MessengerCountRow {
+    messenger_address: string;
+    sent_count: number;
+    received_count: number;
+    last_seen_at: number;
+}
+
+const messengerSchema = {
+    type: 'object',
+    properties: {
+        address: { type: 'string' },
+        version: { type: 'string' }
+    },
+    required: ['address', 'version']
+};
+
+const module: ApiPlugin = {
+    name: "icm_messengers_api",
+    requiredIndexers: ['teleporter_messages'],
+
+    registerRoutes: (app, dbCtx) => {
+        app.get('/api/global/icm/messengers', {
+            schema: {
+                tags: ["Cross-Chain Messaging"],
+                description: 'TeleporterMessenger address registry used by the teleporter_messages and icm_gas_usage indexers. Lists the default deployments, the per-chain overrides from the "teleporterMessengers" field in chains.json, and for every indexed chain the messengers in effect with SendCrossChainMessage/ReceiveCrossChainMessage counts, so chains with no indexed traffic can be spotted.',
+                response: {
+                    200: {
+                        type: 'object',
+                        properties: {
+                            defaults: { type: 'array', items: messengerSchema },
+                            overrides: {
+                                type: 'array',
+                                items: {
+                                    type: 'object',
+                                    properties: {
+                                        evmChainId: { type: 'number' },
+                                        chainName: { type: 'string' },
+                                        messengers: { type: 'array', items: messengerSchema }
+                                    },
+                                    required: ['evmChainId', 'chainName', 'messengers']
+                                }
+                            },
+                            chains: {
+                                type: 'array',
+                                items: {
+                                    type: 'object',
+                                    properties: {
+                                        evmChainId: { type: 'number' },
+                                        chainName: { type: 'string' },
+                                        blockchainId: { type: 'string' },
+                                        source: { type: 'string', enum: ['default', 'override'] },
+                                        messengers: {
+                                            type: 'array',
+                                            items: {
+                                                type: 'object',
+                                                properties: {
+                                                    address: { type: 'string' },
+                                                    version: { type: 'string' },
+                                                    sentCount: { type: 'number' },
+                                                    receivedCount: { type: 'number' },
+                                                    lastSeenAt: { type: ['number', 'null'] }
+                                                },
+                                                required: ['address', 'version', 'sentCount', 'receivedCount', 'lastSeenAt']
+                                            }
+                                        }
+                                    },
+                                    required: ['evmChainId', 'chainName', 'blockchainId', 'source', 'messengers']
+                                }
+                            }
+                        },
+                        required: ['defaults', 'overrides', 'chains']
+                    }
+                }
+            }
+        }, async (request, reply) => {
+            const overrides = getChainMessengerOverrides();
+            const overriddenChainIds = new Set(overrides.map(override => override.evmChainId));
+
+            const chains: ChainMessengers[] = [];
+
+            for (const config of dbCtx.getAllChainConfigs()) {
+                const counts = new Map<string, MessengerCountRow>();
+
+                try {
+                    const conn = dbCtx.getIndexerDbConnection(config.evmChainId, 'teleporter_messages');
+                    const rows = conn.prepare(`
+                        SELECT
+                            messenger_address,
+                            SUM(CASE WHEN is_outgoing = 1 THEN 1 ELSE 0 END) as sent_count,
+                            SUM(CASE WHEN is_outgoing = 0 THEN 1 ELSE 0 END) as received_count,
+                            MAX(block_timestamp) as last_seen_at
+                        FROM teleporter_messages
+                        GROUP BY messenger_address
+                    `).all() as MessengerCountRow[];
+
+                    for (const row of rows) {
+                        counts.set(row.messenger_address, row);
+                    }
+                } catch (error) {
+                    // Chain might not have the teleporter_messages indexer
+                }
+
+                chains.push({
+                    evmChainId: config.evmChainId,
+                    chainName: config.chainName,
+                    blockchainId: config.blockchainId,
+                    source: overriddenChainIds.has(config.evmChainId) ? 'override' : 'default',
+                    messengers: getTeleporterMessengers(config.evmChainId).map(messenger => {
+                        const row = counts.get(messenger.address);
+                        return {
+                            address: messenger.address,
+                            version: messenger.version,
+                            sentCount: row?.sent_count ?? 0,
+                            receivedCount: row?.received_count ?? 0,
+                            lastSeenAt: row?.last_seen_at ?? null
+                        };
+                    })
+                });
+            }
+
+            return reply.send({
+                defaults: DEFAULT_TELEPORTER_MESSENGERS,
+                overrides,
+                chains
+            });
+        });
+    }
+};
+
+export default module;
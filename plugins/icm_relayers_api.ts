@@ -0,0 +1,294 @@
+import type { ApiPlugin } from "frostbyte-sdk";
+import { viem } from "frostbyte-sdk";
+
+type TokenAmount = {
+    tokenAddress: string;
+    amount: string;
+}
+
+type RelayerStats = {
+    relayerAddress: string;
+    messagesDelivered: number;
+    chainsServed: number;
+    sourceChains: string[];
+    destinationChains: string[];
+    rewardAddresses: string[];
+    sharedRewardAddresses: string[];
+    rewardedMessages: number;
+    rewardsEarned: TokenAmount[];
+    rewardsRedeemed: TokenAmount[];
+    lastDeliveryAt: number;
+}
+
+type SortBy = 'messagesDelivered' | 'chainsServed' | 'rewardedMessages' | 'rewardsEarned' | 'rewardsRedeemed';
+
+interface DeliveryRow {
+    message_id: string;
+    other_chain_id: string;
+    relayer_address: string;
+    relayer_reward_address: string | null;
+    block_timestamp: number;
+}
+
+interface ReceiptRow {
+    message_id: string;
+    fee_token_address: string | null;
+    fee_amount: string | null;
+}
+
+interface RedemptionRow {
+    redeemer: string;
+    asset: string;
+    amount: string;
+}
+
+type RelayerAccumulator = {
+    messagesDelivered: number;
+    sourceChains: Set<string>;
+    destinationChains: Set<string>;
+    rewardAddresses: Set<string>;
+    rewardedMessages: number;
+    rewardsEarned: Map<string, bigint>;
+    rewardsRedeemed: Map<string, bigint>;
+    lastDeliveryAt: number;
+}
+
+function addAmount(totals: Map<string, bigint>, tokenAddress: string, amount: string) {
+    totals.set(tokenAddress, (totals.get(tokenAddress) || 0n) + BigInt(amount));
+}
+
+function toTokenAmounts(totals: Map<string, bigint>): TokenAmount[] {
+    return Array.from(totals.entries())
+        .filter(([, amount]) => amount > 0n)
+        .map(([tokenAddress, amount]) => ({ tokenAddress, amount: amount.toString() }));
+}
+
+const tokenAmountSchema = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            tokenAddress: { type: 'string' },
+            amount: { type: 'string', description: 'Sum in token base units' }
+        },
+        required: ['tokenAddress', 'amount']
+    }
+};
+
+const module: ApiPlugin = {
+    name: "icm_relayers_api",
+    requiredIndexers: ['teleporter_messages'],
+
+    registerRoutes: (app, dbCtx) => {
+        app.get<{
+            Querystring: { days?: number; sortBy?: SortBy; rewardToken?: string; limit?: number }
+        }>('/api/global/icm/relayers', {
+            schema: {
+                tags: ["Cross-Chain Messaging"],
+                description: 'ICM relayer ranking across all indexed chains. A relayer is the sender (tx.from) of the transaction emitting ReceiveCrossChainMessage on the destination chain. Rewards earned are ReceiptReceived fee amounts on the source chain, attributed to the relayer through the Teleporter messageID. Rewards redeemed are RelayerRewardsRedeemed events whose redeemer is one of the relayer\'s reward addresses (ReceiveCrossChainMessage.rewardRedeemer). A reward address used by several relayers can\'t be attributed: its redemptions are credited to none of them and it is listed in their sharedRewardAddresses. Rewards are per fee token, so rewardsEarned/rewardsRedeemed sorting compares the amounts of rewardToken, by default the fee token with the most receipts in the period.',
+                querystring: {
+                    type: 'object',
+                    properties: {
+                        days: {
+                            type: 'number',
+                            minimum: 1,
+                            maximum: 365,
+                            description: 'Number of days to analyze (default: 30)'
+                        },
+                        sortBy: {
+                            type: 'string',
+                            enum: ['messagesDelivered', 'chainsServed', 'rewardedMessages', 'rewardsEarned', 'rewardsRedeemed'],
+                            description: 'Ranking criteria (default: messagesDelivered)'
+                        },
+                        rewardToken: {
+                            type: 'string',
+                            pattern: '^0x[0-9a-fA-F]{40}$',
+                            description: 'Fee token whose amounts rank rewardsEarned/rewardsRedeemed, any case (default: the fee token with the most receipts)'
+                        },
+                        limit: {
+                            type: 'number',
+                            minimum: 1,
+                            maximum: 1000,
+                            description: 'Maximum number of relayers to return (default: 100)'
+                        }
+                    },
+                    additionalProperties: false
+                },
+                response: {
+                    200: {
+                        type: 'array',
+                        items: {
+                            type: 'object',
+                            properties: {
+                                relayerAddress: { type: 'string' },
+                                messagesDelivered: { type: 'number' },
+                                chainsServed: { type: 'number', description: 'Distinct source and destination chains' },
+                                sourceChains: { type: 'array', items: { type: 'string' } },
+                                destinationChains: { type: 'array', items: { type: 'string' } },
+                                rewardAddresses: { type: 'array', items: { type: 'string' } },
+                                sharedRewardAddresses: { type: 'array', items: { type: 'string' }, description: 'Reward addresses also used by other relayers, their redemptions are not in rewardsRedeemed' },
+                                rewardedMessages: { type: 'number', description: 'Delivered messages with a non-zero fee receipt' },
+                                rewardsEarned: tokenAmountSchema,
+                                rewardsRedeemed: tokenAmountSchema,
+                                lastDeliveryAt: { type: 'number' }
+                            },
+                            required: ['relayerAddress', 'messagesDelivered', 'chainsServed', 'sourceChains', 'destinationChains',
+                                'rewardAddresses', 'sharedRewardAddresses', 'rewardedMessages', 'rewardsEarned', 'rewardsRedeemed', 'lastDeliveryAt']
+                        }
+                    }
+                }
+            }
+        }, async (request, reply) => {
+            const days = request.query.days || 30;
+            const sortBy = request.query.sortBy || 'messagesDelivered';
+            const limit = request.query.limit || 100;
+
+            const now = Math.floor(Date.now() / 1000);
+            const fromTs = now - days * 86400;
+
+            const chainNameById = new Map<string, string>();
+            for (const config of dbCtx.getAllChainConfigs()) {
+                chainNameById.set(config.blockchainId, config.chainName);
+            }
+            const chainName = (blockchainId: string) => chainNameById.get(blockchainId) || blockchainId;
+
+            const relayers = new Map<string, RelayerAccumulator>();
+            const relayerByMessageId = new Map<string, string>();
+            const relayersByRewardAddress = new Map<string, Set<string>>();
+            const receipts: ReceiptRow[] = [];
+            const redemptions: RedemptionRow[] = [];
+
+            for (const config of dbCtx.getAllChainConfigs()) {
+                try {
+                    const conn = dbCtx.getIndexerDbConnection(config.evmChainId, 'teleporter_messages');
+
+                    const deliveries = conn.prepare(`
+                        SELECT message_id, other_chain_id, relayer_address, relayer_reward_address, block_timestamp
+                        FROM teleporter_messages
+                        WHERE is_outgoing = 0 AND relayer_address IS NOT NULL AND block_timestamp >= ?
+                    `).all(fromTs) as DeliveryRow[];
+
+                    for (const row of deliveries) {
+                        let relayer = relayers.get(row.relayer_address);
+                        if (!relayer) {
+                            relayer = {
+                                messagesDelivered: 0,
+                                sourceChains: new Set(),
+                                destinationChains: new Set(),
+                                rewardAddresses: new Set(),
+                                rewardedMessages: 0,
+                                rewardsEarned: new Map(),
+                                rewardsRedeemed: new Map(),
+                                lastDeliveryAt: 0
+                            };
+                            relayers.set(row.relayer_address, relayer);
+                        }
+
+                        relayer.messagesDelivered++;
+                        relayer.sourceChains.add(row.other_chain_id);
+                        relayer.destinationChains.add(config.blockchainId);
+                        relayer.lastDeliveryAt = Math.max(relayer.lastDeliveryAt, row.block_timestamp);
+                        if (row.relayer_reward_address) {
+                            relayer.rewardAddresses.add(row.relayer_reward_address);
+                            if (!relayersByRewardAddress.has(row.relayer_reward_address)) {
+                                relayersByRewardAddress.set(row.relayer_reward_address, new Set());
+                            }
+                            relayersByRewardAddress.get(row.relayer_reward_address)!.add(row.relayer_address);
+                        }
+                        relayerByMessageId.set(row.message_id, row.relayer_address);
+                    }
+
+                    const receiptRows = conn.prepare(`
+                        SELECT message_id, fee_token_address, fee_amount
+                        FROM teleporter_message_outcomes
+                        WHERE event_type = 'receipt_received' AND block_timestamp >= ?
+                    `).all(fromTs) as ReceiptRow[];
+
+                    for (const row of receiptRows) {
+                        receipts.push(row);
+                    }
+
+                    const redemptionRows = conn.prepare(`
+                        SELECT redeemer, asset, amount
+                        FROM teleporter_reward_redemptions
+                        WHERE block_timestamp >= ?
+                    `).all(fromTs) as RedemptionRow[];
+
+                    for (const row of redemptionRows) {
+                        redemptions.push(row);
+                    }
+                } catch (error) {
+                    // Chain might not have the teleporter_messages indexer
+                    continue;
+                }
+            }
+
+            // Receipts come back on the source chain, so they can only be attributed
+            // once every chain's deliveries are loaded
+            for (const receipt of receipts) {
+                const relayerAddress = relayerByMessageId.get(receipt.message_id);
+                if (!relayerAddress || !receipt.fee_token_address || !receipt.fee_amount) continue;
+                if (BigInt(receipt.fee_amount) === 0n) continue;
+
+                const relayer = relayers.get(relayerAddress)!;
+                relayer.rewardedMessages++;
+                addAmount(relayer.rewardsEarned, receipt.fee_token_address, receipt.fee_amount);
+            }
+
+            // Redemptions can only be credited when the reward address belongs to a single relayer
+            for (const redemption of redemptions) {
+                const relayerAddresses = relayersByRewardAddress.get(redemption.redeemer);
+                if (!relayerAddresses || relayerAddresses.size !== 1) continue;
+
+                const [relayerAddress] = relayerAddresses;
+                addAmount(relayers.get(relayerAddress!)!.rewardsRedeemed, redemption.asset, redemption.amount);
+            }
+
+            // Reward amounts of different tokens don't compare, rank by a single one
+            // Fee token addresses are stored checksummed as decoded from the events
+            let rewardToken: string | undefined = request.query.rewardToken ? viem.getAddress(request.query.rewardToken) : undefined;
+            if (!rewardToken) {
+                const receiptsByToken = new Map<string, number>();
+                for (const receipt of receipts) {
+                    if (!receipt.fee_token_address) continue;
+                    receiptsByToken.set(receipt.fee_token_address, (receiptsByToken.get(receipt.fee_token_address) || 0) + 1);
+                }
+                rewardToken = Array.from(receiptsByToken.entries()).sort((a, b) => b[1] - a[1])[0]?.[0];
+            }
+
+            const results: RelayerStats[] = Array.from(relayers.entries()).map(([relayerAddress, relayer]) => {
+                const chainsServed = new Set([...relayer.sourceChains, ...relayer.destinationChains]);
+                return {
+                    relayerAddress,
+                    messagesDelivered: relayer.messagesDelivered,
+                    chainsServed: chainsServed.size,
+                    sourceChains: Array.from(relayer.sourceChains).map(chainName),
+                    destinationChains: Array.from(relayer.destinationChains).map(chainName),
+                    rewardAddresses: Array.from(relayer.rewardAddresses),
+                    sharedRewardAddresses: Array.from(relayer.rewardAddresses).filter(address => relayersByRewardAddress.get(address)!.size > 1),
+                    rewardedMessages: relayer.rewardedMessages,
+                    rewardsEarned: toTokenAmounts(relayer.rewardsEarned),
+                    rewardsRedeemed: toTokenAmounts(relayer.rewardsRedeemed),
+                    lastDeliveryAt: relayer.lastDeliveryAt
+                };
+            });
+
+            const sortValue = (result: RelayerStats): bigint => {
+                if (sortBy === 'rewardsEarned' || sortBy === 'rewardsRedeemed') {
+                    return BigInt(result[sortBy].find(reward => reward.tokenAddress === rewardToken)?.amount ?? '0');
+                }
+                return BigInt(result[sortBy]);
+            };
+
+            results.sort((a, b) => {
+                const diff = sortValue(b) - sortValue(a);
+                if (diff !== 0n) return diff > 0n ? 1 : -1;
+                return b.messagesDelivered - a.messagesDelivered;
+            });
+
+            return reply.send(results.slice(0, limit));
+        });
+    }
+};
+
+export default module;
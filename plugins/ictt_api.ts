@@ -1,4 +1,5 @@
 import type { ApiPlugin } from "frostbyte-sdk";
+import { viem } from "frostbyte-sdk";
 
 const WELL_KNOWN_CHAINS: Record<string, string> = {
     '2LFmzhHDKxkreihEtPanVmofuFn63bsh8twnRXEbDhBtCJxURB': 'Henesys (not indexed)',
@@ -19,21 +20,280 @@ type TransferStats = {
     direction: 'in' | 'out';
     contractAddress: string;
     coinAddress: string;
+    coinName: string | null;
+    coinSymbol: string | null;
+    tokenDecimals: number;
     transferCount: number;
-    transferCoinsTotal: number;
+    transferCoinsTotal: string;
+    transferCoinsTotalRaw: string;
+    usdValue: number | null;
 }
 
+// Totals are summed as bigint from amount_raw and formatted once at the end
+type TransferAggregate = Omit<TransferStats, 'transferCoinsTotal' | 'transferCoinsTotalRaw'> & { totalRaw: bigint };
+
 // Key for aggregating transfers: homeChain:remoteChain:direction:contractAddress:coinAddress
 type TransferKey = `${string}:${string}:${string}:${string}:${string}`;
 
 interface TokenMovementRow {
     block_timestamp: number;
     is_inbound: number;
-    amount: number;
+    amount_raw: string;
     pair_chain: string;
     contract_address: string;
     coin_address: string;
+    coin_name: string | null;
+    coin_symbol: string | null;
+    token_decimals: number;
     tx_hash: string;
+    price_usd: number | null;
+}
+
+interface TransferMovementRow extends TokenMovementRow {
+    role: 'home' | 'remote';
+    home_blockchain_id: string | null;
+}
+
+type HomeRemote = {
+    remoteChainBlockchainId: string;
+    remoteChainName: string;
+    remoteAddress: string;
+    contractType: string | null;
+    coinName: string | null;
+    coinSymbol: string | null;
+    tokenDecimals: number | null;
+    registered: boolean;
+    indexed: boolean;
+    sentCount: number;
+    sentTotal: string;
+    sentTotalRaw: string;
+    receivedCount: number;
+    receivedTotal: string;
+    receivedTotalRaw: string;
+}
+
+type HomeWithRemotes = {
+    homeChainBlockchainId: string;
+    homeChainName: string;
+    contractAddress: string;
+    contractType: string | null;
+    coinAddress: string | null;
+    coinName: string | null;
+    coinSymbol: string | null;
+    tokenDecimals: number | null;
+    indexed: boolean;
+    remotes: HomeRemote[];
+}
+
+interface RecognizedContractRow {
+    contract_address: string;
+    coin_address: string;
+    coin_name: string | null;
+    coin_symbol: string | null;
+    token_decimals: number;
+    contract_type: string;
+    role: 'home' | 'remote';
+    home_blockchain_id: string | null;
+    home_address: string | null;
+}
+
+interface RegisteredRemoteRow {
+    home_address: string;
+    remote_blockchain_id: string;
+    remote_address: string;
+    token_decimals: number;
+}
+
+interface RemoteMovementRow {
+    contract_address: string;
+    is_inbound: number;
+    amount_raw: string;
+}
+
+interface RemoteMovementTotals {
+    sentCount: number;
+    sentRaw: bigint;
+    receivedCount: number;
+    receivedRaw: bigint;
+}
+
+interface TvlContractRow {
+    pair_chain: string;
+    contract_address: string;
+    coin_address: string;
+    coin_name: string | null;
+    coin_symbol: string | null;
+    token_decimals: number;
+}
+
+interface TvlDailyRow extends TvlContractRow {
+    day_ts: number;
+    tvl_raw: string;
+}
+
+type TvlHistoryPoint = {
+    dayTs: number;
+    tvl: string;
+    tvlRaw: string;
+    usdValue: number | null;
+}
+
+type TvlHistorySeries = {
+    homeChainBlockchainId: string;
+    homeChainName: string;
+    remoteChainBlockchainId: string;
+    remoteChainName: string;
+    contractAddress: string;
+    coinAddress: string;
+    coinName: string | null;
+    coinSymbol: string | null;
+    tokenDecimals: number;
+    points: TvlHistoryPoint[];
+}
+
+const DAY_SECONDS = 86400;
+
+// token_metadata is filled by the ictt indexer from name()/symbol(), null until fetched or if the call reverts
+const coinNameSchema = { type: ['string', 'null'], description: 'ERC20 name() of the coin' };
+const coinSymbolSchema = { type: ['string', 'null'], description: 'ERC20 symbol() of the coin' };
+
+// token_prices is filled by the ictt indexer from the sources in lib/tokenPrices, one row per coin and UTC day.
+// Days no source had a price for are kept with price_usd NULL, lookups fall back to the closest earlier price
+const PRICE_LOOKUP_SQL = `
+    SELECT price_usd FROM token_prices
+    WHERE coin_address = ? AND day_ts <= ? AND price_usd IS NOT NULL
+    ORDER BY day_ts DESC LIMIT 1
+`;
+
+// USD values are floats: prices are approximate anyway, amounts stay exact in the string fields
+const toUsd = (raw: bigint, decimals: number, priceUsd: number | null): number | null =>
+    priceUsd === null ? null : Number(viem.formatUnits(raw, decimals)) * priceUsd;
+
+type ContractReliability = {
+    chainBlockchainId: string;
+    chainName: string;
+    contractAddress: string;
+    role: 'home' | 'remote';
+    contractType: string;
+    coinAddress: string;
+    coinName: string | null;
+    coinSymbol: string | null;
+    tokenDecimals: number;
+    callsSucceeded: number;
+    callsFailed: number;
+    failureRate: number | null;
+    failedCallAmount: string;
+    failedCallAmountRaw: string;
+    withdrawnCount: number;
+    withdrawnAmount: string;
+    withdrawnAmountRaw: string;
+    collateralAddedCount: number;
+    collateralAdded: string;
+    collateralAddedRaw: string;
+}
+
+interface ReliabilityEventRow {
+    contract_address: string;
+    event_name: string;
+    amount_raw: string;
+}
+
+interface CollateralRow {
+    home_address: string;
+    amount_raw: string;
+}
+
+type AddressTransfer = {
+    chainBlockchainId: string;
+    chainName: string;
+    otherChainBlockchainId: string;
+    otherChainName: string;
+    direction: 'sent' | 'received';
+    contractAddress: string;
+    role: string;
+    coinAddress: string;
+    coinName: string | null;
+    coinSymbol: string | null;
+    tokenDecimals: number;
+    amount: string;
+    amountRaw: string;
+    usdValue: number | null;
+    eventName: string;
+    sender: string | null;
+    recipient: string | null;
+    txFrom: string;
+    blockTimestamp: number;
+    txIndex: number;
+    txHash: string;
+}
+
+interface AddressMovementRow extends TokenMovementRow {
+    role: string;
+    event_name: string;
+    tx_index: number;
+    tx_from: string;
+    sender: string | null;
+    recipient: string | null;
+}
+
+const rawAmountSchema = { type: 'string', description: 'Base units, exact' };
+const amountSchema = { type: 'string', description: 'Base units divided by 10^tokenDecimals, exact' };
+
+type DbCtx = Parameters<ApiPlugin['registerRoutes']>[1];
+type ChainConfig = ReturnType<DbCtx['getAllChainConfigs']>[number];
+
+/**
+ * Remote contracts per chain whose home is recognized, with a remote registered, on an indexed chain.
+ * Every ICTT transfer passes through its home, so the home's movements already cover theirs
+ */
+function remotesCoveredByHomes(dbCtx: DbCtx, configs: ChainConfig[]): Map<string, string[]> {
+    const indexedHomes = new Set<string>();
+    const remotes: Array<{ blockchainId: string; contractAddress: string; homeKey: string }> = [];
+
+    for (const config of configs) {
+        const rows = dbCtx.getIndexerDbConnection(config.evmChainId, "ictt").prepare(`
+            SELECT contract_address, role, home_blockchain_id, home_address
+            FROM recognized_token_homes
+            WHERE role = 'remote' OR at_least_one_remote_registered = 1
+        `).all() as Array<{ contract_address: string; role: string; home_blockchain_id: string | null; home_address: string | null }>;
+
+        for (const row of rows) {
+            if (row.role === 'home') {
+                indexedHomes.add(`${config.blockchainId}:${viem.getAddress(row.contract_address)}`);
+            } else if (row.home_blockchain_id && row.home_address) {
+                remotes.push({ blockchainId: config.blockchainId, contractAddress: row.contract_address, homeKey: `${row.home_blockchain_id}:${viem.getAddress(row.home_address)}` });
+            }
+        }
+    }
+
+    const covered = new Map<string, string[]>();
+    for (const remote of remotes) {
+        if (!indexedHomes.has(remote.homeKey)) continue;
+        const addresses = covered.get(remote.blockchainId) ?? [];
+        addresses.push(remote.contractAddress);
+        covered.set(remote.blockchainId, addresses);
+    }
+    return covered;
+}
+
+// Homes once they registered a remote, remotes unless their home's movements cover them
+function visibleMovementsSql(coveredRemotes: string[]): { sql: string; params: string[] } {
+    return {
+        sql: `((rth.role = 'home' AND rth.at_least_one_remote_registered = 1)
+            OR (rth.role = 'remote' AND rth.contract_address NOT IN (${coveredRemotes.map(() => '?').join(', ')})))`,
+        params: coveredRemotes
+    };
+}
+
+/**
+ * Transfers are reported from the home's side. A remote's movement has the remote's chain as remote chain,
+ * and a remote sending is the home receiving. Without a known home chain, the remote's counterparty is used
+ */
+function homePerspective(row: TransferMovementRow, chainBlockchainId: string): { homeChainId: string; remoteChainId: string; direction: 'in' | 'out' } {
+    if (row.role === 'remote') {
+        return { homeChainId: row.home_blockchain_id ?? row.pair_chain, remoteChainId: chainBlockchainId, direction: row.is_inbound === 1 ? 'out' : 'in' };
+    }
+    return { homeChainId: chainBlockchainId, remoteChainId: row.pair_chain, direction: row.is_inbound === 1 ? 'in' : 'out' };
 }
 
 const module: ApiPlugin = {
@@ -44,6 +304,7 @@ const module: ApiPlugin = {
         app.get('/api/global/ictt/transfers', {
             schema: {
                 tags: ["Token Transfers"],
+                description: 'ICTT movements aggregated per home chain, remote chain, direction and contract. Direction is seen from the home. Movements of remote contracts count only when their home is not recognized on an indexed chain, since the home records every transfer too.',
                 querystring: {
                     type: 'object',
                     properties: {
@@ -64,10 +325,15 @@ const module: ApiPlugin = {
                                 direction: { type: 'string', enum: ['in', 'out'] },
                                 contractAddress: { type: 'string' },
                                 coinAddress: { type: 'string' },
+                                coinName: coinNameSchema,
+                                coinSymbol: coinSymbolSchema,
+                                tokenDecimals: { type: 'number' },
                                 transferCount: { type: 'number' },
-                                transferCoinsTotal: { type: 'number' }
+                                transferCoinsTotal: amountSchema,
+                                transferCoinsTotalRaw: rawAmountSchema,
+                                usdValue: { type: ['number', 'null'], description: 'Sum of each transfer valued at its day\'s price. Transfers without a price are left out, null if none had one' }
                             },
-                            required: ['homeChainBlockchainId', 'homeChainName', 'remoteChainBlockchainId', 'remoteChainName', 'direction', 'contractAddress', 'coinAddress', 'transferCount', 'transferCoinsTotal']
+                            required: ['homeChainBlockchainId', 'homeChainName', 'remoteChainBlockchainId', 'remoteChainName', 'direction', 'contractAddress', 'coinAddress', 'coinName', 'coinSymbol', 'tokenDecimals', 'transferCount', 'transferCoinsTotal', 'transferCoinsTotalRaw', 'usdValue']
                         }
                     }
                 }
@@ -88,42 +354,50 @@ const module: ApiPlugin = {
             }
 
             // Map to store aggregated transfer stats
-            const transferStats = new Map<TransferKey, TransferStats>();
+            const transferStats = new Map<TransferKey, TransferAggregate>();
+            const coveredRemotes = remotesCoveredByHomes(dbCtx, configs);
 
             // Query each chain's database
             for (const config of configs) {
                 const indexerConn = dbCtx.getIndexerDbConnection(config.evmChainId, "ictt");
 
                 // Query token movements joined with recognized homes to get coin address
-                // Only include contracts that have at least one remote registered
+                const visible = visibleMovementsSql(coveredRemotes.get(config.blockchainId) ?? []);
                 const stmt = indexerConn.prepare(`
                         SELECT 
                             tm.block_timestamp,
                             tm.is_inbound,
-                            tm.amount,
+                            tm.amount_raw,
                             tm.pair_chain,
                             tm.contract_address,
-                            rth.coin_address
+                            rth.coin_address,
+                            tmd.name as coin_name,
+                            tmd.symbol as coin_symbol,
+                            rth.token_decimals,
+                            rth.role,
+                            rth.home_blockchain_id,
+                            (SELECT tp.price_usd FROM token_prices tp WHERE tp.coin_address = rth.coin_address AND tp.day_ts <= tm.block_timestamp AND tp.price_usd IS NOT NULL ORDER BY tp.day_ts DESC LIMIT 1) as price_usd
                         FROM token_movements tm
                         JOIN recognized_token_homes rth ON tm.contract_address = rth.contract_address
+                        LEFT JOIN token_metadata tmd ON tmd.coin_address = rth.coin_address
                         WHERE tm.block_timestamp >= ? AND tm.block_timestamp <= ?
-                          AND rth.at_least_one_remote_registered = 1
+                          AND ${visible.sql}
                     `);
-                const results = stmt.all(startTs, endTs) as TokenMovementRow[];
+                const results = stmt.all(startTs, endTs, ...visible.params) as TransferMovementRow[];
 
-                // Process each row - the current chain is always the home chain
                 for (const row of results) {
-                    const homeChainId = config.blockchainId;
-                    const remoteChainId = row.pair_chain;
-                    const direction: 'in' | 'out' = row.is_inbound === 1 ? 'in' : 'out';
+                    const { homeChainId, remoteChainId, direction } = homePerspective(row, config.blockchainId);
 
                     // Create unique key for this specific transfer pattern
                     const key: TransferKey = `${homeChainId}:${remoteChainId}:${direction}:${row.contract_address}:${row.coin_address}`;
 
+                    const usdValue = toUsd(BigInt(row.amount_raw), row.token_decimals, row.price_usd);
+
                     const existing = transferStats.get(key);
                     if (existing) {
                         existing.transferCount++;
-                        existing.transferCoinsTotal += row.amount;
+                        existing.totalRaw += BigInt(row.amount_raw);
+                        if (usdValue !== null) existing.usdValue = (existing.usdValue ?? 0) + usdValue;
                     } else {
                         const homeName = chainNameById.get(homeChainId) || WELL_KNOWN_CHAINS[homeChainId] || homeChainId;
                         const remoteName = chainNameById.get(remoteChainId) || WELL_KNOWN_CHAINS[remoteChainId] || remoteChainId;
@@ -136,15 +410,23 @@ const module: ApiPlugin = {
                             direction: direction,
                             contractAddress: row.contract_address,
                             coinAddress: row.coin_address,
+                            coinName: row.coin_name,
+                            coinSymbol: row.coin_symbol,
+                            tokenDecimals: row.token_decimals,
                             transferCount: 1,
-                            transferCoinsTotal: row.amount
+                            totalRaw: BigInt(row.amount_raw),
+                            usdValue
                         });
                     }
                 }
             }
 
             // Convert map values to array
-            const results: TransferStats[] = Array.from(transferStats.values());
+            const results: TransferStats[] = Array.from(transferStats.values()).map(({ totalRaw, ...stats }) => ({
+                ...stats,
+                transferCoinsTotal: viem.formatUnits(totalRaw, stats.tokenDecimals),
+                transferCoinsTotalRaw: totalRaw.toString()
+            }));
 
             // Sort by transferCount descending
             results.sort((a, b) => b.transferCount - a.transferCount);
@@ -156,15 +438,23 @@ const module: ApiPlugin = {
         app.get('/api/global/ictt/transfers-list', {
             schema: {
                 tags: ["Token Transfers"],
+                description: 'Individual ICTT movements across all indexed chains, paginated by a (blockTimestamp, txHash) cursor. Chains and direction are seen from the home. Movements of remote contracts are listed only when their home is not recognized on an indexed chain, since the home records every transfer too. Pass nextCursor of the previous page as before/beforeTxHash when sorting by newest, or as after/afterTxHash when sorting by oldest. Pages end on tx boundaries, so a page can exceed limit by the other movements of its last tx. totalCount counts all movements matching the filters, ignoring the cursor.',
                 querystring: {
                     type: 'object',
                     properties: {
                         startTs: { type: 'number' },
                         endTs: { type: 'number' },
-                        homeChain: { type: 'string' },
+                        homeChain: { type: 'string', description: 'Chain of the home contract' },
                         remoteChain: { type: 'string' },
                         contractAddress: { type: 'string' },
-                        coinAddress: { type: 'string' }
+                        coinAddress: { type: 'string' },
+                        direction: { type: 'string', enum: ['in', 'out'] },
+                        sort: { type: 'string', enum: ['newest', 'oldest'], default: 'newest' },
+                        limit: { type: 'number', minimum: 1, maximum: 500, default: 100 },
+                        before: { type: 'number', description: 'Only movements older than this blockTimestamp, or at it with a lower txHash' },
+                        beforeTxHash: { type: 'string' },
+                        after: { type: 'number', description: 'Only movements newer than this blockTimestamp, or at it with a higher txHash' },
+                        afterTxHash: { type: 'string' }
                     }
                 },
                 response: {
@@ -183,14 +473,28 @@ const module: ApiPlugin = {
                                         direction: { type: 'string', enum: ['in', 'out'] },
                                         contractAddress: { type: 'string' },
                                         coinAddress: { type: 'string' },
-                                        amount: { type: 'number' },
+                                        coinName: coinNameSchema,
+                                        coinSymbol: coinSymbolSchema,
+                                        tokenDecimals: { type: 'number' },
+                                        amount: amountSchema,
+                                        amountRaw: rawAmountSchema,
+                                        usdValue: { type: ['number', 'null'], description: 'Amount at the coin\'s USD price on the transfer day, null without a price' },
                                         blockTimestamp: { type: 'number' },
                                         txHash: { type: 'string' }
                                     },
-                                    required: ['homeChainBlockchainId', 'homeChainName', 'remoteChainBlockchainId', 'remoteChainName', 'direction', 'contractAddress', 'coinAddress', 'amount', 'blockTimestamp', 'txHash']
+                                    required: ['homeChainBlockchainId', 'homeChainName', 'remoteChainBlockchainId', 'remoteChainName', 'direction', 'contractAddress', 'coinAddress', 'coinName', 'coinSymbol', 'tokenDecimals', 'amount', 'amountRaw', 'usdValue', 'blockTimestamp', 'txHash']
                                 }
                             },
                             totalCount: { type: 'number' },
+                            nextCursor: {
+                                type: ['object', 'null'],
+                                description: 'Last movement of this page, null when there are no more pages',
+                                properties: {
+                                    blockTimestamp: { type: 'number' },
+                                    txHash: { type: 'string' }
+                                },
+                                required: ['blockTimestamp', 'txHash']
+                            },
                             availableChains: {
                                 type: 'array',
                                 items: {
@@ -203,7 +507,7 @@ const module: ApiPlugin = {
                                 }
                             }
                         },
-                        required: ['transfers', 'totalCount', 'availableChains']
+                        required: ['transfers', 'totalCount', 'nextCursor', 'availableChains']
                     }
                 }
             }
@@ -215,10 +519,20 @@ const module: ApiPlugin = {
                 remoteChain?: string;
                 contractAddress?: string;
                 coinAddress?: string;
+                direction?: 'in' | 'out';
+                sort?: 'newest' | 'oldest';
+                limit?: number;
+                before?: number;
+                beforeTxHash?: string;
+                after?: number;
+                afterTxHash?: string;
             };
 
             const startTs = query.startTs || 0;
             const endTs = query.endTs || Math.floor(Date.now() / 1000);
+            const limit = query.limit || 100;
+            const newestFirst = (query.sort || 'newest') === 'newest';
+            const sortOrder = newestFirst ? 'DESC' : 'ASC';
 
             const configs = dbCtx.getAllChainConfigs();
 
@@ -249,65 +563,141 @@ const module: ApiPlugin = {
                 direction: 'in' | 'out';
                 contractAddress: string;
                 coinAddress: string;
-                amount: number;
+                coinName: string | null;
+                coinSymbol: string | null;
+                tokenDecimals: number;
+                amount: string;
+                amountRaw: string;
+                usdValue: number | null;
                 blockTimestamp: number;
                 txHash: string;
             }
 
-            const allTransfers: TransferRecord[] = [];
-
-            // Query each chain's database
-            for (const config of configs) {
-                // Skip if filtering by home chain and this isn't it
-                if (query.homeChain && config.blockchainId !== query.homeChain) {
-                    continue;
-                }
-
-                const indexerConn = dbCtx.getIndexerDbConnection(config.evmChainId, "ictt");
+            const coveredRemotes = remotesCoveredByHomes(dbCtx, configs);
 
-                // Build SQL query with filters
-                let sql = `
-                        SELECT 
-                            tm.block_timestamp,
-                            tm.is_inbound,
-                            tm.amount,
-                            tm.pair_chain,
-                            tm.contract_address,
-                            rth.coin_address,
-                            tm.tx_hash
-                        FROM token_movements tm
-                        JOIN recognized_token_homes rth ON tm.contract_address = rth.contract_address
-                        WHERE tm.block_timestamp >= ? AND tm.block_timestamp <= ?
-                          AND rth.at_least_one_remote_registered = 1
-                    `;
+            // Filters shared by the count and page queries of a chain. Chains are from the home's side (see homePerspective),
+            // so on the chain of a remote it is its own chain, and its direction is flipped
+            const chainFilter = (blockchainId: string): { filterSql: string; filterParams: any[] } => {
+                const visible = visibleMovementsSql(coveredRemotes.get(blockchainId) ?? []);
+                let filterSql = `
+                    WHERE tm.block_timestamp >= ? AND tm.block_timestamp <= ?
+                      AND ${visible.sql}
+                `;
+                const filterParams: any[] = [startTs, endTs, ...visible.params];
 
-                const params: any[] = [startTs, endTs];
+                if (query.homeChain === blockchainId) {
+                    filterSql += " AND rth.role = 'home'";
+                } else if (query.homeChain) {
+                    filterSql += " AND rth.role = 'remote' AND rth.home_blockchain_id = ?";
+                    filterParams.push(query.homeChain);
+                }
 
-                if (query.remoteChain) {
-                    sql += ' AND tm.pair_chain = ?';
-                    params.push(query.remoteChain);
+                if (query.remoteChain === blockchainId) {
+                    filterSql += " AND rth.role = 'remote'";
+                } else if (query.remoteChain) {
+                    filterSql += " AND rth.role = 'home' AND tm.pair_chain = ?";
+                    filterParams.push(query.remoteChain);
                 }
 
                 if (query.contractAddress) {
-                    sql += ' AND tm.contract_address = ?';
-                    params.push(query.contractAddress);
+                    filterSql += ' AND tm.contract_address = ?';
+                    filterParams.push(query.contractAddress);
                 }
 
                 if (query.coinAddress) {
-                    sql += ' AND rth.coin_address = ?';
-                    params.push(query.coinAddress);
+                    // Stored addresses are checksummed, the query may be lowercase
+                    filterSql += ' AND rth.coin_address = ? COLLATE NOCASE';
+                    filterParams.push(query.coinAddress);
                 }
 
-                sql += ' ORDER BY tm.block_timestamp DESC';
+                if (query.direction) {
+                    const inbound = query.direction === 'in' ? 1 : 0;
+                    filterSql += " AND tm.is_inbound = CASE WHEN rth.role = 'remote' THEN ? ELSE ? END";
+                    filterParams.push(1 - inbound, inbound);
+                }
 
-                const stmt = indexerConn.prepare(sql);
-                const results = stmt.all(...params) as TokenMovementRow[];
+                return { filterSql, filterParams };
+            };
 
-                // Process each row
-                for (const row of results) {
-                    const homeChainId = config.blockchainId;
-                    const remoteChainId = row.pair_chain;
-                    const direction: 'in' | 'out' = row.is_inbound === 1 ? 'in' : 'out';
+            // Cursor bounds, (block_timestamp, tx_hash) orders movements across chains
+            let cursorSql = '';
+            const cursorParams: any[] = [];
+
+            if (query.before !== undefined && query.beforeTxHash) {
+                cursorSql += ' AND (tm.block_timestamp < ? OR (tm.block_timestamp = ? AND tm.tx_hash < ?))';
+                cursorParams.push(query.before, query.before, query.beforeTxHash);
+            } else if (query.before !== undefined) {
+                cursorSql += ' AND tm.block_timestamp < ?';
+                cursorParams.push(query.before);
+            }
+
+            if (query.after !== undefined && query.afterTxHash) {
+                cursorSql += ' AND (tm.block_timestamp > ? OR (tm.block_timestamp = ? AND tm.tx_hash > ?))';
+                cursorParams.push(query.after, query.after, query.afterTxHash);
+            } else if (query.after !== undefined) {
+                cursorSql += ' AND tm.block_timestamp > ?';
+                cursorParams.push(query.after);
+            }
+
+            const allTransfers: TransferRecord[] = [];
+            let totalCount = 0;
+            // Set when a chain filled the limit and may hold more movements past its last row
+            let chainHasMore = false;
+
+            // Query each chain's database
+            for (const config of configs) {
+                const indexerConn = dbCtx.getIndexerDbConnection(config.evmChainId, "ictt");
+                const { filterSql, filterParams } = chainFilter(config.blockchainId);
+
+                const count = indexerConn.prepare(`
+                    SELECT COUNT(*) as count
+                    FROM token_movements tm
+                    JOIN recognized_token_homes rth ON tm.contract_address = rth.contract_address
+                    ${filterSql}
+                `).get(...filterParams) as { count: number };
+                totalCount += count.count;
+                if (count.count === 0) continue;
+
+                const selectSql = `
+                    SELECT
+                        tm.block_timestamp,
+                        tm.is_inbound,
+                        tm.amount_raw,
+                        tm.pair_chain,
+                        tm.contract_address,
+                        rth.coin_address,
+                        tmd.name as coin_name,
+                        tmd.symbol as coin_symbol,
+                        rth.token_decimals,
+                        rth.role,
+                        rth.home_blockchain_id,
+                        tm.tx_hash,
+                        (SELECT tp.price_usd FROM token_prices tp WHERE tp.coin_address = rth.coin_address AND tp.day_ts <= tm.block_timestamp AND tp.price_usd IS NOT NULL ORDER BY tp.day_ts DESC LIMIT 1) as price_usd
+                    FROM token_movements tm
+                    JOIN recognized_token_homes rth ON tm.contract_address = rth.contract_address
+                    LEFT JOIN token_metadata tmd ON tmd.coin_address = rth.coin_address
+                    ${filterSql}
+                `;
+
+                // Any chain can hold the whole page
+                let rows = indexerConn.prepare(`
+                    ${selectSql} ${cursorSql}
+                    ORDER BY tm.block_timestamp ${sortOrder}, tm.tx_hash ${sortOrder}
+                    LIMIT ?
+                `).all(...filterParams, ...cursorParams, limit) as TransferMovementRow[];
+
+                // Complete the last tx so pages end on tx boundaries
+                const last = rows[rows.length - 1];
+                if (rows.length === limit && last) {
+                    chainHasMore = true;
+                    const lastTx = indexerConn.prepare(`
+                        ${selectSql} AND tm.block_timestamp = ? AND tm.tx_hash = ?
+                    `).all(...filterParams, last.block_timestamp, last.tx_hash) as TransferMovementRow[];
+                    rows = [...rows.filter(row => row.tx_hash !== last.tx_hash), ...lastTx];
+                }
+
+                for (const row of rows) {
+                    const { homeChainId, remoteChainId, direction } = homePerspective(row, config.blockchainId);
 
                     const homeName = chainNameById.get(homeChainId) || WELL_KNOWN_CHAINS[homeChainId] || homeChainId;
                     const remoteName = chainNameById.get(remoteChainId) || WELL_KNOWN_CHAINS[remoteChainId] || remoteChainId;
@@ -320,22 +710,38 @@ const module: ApiPlugin = {
                         direction: direction,
                         contractAddress: row.contract_address,
                         coinAddress: row.coin_address,
-                        amount: row.amount,
+                        coinName: row.coin_name,
+                        coinSymbol: row.coin_symbol,
+                        tokenDecimals: row.token_decimals,
+                        amount: viem.formatUnits(BigInt(row.amount_raw), row.token_decimals),
+                        amountRaw: row.amount_raw,
+                        usdValue: toUsd(BigInt(row.amount_raw), row.token_decimals, row.price_usd),
                         blockTimestamp: row.block_timestamp,
                         txHash: row.tx_hash
                     });
                 }
             }
 
-            // Sort by timestamp descending
-            allTransfers.sort((a, b) => b.blockTimestamp - a.blockTimestamp);
+            // Same order as the SQL, ties between chains broken by tx hash
+            const sign = newestFirst ? -1 : 1;
+            allTransfers.sort((a, b) =>
+                sign * (a.blockTimestamp - b.blockTimestamp) || sign * (a.txHash < b.txHash ? -1 : a.txHash > b.txHash ? 1 : 0));
 
-            // Return first 100 transfers and total count
-            const limitedTransfers = allTransfers.slice(0, 100);
+            // Cut after the tx holding the limit-th movement
+            let pageSize = Math.min(limit, allTransfers.length);
+            const boundary = allTransfers[pageSize - 1];
+            while (boundary && pageSize < allTransfers.length
+                && allTransfers[pageSize]!.blockTimestamp === boundary.blockTimestamp && allTransfers[pageSize]!.txHash === boundary.txHash) {
+                pageSize++;
+            }
+            const page = allTransfers.slice(0, pageSize);
+            const lastTransfer = page[page.length - 1];
+            const hasMore = chainHasMore || allTransfers.length > pageSize;
 
             return reply.send({
-                transfers: limitedTransfers,
-                totalCount: allTransfers.length,
+                transfers: page,
+                totalCount,
+                nextCursor: hasMore && lastTransfer ? { blockTimestamp: lastTransfer.blockTimestamp, txHash: lastTransfer.txHash } : null,
                 availableChains: availableChains
             });
         });
@@ -344,6 +750,7 @@ const module: ApiPlugin = {
         app.get('/api/global/ictt/tvl', {
             schema: {
                 tags: ["Token Transfers"],
+                description: 'Collateral locked in ICTT homes per remote chain at the timestamp: outbound minus inbound movements of homes with at least one RemoteRegistered. Remotes hold no collateral, their movements mirror the home\'s and are not counted, so homes on chains that are not indexed have no TVL here.',
                 querystring: {
                     type: 'object',
                     properties: {
@@ -362,9 +769,14 @@ const module: ApiPlugin = {
                                 remoteChainName: { type: 'string' },
                                 contractAddress: { type: 'string' },
                                 coinAddress: { type: 'string' },
-                                tvl: { type: 'number' }
+                                coinName: coinNameSchema,
+                                coinSymbol: coinSymbolSchema,
+                                tokenDecimals: { type: 'number' },
+                                tvl: { ...amountSchema, description: 'Outbound minus inbound, base units divided by 10^tokenDecimals, exact' },
+                                tvlRaw: { ...rawAmountSchema, description: 'Outbound minus inbound in base units, exact' },
+                                usdValue: { type: ['number', 'null'], description: 'TVL at the coin\'s USD price on the timestamp\'s day, null without a price' }
                             },
-                            required: ['homeChainBlockchainId', 'homeChainName', 'remoteChainBlockchainId', 'remoteChainName', 'contractAddress', 'coinAddress', 'tvl']
+                            required: ['homeChainBlockchainId', 'homeChainName', 'remoteChainBlockchainId', 'remoteChainName', 'contractAddress', 'coinAddress', 'coinName', 'coinSymbol', 'tokenDecimals', 'tvl', 'tvlRaw', 'usdValue']
                         }
                     }
                 }
@@ -391,42 +803,25 @@ const module: ApiPlugin = {
                 remoteChainName: string;
                 contractAddress: string;
                 coinAddress: string;
-                outboundTotal: number;
-                inboundTotal: number;
+                coinName: string | null;
+                coinSymbol: string | null;
+                tokenDecimals: number;
+                tvlTotal: bigint;
+                priceUsd: number | null;
             };
 
             // Map to store aggregated TVL data
             const tvlMap = new Map<TVLKey, TVLData>();
 
+            // Daily snapshots cover every full day before endTs, movements only the rest of endTs's day
+            const dayStart = Math.floor(endTs / DAY_SECONDS) * DAY_SECONDS;
+
             // Query each chain's database
             for (const config of configs) {
                 const indexerConn = dbCtx.getIndexerDbConnection(config.evmChainId, "ictt");
+                const priceStmt = indexerConn.prepare(PRICE_LOOKUP_SQL);
 
-                // Query to get sum of inbound and outbound transfers
-                const stmt = indexerConn.prepare(`
-                    SELECT 
-                        tm.is_inbound,
-                        tm.pair_chain,
-                        tm.contract_address,
-                        rth.coin_address,
-                        SUM(tm.amount) as total_amount
-                    FROM token_movements tm
-                    JOIN recognized_token_homes rth ON tm.contract_address = rth.contract_address
-                    WHERE tm.block_timestamp <= ?
-                      AND rth.at_least_one_remote_registered = 1
-                    GROUP BY tm.is_inbound, tm.pair_chain, tm.contract_address, rth.coin_address
-                `);
-
-                const results = stmt.all(endTs) as Array<{
-                    is_inbound: number;
-                    pair_chain: string;
-                    contract_address: string;
-                    coin_address: string;
-                    total_amount: number;
-                }>;
-
-                // Process each aggregated row
-                for (const row of results) {
+                const addToTvl = (row: TvlContractRow, amount: bigint) => {
                     const homeChainId = config.blockchainId;
                     const remoteChainId = row.pair_chain;
                     const key: TVLKey = `${homeChainId}:${remoteChainId}:${row.contract_address}:${row.coin_address}`;
@@ -443,37 +838,735 @@ const module: ApiPlugin = {
                             remoteChainName: remoteName,
                             contractAddress: row.contract_address,
                             coinAddress: row.coin_address,
-                            outboundTotal: 0,
-                            inboundTotal: 0
+                            coinName: row.coin_name,
+                            coinSymbol: row.coin_symbol,
+                            tokenDecimals: row.token_decimals,
+                            tvlTotal: 0n,
+                            priceUsd: (priceStmt.get(row.coin_address, endTs) as { price_usd: number } | undefined)?.price_usd ?? null
                         };
                         tvlMap.set(key, tvlData);
                     }
+                    tvlData.tvlTotal += amount;
+                };
 
-                    // is_inbound = 0 means outbound, is_inbound = 1 means inbound
-                    if (row.is_inbound === 0) {
-                        tvlData.outboundTotal += row.total_amount;
-                    } else {
-                        tvlData.inboundTotal += row.total_amount;
-                    }
+                // Latest snapshot before endTs's day for each home/remote chain pair
+                const snapshots = indexerConn.prepare(`
+                    SELECT d.pair_chain, d.contract_address, rth.coin_address, tmd.name as coin_name, tmd.symbol as coin_symbol, rth.token_decimals, d.tvl_raw
+                    FROM ictt_tvl_daily d
+                    JOIN recognized_token_homes rth ON d.contract_address = rth.contract_address
+                    LEFT JOIN token_metadata tmd ON tmd.coin_address = rth.coin_address
+                    WHERE rth.at_least_one_remote_registered = 1
+                      AND d.day_ts = (
+                          SELECT MAX(d2.day_ts) FROM ictt_tvl_daily d2
+                          WHERE d2.contract_address = d.contract_address AND d2.pair_chain = d.pair_chain AND d2.day_ts < ?
+                      )
+                `).all(dayStart) as Array<TvlContractRow & { tvl_raw: string }>;
+
+                for (const row of snapshots) {
+                    addToTvl(row, BigInt(row.tvl_raw));
+                }
+
+                // Raw amounts are TEXT, SQL SUM would go through floats. Summed as bigint below
+                const movements = indexerConn.prepare(`
+                    SELECT 
+                        tm.is_inbound,
+                        tm.pair_chain,
+                        tm.contract_address,
+                        rth.coin_address,
+                        tmd.name as coin_name,
+                        tmd.symbol as coin_symbol,
+                        rth.token_decimals,
+                        tm.amount_raw
+                    FROM token_movements tm
+                    JOIN recognized_token_homes rth ON tm.contract_address = rth.contract_address
+                    LEFT JOIN token_metadata tmd ON tmd.coin_address = rth.coin_address
+                    WHERE tm.block_timestamp >= ? AND tm.block_timestamp <= ?
+                      AND rth.role = 'home' AND rth.at_least_one_remote_registered = 1
+                `).all(dayStart, endTs) as Array<TvlContractRow & { is_inbound: number; amount_raw: string }>;
+
+                // is_inbound = 0 means outbound (locks collateral), is_inbound = 1 means inbound (releases it)
+                for (const row of movements) {
+                    addToTvl(row, row.is_inbound === 0 ? BigInt(row.amount_raw) : -BigInt(row.amount_raw));
                 }
             }
 
-            // Calculate TVL and prepare results
-            const results = Array.from(tvlMap.values()).map(data => ({
+            // Sorted by absolute TVL descending. Compared in whole tokens since decimals differ between contracts
+            const absTokens = (data: TVLData) => Math.abs(Number(data.tvlTotal) / 10 ** data.tokenDecimals);
+            const sorted = Array.from(tvlMap.values()).sort((a, b) => absTokens(b) - absTokens(a));
+
+            const results = sorted.map(data => ({
                 homeChainBlockchainId: data.homeChainBlockchainId,
                 homeChainName: data.homeChainName,
                 remoteChainBlockchainId: data.remoteChainBlockchainId,
                 remoteChainName: data.remoteChainName,
                 contractAddress: data.contractAddress,
                 coinAddress: data.coinAddress,
-                tvl: data.outboundTotal - data.inboundTotal
+                coinName: data.coinName,
+                coinSymbol: data.coinSymbol,
+                tokenDecimals: data.tokenDecimals,
+                tvl: viem.formatUnits(data.tvlTotal, data.tokenDecimals),
+                tvlRaw: data.tvlTotal.toString(),
+                usdValue: toUsd(data.tvlTotal, data.tokenDecimals, data.priceUsd)
             }));
 
-            // Sort by absolute TVL value descending
-            results.sort((a, b) => Math.abs(b.tvl) - Math.abs(a.tvl));
+            return reply.send(results);
+        });
+
+        // Daily TVL from the ictt_tvl_daily snapshots
+        app.get('/api/global/ictt/tvl/history', {
+            schema: {
+                tags: ["Token Transfers"],
+                description: 'Daily collateral locked in ICTT homes per remote chain, taken at the end of each UTC day from the ictt_tvl_daily snapshot table. Days without movements repeat the previous value. The current day is the TVL so far. Only homes with at least one RemoteRegistered are included; remotes hold no collateral, so their movements are not counted.',
+                querystring: {
+                    type: 'object',
+                    properties: {
+                        contract: { type: 'string', description: 'Home contract address. All homes if omitted' },
+                        days: { type: 'number', minimum: 1, maximum: 365, default: 30, description: 'Number of days up to and including today' }
+                    }
+                },
+                response: {
+                    200: {
+                        type: 'array',
+                        items: {
+                            type: 'object',
+                            properties: {
+                                homeChainBlockchainId: { type: 'string' },
+                                homeChainName: { type: 'string' },
+                                remoteChainBlockchainId: { type: 'string' },
+                                remoteChainName: { type: 'string' },
+                                contractAddress: { type: 'string' },
+                                coinAddress: { type: 'string' },
+                                coinName: coinNameSchema,
+                                coinSymbol: coinSymbolSchema,
+                                tokenDecimals: { type: 'number' },
+                                points: {
+                                    type: 'array',
+                                    items: {
+                                        type: 'object',
+                                        properties: {
+                                            dayTs: { type: 'number', description: 'UTC day start (Unix timestamp)' },
+                                            tvl: amountSchema,
+                                            tvlRaw: rawAmountSchema,
+                                            usdValue: { type: ['number', 'null'], description: 'TVL at the coin\'s USD price that day, null without a price' }
+                                        },
+                                        required: ['dayTs', 'tvl', 'tvlRaw', 'usdValue']
+                                    }
+                                }
+                            },
+                            required: ['homeChainBlockchainId', 'homeChainName', 'remoteChainBlockchainId', 'remoteChainName', 'contractAddress', 'coinAddress', 'coinName', 'coinSymbol', 'tokenDecimals', 'points']
+                        }
+                    }
+                }
+            }
+        }, async (request, reply) => {
+            const query = request.query as { contract?: string; days?: number };
+            const days = query.days || 30;
+
+            const todayTs = Math.floor(Date.now() / 1000 / DAY_SECONDS) * DAY_SECONDS;
+            const firstDayTs = todayTs - (days - 1) * DAY_SECONDS;
+
+            const configs = dbCtx.getAllChainConfigs();
+
+            const chainNameById = new Map<string, string>();
+            for (const config of configs) {
+                chainNameById.set(config.blockchainId, config.chainName);
+            }
+            const chainName = (blockchainId: string) => chainNameById.get(blockchainId) || WELL_KNOWN_CHAINS[blockchainId] || blockchainId;
+
+            const series: TvlHistorySeries[] = [];
+
+            for (const config of configs) {
+                const indexerConn = dbCtx.getIndexerDbConnection(config.evmChainId, "ictt");
+
+                // The last snapshot before the range seeds each series, then the snapshots within it
+                let sql = `
+                    SELECT d.pair_chain, d.contract_address, rth.coin_address, tmd.name as coin_name, tmd.symbol as coin_symbol, rth.token_decimals, d.day_ts, d.tvl_raw
+                    FROM ictt_tvl_daily d
+                    JOIN recognized_token_homes rth ON d.contract_address = rth.contract_address
+                    LEFT JOIN token_metadata tmd ON tmd.coin_address = rth.coin_address
+                    WHERE rth.at_least_one_remote_registered = 1
+                      AND (d.day_ts >= ? OR d.day_ts = (
+                          SELECT MAX(d2.day_ts) FROM ictt_tvl_daily d2
+                          WHERE d2.contract_address = d.contract_address AND d2.pair_chain = d.pair_chain AND d2.day_ts < ?
+                      ))
+                `;
+                const params: any[] = [firstDayTs, firstDayTs];
+
+                if (query.contract) {
+                    // Stored addresses are lowercase, the query may be checksummed
+                    sql += ' AND d.contract_address = ? COLLATE NOCASE';
+                    params.push(query.contract);
+                }
+
+                sql += ' ORDER BY d.contract_address, d.pair_chain, d.day_ts';
+
+                const rows = indexerConn.prepare(sql).all(...params) as TvlDailyRow[];
+
+                // Same seeding as the snapshots: the last price before the range, then the prices within it
+                const pricesStmt = indexerConn.prepare(`
+                    SELECT day_ts, price_usd FROM token_prices
+                    WHERE coin_address = ? AND price_usd IS NOT NULL AND (day_ts >= ? OR day_ts = (
+                        SELECT MAX(day_ts) FROM token_prices WHERE coin_address = ? AND day_ts < ? AND price_usd IS NOT NULL
+                    ))
+                    ORDER BY day_ts
+                `);
+
+                const rowsBySeries = new Map<string, TvlDailyRow[]>();
+                for (const row of rows) {
+                    const key = `${row.contract_address}:${row.pair_chain}`;
+                    const seriesRows = rowsBySeries.get(key) ?? [];
+                    seriesRows.push(row);
+                    rowsBySeries.set(key, seriesRows);
+                }
+
+                for (const seriesRows of rowsBySeries.values()) {
+                    const first = seriesRows[0]!;
+                    const points: TvlHistoryPoint[] = [];
+                    const prices = pricesStmt.all(first.coin_address, firstDayTs, first.coin_address, firstDayTs) as Array<{ day_ts: number; price_usd: number }>;
+
+                    // Forward-fill days without a snapshot or price
+                    let tvl = 0n;
+                    let priceUsd: number | null = null;
+                    let rowIndex = 0;
+                    let priceIndex = 0;
+                    for (let dayTs = firstDayTs; dayTs <= todayTs; dayTs += DAY_SECONDS) {
+                        while (rowIndex < seriesRows.length && seriesRows[rowIndex]!.day_ts <= dayTs) {
+                            tvl = BigInt(seriesRows[rowIndex]!.tvl_raw);
+                            rowIndex++;
+                        }
+                        while (priceIndex < prices.length && prices[priceIndex]!.day_ts <= dayTs) {
+                            priceUsd = prices[priceIndex]!.price_usd;
+                            priceIndex++;
+                        }
+                        points.push({
+                            dayTs,
+                            tvl: viem.formatUnits(tvl, first.token_decimals),
+                            tvlRaw: tvl.toString(),
+                            usdValue: toUsd(tvl, first.token_decimals, priceUsd)
+                        });
+                    }
+
+                    series.push({
+                        homeChainBlockchainId: config.blockchainId,
+                        homeChainName: config.chainName,
+                        remoteChainBlockchainId: first.pair_chain,
+                        remoteChainName: chainName(first.pair_chain),
+                        contractAddress: first.contract_address,
+                        coinAddress: first.coin_address,
+                        coinName: first.coin_name,
+                        coinSymbol: first.coin_symbol,
+                        tokenDecimals: first.token_decimals,
+                        points
+                    });
+                }
+            }
+
+            return reply.send(series);
+        });
+
+        // Everything a wallet sent or received through ICTT, newest first
+        app.get('/api/global/ictt/address/:address/transfers', {
+            schema: {
+                tags: ["Token Transfers"],
+                description: 'ICTT movements of a wallet across all indexed chains, newest first (block timestamp, then tx index). "sent" rows are TokensSent/TokensAndCallSent where the address is the decoded sender or the tx signer, "received" rows are TokensWithdrawn/CallSucceeded/CallFailed where it is the recipient (recipientContract for calls). Multi-hop routing legs on the home are not included. The address is matched case-insensitively. Paginated with limit/offset, totalCount counts all matches.',
+                params: {
+                    type: 'object',
+                    properties: {
+                        address: { type: 'string', pattern: '^0x[0-9a-fA-F]{40}$' }
+                    },
+                    required: ['address']
+                },
+                querystring: {
+                    type: 'object',
+                    properties: {
+                        limit: { type: 'number', minimum: 1, maximum: 500, default: 50 },
+                        offset: { type: 'number', minimum: 0, default: 0 }
+                    }
+                },
+                response: {
+                    200: {
+                        type: 'object',
+                        properties: {
+                            transfers: {
+                                type: 'array',
+                                items: {
+                                    type: 'object',
+                                    properties: {
+                                        chainBlockchainId: { type: 'string', description: 'Chain the movement happened on' },
+                                        chainName: { type: 'string' },
+                                        otherChainBlockchainId: { type: 'string', description: 'Destination chain of sent rows, source chain of received rows' },
+                                        otherChainName: { type: 'string' },
+                                        direction: { type: 'string', enum: ['sent', 'received'] },
+                                        contractAddress: { type: 'string' },
+                                        role: { type: 'string', enum: ['home', 'remote'] },
+                                        coinAddress: { type: 'string' },
+                                        coinName: coinNameSchema,
+                                        coinSymbol: coinSymbolSchema,
+                                        tokenDecimals: { type: 'number' },
+                                        amount: amountSchema,
+                                        amountRaw: rawAmountSchema,
+                                        usdValue: { type: ['number', 'null'] },
+                                        eventName: { type: 'string' },
+                                        sender: { type: ['string', 'null'], description: 'Decoded sender of sent rows, unknown (null) for received rows' },
+                                        recipient: { type: ['string', 'null'] },
+                                        txFrom: { type: 'string', description: 'Tx signer, the relayer for received rows' },
+                                        blockTimestamp: { type: 'number' },
+                                        txIndex: { type: 'number' },
+                                        txHash: { type: 'string' }
+                                    },
+                                    required: ['chainBlockchainId', 'chainName', 'otherChainBlockchainId', 'otherChainName', 'direction', 'contractAddress', 'role',
+                                        'coinAddress', 'coinName', 'coinSymbol', 'tokenDecimals', 'amount', 'amountRaw', 'usdValue', 'eventName', 'sender', 'recipient',
+                                        'txFrom', 'blockTimestamp', 'txIndex', 'txHash']
+                                }
+                            },
+                            totalCount: { type: 'number' },
+                            hasMore: { type: 'boolean' }
+                        },
+                        required: ['transfers', 'totalCount', 'hasMore']
+                    }
+                }
+            }
+        }, async (request, reply) => {
+            const { address } = request.params as { address: string };
+            const query = request.query as { limit?: number; offset?: number };
+
+            const limit = query.limit || 50;
+            const offset = query.offset || 0;
+
+            const configs = dbCtx.getAllChainConfigs();
+            const chainNameById = new Map<string, string>(Object.entries(WELL_KNOWN_CHAINS));
+            for (const config of configs) {
+                chainNameById.set(config.blockchainId, config.chainName);
+            }
+
+            // COLLATE NOCASE matches the indexes on sender/tx_from/recipient
+            const matchSql = `
+                ((tm.is_inbound = 0 AND tm.event_name IN ('TokensSent', 'TokensAndCallSent') AND (tm.sender = ? COLLATE NOCASE OR tm.tx_from = ? COLLATE NOCASE))
+                OR (tm.is_inbound = 1 AND tm.event_name IN ('TokensWithdrawn', 'CallSucceeded', 'CallFailed') AND tm.recipient = ? COLLATE NOCASE))
+            `;
+
+            const transfers: AddressTransfer[] = [];
+            let totalCount = 0;
+
+            for (const config of configs) {
+                const indexerConn = dbCtx.getIndexerDbConnection(config.evmChainId, "ictt");
+
+                const count = indexerConn.prepare(`
+                    SELECT COUNT(*) as count FROM token_movements tm WHERE ${matchSql}
+                `).get(address, address, address) as { count: number };
+                totalCount += count.count;
+                if (count.count === 0) continue;
+
+                // Any chain can hold the whole requested page
+                const rows = indexerConn.prepare(`
+                    SELECT
+                        tm.block_timestamp,
+                        tm.is_inbound,
+                        tm.amount_raw,
+                        tm.pair_chain,
+                        tm.contract_address,
+                        tm.role,
+                        tm.event_name,
+                        tm.tx_hash,
+                        tm.tx_index,
+                        tm.tx_from,
+                        tm.sender,
+                        tm.recipient,
+                        rth.coin_address,
+                        tmd.name as coin_name,
+                        tmd.symbol as coin_symbol,
+                        rth.token_decimals,
+                        (SELECT tp.price_usd FROM token_prices tp WHERE tp.coin_address = rth.coin_address AND tp.day_ts <= tm.block_timestamp AND tp.price_usd IS NOT NULL ORDER BY tp.day_ts DESC LIMIT 1) as price_usd
+                    FROM token_movements tm
+                    JOIN recognized_token_homes rth ON tm.contract_address = rth.contract_address
+                    LEFT JOIN token_metadata tmd ON tmd.coin_address = rth.coin_address
+                    WHERE ${matchSql}
+                    ORDER BY tm.block_timestamp DESC, tm.tx_index DESC
+                    LIMIT ?
+                `).all(address, address, address, offset + limit) as AddressMovementRow[];
+
+                for (const row of rows) {
+                    transfers.push({
+                        chainBlockchainId: config.blockchainId,
+                        chainName: config.chainName,
+                        otherChainBlockchainId: row.pair_chain,
+                        otherChainName: chainNameById.get(row.pair_chain) || row.pair_chain,
+                        direction: row.is_inbound === 1 ? 'received' : 'sent',
+                        contractAddress: row.contract_address,
+                        role: row.role,
+                        coinAddress: row.coin_address,
+                        coinName: row.coin_name,
+                        coinSymbol: row.coin_symbol,
+                        tokenDecimals: row.token_decimals,
+                        amount: viem.formatUnits(BigInt(row.amount_raw), row.token_decimals),
+                        amountRaw: row.amount_raw,
+                        usdValue: toUsd(BigInt(row.amount_raw), row.token_decimals, row.price_usd),
+                        eventName: row.event_name,
+                        sender: row.sender,
+                        recipient: row.recipient,
+                        txFrom: row.tx_from,
+                        blockTimestamp: row.block_timestamp,
+                        txIndex: row.tx_index,
+                        txHash: row.tx_hash
+                    });
+                }
+            }
+
+            transfers.sort((a, b) => b.blockTimestamp - a.blockTimestamp || b.txIndex - a.txIndex);
+
+            return reply.send({
+                transfers: transfers.slice(offset, offset + limit),
+                totalCount,
+                hasMore: offset + limit < totalCount
+            });
+        });
+
+        // Failed calls, withdrawals and collateral per contract
+        app.get('/api/global/ictt/reliability', {
+            schema: {
+                tags: ["Token Transfers"],
+                description: 'Per ICTT contract (homes and remotes) delivery outcomes of incoming transfers. callsSucceeded/callsFailed count CallSucceeded/CallFailed events of sendAndCall transfers; on CallFailed the tokens go to the fallback recipient, summed in failedCallAmount. failureRate is callsFailed / (callsSucceeded + callsFailed), null without calls. withdrawn* are TokensWithdrawn (plain transfers paid out), collateralAdded* are CollateralAdded deposits on homes. Sorted by failureRate, then callsFailed.',
+                querystring: {
+                    type: 'object',
+                    properties: {
+                        startTs: { type: 'number' },
+                        endTs: { type: 'number' },
+                        minCalls: { type: 'number', minimum: 0, default: 0, description: 'Only contracts with at least this many CallSucceeded + CallFailed' }
+                    }
+                },
+                response: {
+                    200: {
+                        type: 'array',
+                        items: {
+                            type: 'object',
+                            properties: {
+                                chainBlockchainId: { type: 'string' },
+                                chainName: { type: 'string' },
+                                contractAddress: { type: 'string' },
+                                role: { type: 'string', enum: ['home', 'remote'] },
+                                contractType: { type: 'string' },
+                                coinAddress: { type: 'string' },
+                                coinName: coinNameSchema,
+                                coinSymbol: coinSymbolSchema,
+                                tokenDecimals: { type: 'number' },
+                                callsSucceeded: { type: 'number' },
+                                callsFailed: { type: 'number' },
+                                failureRate: { type: ['number', 'null'] },
+                                failedCallAmount: amountSchema,
+                                failedCallAmountRaw: rawAmountSchema,
+                                withdrawnCount: { type: 'number' },
+                                withdrawnAmount: amountSchema,
+                                withdrawnAmountRaw: rawAmountSchema,
+                                collateralAddedCount: { type: 'number' },
+                                collateralAdded: amountSchema,
+                                collateralAddedRaw: rawAmountSchema
+                            },
+                            required: ['chainBlockchainId', 'chainName', 'contractAddress', 'role', 'contractType', 'coinAddress', 'coinName', 'coinSymbol', 'tokenDecimals',
+                                'callsSucceeded', 'callsFailed', 'failureRate', 'failedCallAmount', 'failedCallAmountRaw', 'withdrawnCount', 'withdrawnAmount', 'withdrawnAmountRaw',
+                                'collateralAddedCount', 'collateralAdded', 'collateralAddedRaw']
+                        }
+                    }
+                }
+            }
+        }, async (request, reply) => {
+            const query = request.query as { startTs?: number; endTs?: number; minCalls?: number };
+
+            const startTs = query.startTs || 0;
+            const endTs = query.endTs || Number.MAX_SAFE_INTEGER;
+            const minCalls = query.minCalls || 0;
+
+            const results: ContractReliability[] = [];
+
+            for (const config of dbCtx.getAllChainConfigs()) {
+                const indexerConn = dbCtx.getIndexerDbConnection(config.evmChainId, "ictt");
+
+                const contracts = indexerConn.prepare(`
+                    SELECT rth.contract_address, rth.coin_address, tmd.name as coin_name, tmd.symbol as coin_symbol,
+                        rth.token_decimals, rth.contract_type, rth.role, rth.home_blockchain_id, rth.home_address
+                    FROM recognized_token_homes rth
+                    LEFT JOIN token_metadata tmd ON tmd.coin_address = rth.coin_address
+                `).all() as RecognizedContractRow[];
+
+                const events = indexerConn.prepare(`
+                    SELECT contract_address, event_name, amount_raw
+                    FROM token_movements
+                    WHERE event_name IN ('CallSucceeded', 'CallFailed', 'TokensWithdrawn')
+                      AND block_timestamp >= ? AND block_timestamp <= ?
+                `).all(startTs, endTs) as ReliabilityEventRow[];
+
+                const collateral = indexerConn.prepare(`
+                    SELECT home_address, amount_raw
+                    FROM collateral_additions
+                    WHERE block_timestamp >= ? AND block_timestamp <= ?
+                `).all(startTs, endTs) as CollateralRow[];
+
+                const totals = new Map<string, { succeeded: number; failed: number; failedRaw: bigint; withdrawn: number; withdrawnRaw: bigint; collateral: number; collateralRaw: bigint }>();
+                const totalsFor = (contractAddress: string) => {
+                    let total = totals.get(contractAddress);
+                    if (!total) {
+                        total = { succeeded: 0, failed: 0, failedRaw: 0n, withdrawn: 0, withdrawnRaw: 0n, collateral: 0, collateralRaw: 0n };
+                        totals.set(contractAddress, total);
+                    }
+                    return total;
+                };
+
+                for (const row of events) {
+                    const total = totalsFor(row.contract_address);
+                    if (row.event_name === 'CallSucceeded') {
+                        total.succeeded++;
+                    } else if (row.event_name === 'CallFailed') {
+                        total.failed++;
+                        total.failedRaw += BigInt(row.amount_raw);
+                    } else {
+                        total.withdrawn++;
+                        total.withdrawnRaw += BigInt(row.amount_raw);
+                    }
+                }
+                for (const row of collateral) {
+                    const total = totalsFor(row.home_address);
+                    total.collateral++;
+                    total.collateralRaw += BigInt(row.amount_raw);
+                }
+
+                for (const contract of contracts) {
+                    const total = totalsFor(contract.contract_address);
+                    const calls = total.succeeded + total.failed;
+                    if (calls < minCalls) continue;
+
+                    results.push({
+                        chainBlockchainId: config.blockchainId,
+                        chainName: config.chainName,
+                        contractAddress: contract.contract_address,
+                        role: contract.role,
+                        contractType: contract.contract_type,
+                        coinAddress: contract.coin_address,
+                        coinName: contract.coin_name,
+                        coinSymbol: contract.coin_symbol,
+                        tokenDecimals: contract.token_decimals,
+                        callsSucceeded: total.succeeded,
+                        callsFailed: total.failed,
+                        failureRate: calls > 0 ? total.failed / calls : null,
+                        failedCallAmount: viem.formatUnits(total.failedRaw, contract.token_decimals),
+                        failedCallAmountRaw: total.failedRaw.toString(),
+                        withdrawnCount: total.withdrawn,
+                        withdrawnAmount: viem.formatUnits(total.withdrawnRaw, contract.token_decimals),
+                        withdrawnAmountRaw: total.withdrawnRaw.toString(),
+                        collateralAddedCount: total.collateral,
+                        collateralAdded: viem.formatUnits(total.collateralRaw, contract.token_decimals),
+                        collateralAddedRaw: total.collateralRaw.toString()
+                    });
+                }
+            }
+
+            results.sort((a, b) => (b.failureRate ?? -1) - (a.failureRate ?? -1) || b.callsFailed - a.callsFailed);
 
             return reply.send(results);
         });
+
+        // Homes joined with their remotes across chains
+        app.get('/api/global/ictt/homes', {
+            schema: {
+                tags: ["Token Transfers"],
+                description: 'ICTT token homes (ERC20TokenHome, NativeTokenHome) joined with their remotes (ERC20TokenRemote, NativeTokenRemote). Remotes come from RemoteRegistered events on the home chain and from remote deployments on indexed chains, matched by the tokenHomeBlockchainID/tokenHomeAddress constructor settings. Homes on chains that are not indexed appear with indexed = false when an indexed remote points to them. Remote totals are TokensSent/TokensAndCallSent (sent) and TokensWithdrawn/CallSucceeded/CallFailed (received) on the remote chain.',
+                response: {
+                    200: {
+                        type: 'array',
+                        items: {
+                            type: 'object',
+                            properties: {
+                                homeChainBlockchainId: { type: 'string' },
+                                homeChainName: { type: 'string' },
+                                contractAddress: { type: 'string' },
+                                contractType: { type: ['string', 'null'] },
+                                coinAddress: { type: ['string', 'null'] },
+                                coinName: coinNameSchema,
+                                coinSymbol: coinSymbolSchema,
+                                tokenDecimals: { type: ['number', 'null'] },
+                                indexed: { type: 'boolean' },
+                                remotes: {
+                                    type: 'array',
+                                    items: {
+                                        type: 'object',
+                                        properties: {
+                                            remoteChainBlockchainId: { type: 'string' },
+                                            remoteChainName: { type: 'string' },
+                                            remoteAddress: { type: 'string' },
+                                            contractType: { type: ['string', 'null'] },
+                                            coinName: coinNameSchema,
+                                            coinSymbol: coinSymbolSchema,
+                                            tokenDecimals: { type: ['number', 'null'] },
+                                            registered: { type: 'boolean', description: 'RemoteRegistered seen on the home' },
+                                            indexed: { type: 'boolean', description: 'Remote deployment seen on an indexed chain' },
+                                            sentCount: { type: 'number' },
+                                            sentTotal: amountSchema,
+                                            sentTotalRaw: rawAmountSchema,
+                                            receivedCount: { type: 'number' },
+                                            receivedTotal: amountSchema,
+                                            receivedTotalRaw: rawAmountSchema
+                                        },
+                                        required: ['remoteChainBlockchainId', 'remoteChainName', 'remoteAddress', 'contractType', 'coinName', 'coinSymbol', 'tokenDecimals',
+                                            'registered', 'indexed', 'sentCount', 'sentTotal', 'sentTotalRaw', 'receivedCount', 'receivedTotal', 'receivedTotalRaw']
+                                    }
+                                }
+                            },
+                            required: ['homeChainBlockchainId', 'homeChainName', 'contractAddress', 'contractType', 'coinAddress', 'coinName', 'coinSymbol', 'tokenDecimals', 'indexed', 'remotes']
+                        }
+                    }
+                }
+            }
+        }, async (request, reply) => {
+            const configs = dbCtx.getAllChainConfigs();
+
+            const chainNameById = new Map<string, string>();
+            for (const config of configs) {
+                chainNameById.set(config.blockchainId, config.chainName);
+            }
+            const chainName = (blockchainId: string) => chainNameById.get(blockchainId) || WELL_KNOWN_CHAINS[blockchainId] || blockchainId;
+
+            const homes: HomeWithRemotes[] = [];
+
+            // Addresses are compared with isAddressEqual since constructor settings are checksummed
+            const findHome = (blockchainId: string, address: string) =>
+                homes.find(home => home.homeChainBlockchainId === blockchainId && viem.isAddressEqual(home.contractAddress as `0x${string}`, address as `0x${string}`));
+
+            const getOrCreateRemote = (home: HomeWithRemotes, blockchainId: string, address: string): HomeRemote => {
+                let remote = home.remotes.find(r => r.remoteChainBlockchainId === blockchainId && viem.isAddressEqual(r.remoteAddress as `0x${string}`, address as `0x${string}`));
+                if (!remote) {
+                    remote = {
+                        remoteChainBlockchainId: blockchainId,
+                        remoteChainName: chainName(blockchainId),
+                        remoteAddress: address,
+                        contractType: null,
+                        coinName: null,
+                        coinSymbol: null,
+                        tokenDecimals: null,
+                        registered: false,
+                        indexed: false,
+                        sentCount: 0,
+                        sentTotal: '0',
+                        sentTotalRaw: '0',
+                        receivedCount: 0,
+                        receivedTotal: '0',
+                        receivedTotalRaw: '0'
+                    };
+                    home.remotes.push(remote);
+                }
+                return remote;
+            };
+
+            const remotesByChain = new Map<string, { rows: RecognizedContractRow[]; totals: Map<string, RemoteMovementTotals> }>();
+
+            // Pass 1: homes and the remotes they registered
+            for (const config of configs) {
+                const indexerConn = dbCtx.getIndexerDbConnection(config.evmChainId, "ictt");
+
+                const contracts = indexerConn.prepare(`
+                    SELECT rth.contract_address, rth.coin_address, tmd.name as coin_name, tmd.symbol as coin_symbol,
+                        rth.token_decimals, rth.contract_type, rth.role, rth.home_blockchain_id, rth.home_address
+                    FROM recognized_token_homes rth
+                    LEFT JOIN token_metadata tmd ON tmd.coin_address = rth.coin_address
+                `).all() as RecognizedContractRow[];
+
+                for (const row of contracts) {
+                    if (row.role !== 'home') continue;
+                    homes.push({
+                        homeChainBlockchainId: config.blockchainId,
+                        homeChainName: config.chainName,
+                        contractAddress: row.contract_address,
+                        contractType: row.contract_type,
+                        coinAddress: row.coin_address,
+                        coinName: row.coin_name,
+                        coinSymbol: row.coin_symbol,
+                        tokenDecimals: row.token_decimals,
+                        indexed: true,
+                        remotes: []
+                    });
+                }
+
+                const registrations = indexerConn.prepare(`
+                    SELECT home_address, remote_blockchain_id, remote_address, token_decimals
+                    FROM registered_remotes
+                `).all() as RegisteredRemoteRow[];
+
+                for (const row of registrations) {
+                    const home = findHome(config.blockchainId, row.home_address);
+                    if (!home) continue;
+                    const remote = getOrCreateRemote(home, row.remote_blockchain_id, row.remote_address);
+                    remote.registered = true;
+                    remote.tokenDecimals = row.token_decimals;
+                }
+
+                const remoteMovements = indexerConn.prepare(`
+                    SELECT contract_address, is_inbound, amount_raw
+                    FROM token_movements
+                    WHERE role = 'remote'
+                `).all() as RemoteMovementRow[];
+
+                const totals = new Map<string, RemoteMovementTotals>();
+                for (const row of remoteMovements) {
+                    let total = totals.get(row.contract_address);
+                    if (!total) {
+                        total = { sentCount: 0, sentRaw: 0n, receivedCount: 0, receivedRaw: 0n };
+                        totals.set(row.contract_address, total);
+                    }
+                    if (row.is_inbound === 1) {
+                        total.receivedCount++;
+                        total.receivedRaw += BigInt(row.amount_raw);
+                    } else {
+                        total.sentCount++;
+                        total.sentRaw += BigInt(row.amount_raw);
+                    }
+                }
+
+                remotesByChain.set(config.blockchainId, { rows: contracts.filter(row => row.role === 'remote'), totals });
+            }
+
+            // Pass 2: remotes deployed on indexed chains, attached to their home
+            for (const [blockchainId, { rows, totals }] of remotesByChain) {
+                for (const row of rows) {
+                    if (!row.home_blockchain_id || !row.home_address) continue;
+
+                    let home = findHome(row.home_blockchain_id, row.home_address);
+                    if (!home) {
+                        home = {
+                            homeChainBlockchainId: row.home_blockchain_id,
+                            homeChainName: chainName(row.home_blockchain_id),
+                            contractAddress: row.home_address,
+                            contractType: null,
+                            coinAddress: null,
+                            coinName: null,
+                            coinSymbol: null,
+                            tokenDecimals: null,
+                            indexed: false,
+                            remotes: []
+                        };
+                        homes.push(home);
+                    }
+
+                    const remote = getOrCreateRemote(home, blockchainId, row.contract_address);
+                    remote.indexed = true;
+                    remote.contractType = row.contract_type;
+                    remote.coinName = row.coin_name;
+                    remote.coinSymbol = row.coin_symbol;
+                    remote.tokenDecimals = row.token_decimals;
+
+                    const total = totals.get(row.contract_address);
+                    if (total) {
+                        remote.sentCount = total.sentCount;
+                        remote.sentTotal = viem.formatUnits(total.sentRaw, row.token_decimals);
+                        remote.sentTotalRaw = total.sentRaw.toString();
+                        remote.receivedCount = total.receivedCount;
+                        remote.receivedTotal = viem.formatUnits(total.receivedRaw, row.token_decimals);
+                        remote.receivedTotalRaw = total.receivedRaw.toString();
+                    }
+                }
+            }
+
+            // Homes with the most remotes first
+            homes.sort((a, b) => b.remotes.length - a.remotes.length);
+
+            return reply.send(homes);
+        });
     }
 };
 
@@ -1,10 +1,18 @@
 import { type IndexingPlugin, abiUtils, encodingUtils, evmTypes, viem } from "frostbyte-sdk";
 import ERC20TokenHome from './abi/ERC20TokenHome.json';
 import NativeTokenHome from './abi/NativeTokenHome.json';
-// TEMPORARILY COMMENTED OUT - Only indexing Home contracts
-// import ERC20TokenRemote from './abi/ERC20TokenRemote.json';
-// import NativeTokenRemote from './abi/NativeTokenRemote.json';
+import ERC20TokenRemote from './abi/ERC20TokenRemote.json';
+import NativeTokenRemote from './abi/NativeTokenRemote.json';
 import type { ContractHomeData, RemoteData } from './types/ictt.types';
+import { decodeConstructorArgs } from './lib/constructorDecoder';
+import { probeICTTContracts } from './lib/icttProbe';
+import { fetchTokenMetadata } from './lib/tokenMetadata';
+import { dailyPriceKey, lookupDailyPrices } from './lib/tokenPrices';
+import { txEvmChainId } from './lib/chainContext';
+import { createBackgroundLookup } from './lib/backgroundLookup';
+
+type ContractType = 'ERC20Home' | 'NativeHome' | 'ERC20Remote' | 'NativeRemote';
+type ContractRole = 'home' | 'remote';
 
 interface ContractHomeRow {
     address: string;
@@ -15,7 +23,11 @@ interface PendingRegistration {
     contractAddress: string;
     coinAddress: string;
     tokenDecimals: number;
-    contractType: 'ERC20Home' | 'NativeHome' | 'ERC20Remote' | 'NativeRemote';
+    contractType: ContractType;
+    role: ContractRole;
+    homeBlockchainId: string | null;
+    homeAddress: string | null;
+    detectedVia: DetectionMethod;
 }
 
 interface RecognizedHome {
@@ -23,6 +35,7 @@ interface RecognizedHome {
     coin_address: string;
     token_decimals: number;
     contract_type: string;
+    role: ContractRole;
     at_least_one_remote_registered: number; // SQLite boolean (0/1)
 }
 
@@ -32,111 +45,260 @@ interface TokenMovement {
     amount: bigint;
     pairChain: string;
     contractAddress: string;
+    eventName: string;
+    txHash: string;
+    txIndex: number;
+    txFrom: string;
+    sender: string | null;
+    recipient: string | null;
+}
+
+interface TvlDelta {
+    contractAddress: string;
+    pairChain: string;
+    coinAddress: string;
+    dayTs: number;
+    net: bigint;
+}
+
+interface TvlDailyRow {
+    day_ts: number;
+    net_raw: string;
+    tvl_raw: string;
+}
+
+interface RemoteRegistration {
+    homeAddress: string;
+    remoteBlockchainId: string;
+    remoteAddress: string;
+    initialCollateralNeeded: boolean;
+    tokenDecimals: number;
+    blockTimestamp: number;
+}
+
+interface CollateralAddition {
+    homeAddress: string;
+    remoteBlockchainId: string;
+    remoteAddress: string;
+    amount: bigint;
+    remaining: bigint;
+    blockTimestamp: number;
     txHash: string;
 }
 
+interface Candidate {
+    contract_address: string;
+    evidence_event: string;
+    first_seen_ts: number;
+    status: 'pending' | 'rejected';
+    probe_attempts: number;
+    last_probe_ts: number | null;
+}
+
+interface CandidateMovementRow {
+    block_timestamp: number;
+    is_inbound: number;
+    amount: string;
+    pair_chain: string;
+    event_name: string;
+    tx_hash: string;
+    tx_index: number;
+    tx_from: string;
+    sender: string | null;
+    recipient: string | null;
+}
+
 interface ContractTypeDetection {
-    contractType: 'ERC20Home' | 'NativeHome' | 'ERC20Remote' | 'NativeRemote';
+    contractType: ContractType;
     decoded: any[];
     coinAddress: string;
     tokenDecimals: number;
+    homeBlockchainId: string | null;
+    homeAddress: string | null;
+    detectedVia: DetectionMethod;
 }
 
+const ROLE_BY_CONTRACT_TYPE: Record<ContractType, ContractRole> = {
+    ERC20Home: 'home',
+    NativeHome: 'home',
+    ERC20Remote: 'remote',
+    NativeRemote: 'remote'
+};
+
+type DetectionMethod = 'constructor' | 'proxy' | 'create2' | 'initialize' | 'probe';
+
+interface ContractDefinition {
+    type: ContractType;
+    abi: viem.Abi;
+    bytecode: `0x${string}`;
+    expectedParams: number;
+    getCoinAddress: (decoded: readonly any[], contractAddress: string) => string;
+    getTokenDecimals: (decoded: readonly any[]) => number;
+}
+
+// Constructors and initialize() of the upgradeable variants take the same params
+const ICTT_CONTRACTS: ContractDefinition[] = [
+    {
+        type: 'ERC20Home',
+        abi: ERC20TokenHome.abi as viem.Abi,
+        bytecode: ERC20TokenHome.bytecode.object as `0x${string}`,
+        expectedParams: 5,
+        getCoinAddress: (decoded) => decoded[3] as string, // tokenAddress
+        getTokenDecimals: (decoded) => Number(decoded[4]) // tokenDecimals
+    },
+    {
+        type: 'NativeHome',
+        abi: NativeTokenHome.abi as viem.Abi,
+        bytecode: NativeTokenHome.bytecode.object as `0x${string}`,
+        expectedParams: 4,
+        getCoinAddress: (decoded) => decoded[3] as string, // wrappedTokenAddress
+        getTokenDecimals: () => 18 // Always 18 for native tokens
+    },
+    {
+        type: 'ERC20Remote',
+        abi: ERC20TokenRemote.abi as viem.Abi,
+        bytecode: ERC20TokenRemote.bytecode.object as `0x${string}`,
+        expectedParams: 4, // settings (tuple), tokenName, tokenSymbol, tokenDecimals
+        getCoinAddress: (decoded, contractAddress) => viem.getAddress(contractAddress), // The remote is the token itself
+        getTokenDecimals: (decoded) => Number(decoded[3]) // tokenDecimals
+    },
+    {
+        type: 'NativeRemote',
+        abi: NativeTokenRemote.abi as viem.Abi,
+        bytecode: NativeTokenRemote.bytecode.object as `0x${string}`,
+        expectedParams: 4, // settings (tuple), nativeAssetSymbol, initialReserveImbalance, burnedFeesReportingRewardPercentage
+        getCoinAddress: () => '0x0000000000000000000000000000000000000000', // Native on remote
+        getTokenDecimals: () => 18 // Always 18 for native tokens
+    }
+];
+
+const constructorInputs = (abi: viem.Abi): readonly viem.AbiParameter[] =>
+    (abi.find((item) => item.type === 'constructor') as { inputs?: readonly viem.AbiParameter[] } | undefined)?.inputs ?? [];
+
+// Selectors of the ICTT initialize() functions, to spot proxies initialized after deployment
+const INITIALIZE_SELECTORS = new Set(ICTT_CONTRACTS.map(def =>
+    viem.toFunctionSelector(def.abi.find((item) => item.type === 'function' && item.name === 'initialize') as viem.AbiFunction)
+));
+
+// OpenZeppelin proxies upgradeable homes/remotes are deployed behind; the last param is the initialize() call
+const PROXY_CONSTRUCTORS = [
+    viem.parseAbiParameters('address implementation, bytes data'), // ERC1967Proxy
+    viem.parseAbiParameters('address logic, address admin, bytes data') // TransparentUpgradeableProxy
+];
+
+// Deterministic deployment proxy used for CREATE2 deployments: input is salt (32 bytes) followed by initcode
+const CREATE2_DEPLOYER = '0x4e59b44847b379578588920ca78fbf26c0b4956c';
+
+const INITIALIZED_TOPIC = '0xc7f505b2f371ae2175ee4913f4499e1f2633a7b5936321eed1cdaeb6115181d2'; // Initialized(uint64)
+
+// Events only ICTT contracts emit. An unrecognized contract emitting one (factory deployments,
+// proxies created by other contracts) becomes a candidate and is identified by eth_call probes
+const CANDIDATE_EVIDENCE_EVENTS = ["RemoteRegistered", "TokensSent", "TokensAndCallSent", "TokensRouted", "TokensAndCallRouted"];
+
+const DAY_SECONDS = 86400;
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+// Chain time between probes of a candidate (or token metadata fetches, or price lookups of a day without a price) while they fail
+const PROBE_RETRY_SECONDS = 3600;
+
+// eth_call probes, ERC20 metadata reads and price lookups run in the background, batches only request them and write finished results
+const probeLookup = createBackgroundLookup('ICTT probe', probeICTTContracts);
+const metadataLookup = createBackgroundLookup('Token metadata', fetchTokenMetadata);
+const priceLookup = createBackgroundLookup('Token price', lookupDailyPrices);
+
+// Creation input detection results by contract address, so a contract is decoded once
+// even if several of its txs reach the indexer. Bounded to keep memory flat on busy chains
+const DETECTION_CACHE_LIMIT = 10000;
+const detectionCache = new Map<string, ContractTypeDetection | null>();
+
 /**
- * Decodes constructor parameters from a contract creation transaction
- * @param txInput - The full transaction input data (bytecode + constructor params)
- * @param abi - The contract ABI
- * @returns Decoded constructor parameters or null if decoding fails
+ * Validates decoded constructor/initialize params against an ICTT contract definition
+ * @returns Contract type detection result or null if the params don't look like ICTT
  */
-const decodeConstructorParams = (txInput: string, abi: viem.Abi): any[] | null => {
-    // Find the constructor in the ABI
-    const constructorAbi = abi.find(
-        (item) => item.type === 'constructor'
-    ) as viem.AbiItem & { inputs?: viem.AbiParameter[] };
-
-    if (!constructorAbi || !constructorAbi.inputs || constructorAbi.inputs.length === 0) {
-        console.error("Constructor ABI not found or has no inputs");
+const toDetection = (contractDef: ContractDefinition, decoded: readonly any[], contractAddress: string, detectedVia: DetectionMethod): ContractTypeDetection | null => {
+    if (decoded.length !== contractDef.expectedParams) return null;
+
+    const tokenDecimals = contractDef.getTokenDecimals(decoded);
+
+    // Remotes carry TokenRemoteSettings as the first param
+    const settings = ROLE_BY_CONTRACT_TYPE[contractDef.type] === 'remote' ? decoded[0] : null;
+    if (settings && (BigInt(settings.tokenHomeBlockchainID) === 0n || Number(settings.tokenHomeDecimals) >= 100)) {
         return null;
     }
 
-    // For simple types (address, uint, etc), each parameter is 32 bytes (64 hex chars)
-    // This is a simplified approach that works for most cases
-    // TODO: Handle dynamic types (strings, arrays) properly
-    const constructorParamsLength = constructorAbi.inputs.length * 64;
+    // Sanity check for decimals
+    if (!(tokenDecimals > 0 && tokenDecimals < 100)) return null;
 
-    // Extract constructor params from the end of the input
-    const constructorParams = `0x${txInput.slice(-constructorParamsLength)}` as `0x${string}`;
+    return {
+        contractType: contractDef.type,
+        decoded: [...decoded],
+        coinAddress: contractDef.getCoinAddress(decoded, contractAddress),
+        tokenDecimals,
+        homeBlockchainId: settings ? encodingUtils.hexToCB58(settings.tokenHomeBlockchainID) : null,
+        homeAddress: settings ? settings.tokenHomeAddress : null,
+        detectedVia
+    };
+};
 
-    // Decode the constructor parameters
-    const decoded = viem.decodeAbiParameters(
-        constructorAbi.inputs,
-        constructorParams
-    );
+/**
+ * Detects an ICTT contract from an initialize() call, either the init data of a proxy
+ * deployment or a separate call to an already deployed proxy
+ */
+const detectFromInitializeCall = (calldata: `0x${string}`, contractAddress: string, detectedVia: DetectionMethod): ContractTypeDetection | null => {
+    if (!INITIALIZE_SELECTORS.has(calldata.slice(0, 10) as `0x${string}`)) return null;
+
+    for (const contractDef of ICTT_CONTRACTS) {
+        try {
+            const { functionName, args } = viem.decodeFunctionData({ abi: contractDef.abi, data: calldata });
+            if (functionName !== 'initialize' || !args) continue;
+
+            const detection = toDetection(contractDef, args, contractAddress, detectedVia);
+            if (detection) return detection;
+        } catch {
+            // Selector belongs to another ICTT contract type
+        }
+    }
 
-    return decoded;
+    return null;
 };
 
 /**
- * Detects ICTT contract type from deployment transaction and decodes constructor parameters
- * @param txInput - The full transaction input data (bytecode + constructor params)
- * @param contractAddress - The deployed contract address (for logging)
+ * Detects ICTT contract type from creation input (initcode + constructor args) and decodes its params.
+ * Covers direct deployments and ERC1967/Transparent proxies whose init data calls initialize()
+ * @param initcode - Creation bytecode followed by the encoded constructor args
+ * @param contractAddress - The deployed contract address
+ * @param detectedVia - How the initcode was found, 'constructor' for top-level creation txs
  * @returns Contract type detection result or null if not an ICTT contract
  */
-const detectICTTContract = (txInput: string, contractAddress: string): ContractTypeDetection | null => {
-    const contractsToCheck = [
-        {
-            type: 'ERC20Home' as const,
-            abi: ERC20TokenHome.abi as viem.Abi,
-            expectedParams: 5,
-            getCoinAddress: (decoded: any[]) => decoded[3] as string, // tokenAddress
-            getTokenDecimals: (decoded: any[]) => Number(decoded[4]) // tokenDecimals
-        },
-        {
-            type: 'NativeHome' as const,
-            abi: NativeTokenHome.abi as viem.Abi,
-            expectedParams: 4,
-            getCoinAddress: (decoded: any[]) => decoded[3] as string, // wrappedTokenAddress
-            getTokenDecimals: () => 18 // Always 18 for native tokens
-        },
-        // TEMPORARILY COMMENTED OUT - Only indexing Home contracts
-        // {
-        //     type: 'ERC20Remote' as const,
-        //     abi: ERC20TokenRemote.abi as viem.Abi,
-        //     expectedParams: 4, // settings (tuple), tokenName, tokenSymbol, tokenDecimals
-        //     getCoinAddress: () => '0x0000000000000000000000000000000000000000', // No specific token on remote
-        //     getTokenDecimals: (decoded: any[]) => Number(decoded[3]) // tokenDecimals
-        // },
-        // {
-        //     type: 'NativeRemote' as const,
-        //     abi: NativeTokenRemote.abi as viem.Abi,
-        //     expectedParams: 4, // settings (tuple), nativeAssetSymbol, initialReserveImbalance, burnedFeesReportingRewardPercentage
-        //     getCoinAddress: () => '0x0000000000000000000000000000000000000000', // Native on remote
-        //     getTokenDecimals: () => 18 // Always 18 for native tokens
-        // }
-    ];
-
-    for (const contractDef of contractsToCheck) {
-        try {
-            const decoded = decodeConstructorParams(txInput, contractDef.abi);
-            if (decoded && decoded.length === contractDef.expectedParams) {
-                const tokenDecimals = contractDef.getTokenDecimals(decoded);
-
-                // Sanity check for decimals
-                if (tokenDecimals > 0 && tokenDecimals < 100) {
-                    return {
-                        contractType: contractDef.type,
-                        decoded,
-                        coinAddress: contractDef.getCoinAddress(decoded),
-                        tokenDecimals
-                    };
-                }
-            }
-        } catch (error) {
-            // Continue to next contract type
+const detectICTTContract = (initcode: `0x${string}`, contractAddress: string, detectedVia: DetectionMethod = 'constructor'): ContractTypeDetection | null => {
+    const cached = detectionCache.get(contractAddress);
+    if (cached !== undefined) return cached;
+
+    let detection: ContractTypeDetection | null = null;
+
+    for (const contractDef of ICTT_CONTRACTS) {
+        const decoded = decodeConstructorArgs(initcode, constructorInputs(contractDef.abi), contractDef.bytecode);
+        detection = decoded && toDetection(contractDef, decoded, contractAddress, detectedVia);
+        if (detection) break;
+    }
+
+    if (!detection) {
+        for (const proxyInputs of PROXY_CONSTRUCTORS) {
+            const decoded = decodeConstructorArgs(initcode, proxyInputs);
+            if (!decoded) continue;
+
+            detection = detectFromInitializeCall(decoded[decoded.length - 1] as `0x${string}`, contractAddress, detectedVia === 'constructor' ? 'proxy' : detectedVia);
+            if (detection) break;
         }
     }
 
-    return null;
+    if (detectionCache.size >= DETECTION_CACHE_LIMIT) {
+        detectionCache.clear();
+    }
+    detectionCache.set(contractAddress, detection);
+
+    return detection;
 };
 
 
@@ -144,12 +306,51 @@ const detectICTTContract = (txInput: string, contractAddress: string): ContractT
 // Combine event hashes from all ABIs
 const events: Map<string, string> = new Map();
 
-// Home contract events (these are what we track in this indexer)
+// Home contract events. Remotes emit TokensSent, TokensAndCallSent, TokensWithdrawn and
+// CallSucceeded with the same signatures; their ERC20 events (Transfer, Approval, ...) are
+// deliberately not subscribed to
 const homeAbis = [
     ERC20TokenHome.abi as abiUtils.AbiItem[],
     NativeTokenHome.abi as abiUtils.AbiItem[]
 ];
 
+// Shared ICTT event signatures decode identically with any of these
+const icttAbis = [
+    ...homeAbis,
+    ERC20TokenRemote.abi as abiUtils.AbiItem[],
+    NativeTokenRemote.abi as abiUtils.AbiItem[]
+];
+
+const decodeIcttEvent = (log: { data: string; topics: string[] }): any => {
+    for (const abi of icttAbis) {
+        try {
+            return viem.decodeEventLog({
+                abi,
+                data: log.data as `0x${string}`,
+                topics: log.topics as [signature: `0x${string}`, ...args: `0x${string}`[]],
+            }).args;
+        } catch {
+            // Try next ABI
+        }
+    }
+    throw new Error(`Failed to decode ICTT event ${log.topics[0]}`);
+};
+
+// Addresses are sliced from topics and raw log data to keep them lowercase like RPC addresses
+const topicToAddress = (topic: string): string => `0x${topic.slice(26)}`;
+
+/**
+ * Recipient of the SendTokensInput/SendAndCallInput of a sent or routed event (recipient or
+ * recipientContract, the third field of both). SendTokensInput is static and encoded inline,
+ * SendAndCallInput has a dynamic recipientPayload so the tuple sits behind an offset
+ */
+const inputRecipient = (eventName: string, data: string): string => {
+    const words = data.slice(2);
+    const withCall = eventName === "TokensAndCallSent" || eventName === "TokensAndCallRouted";
+    const tupleStart = withCall ? Number(BigInt(`0x${words.slice(0, 64)}`)) * 2 : 0;
+    return `0x${words.slice(tupleStart + 2 * 64 + 24, tupleStart + 3 * 64)}`;
+};
+
 for (const abi of homeAbis) {
     const abiEvents = abiUtils.getEventHashesMap(abi);
     for (const [hash, name] of abiEvents) {
@@ -167,7 +368,7 @@ const eventHexes = Array.from(events.keys());
 
 const module: IndexingPlugin = {
     name: "ictt",
-    version: 9,
+    version: 22,
     usesTraces: false,
     filterEvents: [
         ...eventHexes,
@@ -180,20 +381,125 @@ const module: IndexingPlugin = {
             CREATE TABLE IF NOT EXISTS token_movements(
                 block_timestamp INTEGER NOT NULL, 
                 is_inbound BOOLEAN NOT NULL,
-                amount REAL NOT NULL,
+                amount REAL NOT NULL,           -- Human-readable, approximate. Use amount_raw for sums
+                amount_raw TEXT NOT NULL,       -- Base units as a decimal string, exact
                 pair_chain TEXT NOT NULL,
                 contract_address TEXT NOT NULL,
-                tx_hash TEXT NOT NULL
+                role TEXT NOT NULL,             -- 'home' | 'remote', role of contract_address
+                event_name TEXT NOT NULL,
+                tx_hash TEXT NOT NULL,
+                tx_index INTEGER NOT NULL,      -- Position of the tx in its block
+                tx_from TEXT NOT NULL,          -- Signer of the tx, the relayer for inbound movements
+                sender TEXT,                    -- Decoded sender of TokensSent/TokensAndCallSent, NULL otherwise
+                recipient TEXT                  -- Destination recipient (recipientContract for calls)
             );
+            -- Time ordered pages of transfers-list, with and without a contract or remote chain filter
+            CREATE INDEX IF NOT EXISTS idx_token_movements_ts ON token_movements(block_timestamp, tx_hash);
+            CREATE INDEX IF NOT EXISTS idx_token_movements_contract ON token_movements(contract_address, block_timestamp);
+            CREATE INDEX IF NOT EXISTS idx_token_movements_pair ON token_movements(pair_chain, block_timestamp);
+            CREATE INDEX IF NOT EXISTS idx_token_movements_sender ON token_movements(sender COLLATE NOCASE);
+            CREATE INDEX IF NOT EXISTS idx_token_movements_tx_from ON token_movements(tx_from COLLATE NOCASE);
+            CREATE INDEX IF NOT EXISTS idx_token_movements_recipient ON token_movements(recipient COLLATE NOCASE);
 
+            -- Holds both homes and remotes despite the name; home_* columns are only set for remotes
             CREATE TABLE IF NOT EXISTS recognized_token_homes(
-                contract_address TEXT NOT NULL,
-                coin_address TEXT NOT NULL,
+                contract_address TEXT NOT NULL, -- Lowercase, as log addresses come from the RPC
+                coin_address TEXT NOT NULL,     -- Checksummed, like addresses decoded by viem
                 token_decimals INTEGER NOT NULL,
                 contract_type TEXT NOT NULL,
+                role TEXT NOT NULL DEFAULT 'home',
+                home_blockchain_id TEXT,
+                home_address TEXT,              -- Checksummed
+                detected_via TEXT NOT NULL,     -- 'constructor' | 'proxy' | 'create2' | 'initialize' | 'probe'
                 at_least_one_remote_registered BOOLEAN NOT NULL DEFAULT 0,
                 PRIMARY KEY (contract_address)
             );
+
+            -- RemoteRegistered events of recognized homes, covers remotes on chains we don't index
+            CREATE TABLE IF NOT EXISTS registered_remotes(
+                home_address TEXT NOT NULL,
+                remote_blockchain_id TEXT NOT NULL,
+                remote_address TEXT NOT NULL,
+                initial_collateral_needed BOOLEAN NOT NULL,
+                token_decimals INTEGER NOT NULL,
+                block_timestamp INTEGER NOT NULL,
+                PRIMARY KEY (home_address, remote_blockchain_id, remote_address)
+            );
+
+            -- Unrecognized contracts emitting ICTT-only events, waiting for eth_call probes
+            CREATE TABLE IF NOT EXISTS ictt_candidates(
+                contract_address TEXT NOT NULL,
+                evidence_event TEXT NOT NULL,
+                first_seen_ts INTEGER NOT NULL,
+                status TEXT NOT NULL,           -- 'pending' | 'rejected'; recognized ones move to recognized_token_homes
+                probe_attempts INTEGER NOT NULL DEFAULT 0,
+                last_probe_ts INTEGER,
+                PRIMARY KEY (contract_address)
+            );
+
+            -- Movements of pending candidates with raw amounts, decimals are unknown until probed.
+            -- Moved to token_movements once the candidate is recognized
+            CREATE TABLE IF NOT EXISTS ictt_candidate_movements(
+                contract_address TEXT NOT NULL,
+                block_timestamp INTEGER NOT NULL,
+                is_inbound BOOLEAN NOT NULL,
+                amount TEXT NOT NULL,
+                pair_chain TEXT NOT NULL,
+                event_name TEXT NOT NULL,
+                tx_hash TEXT NOT NULL,
+                tx_index INTEGER NOT NULL,
+                tx_from TEXT NOT NULL,
+                sender TEXT,
+                recipient TEXT
+            );
+            CREATE INDEX IF NOT EXISTS idx_ictt_candidate_movements_contract ON ictt_candidate_movements(contract_address);
+
+            -- Collateral locked in homes per remote chain, one row per UTC day with home movements.
+            -- Days without movements have no row, their TVL is the previous row's
+            CREATE TABLE IF NOT EXISTS ictt_tvl_daily(
+                contract_address TEXT NOT NULL,  -- Home contract
+                pair_chain TEXT NOT NULL,        -- Remote chain
+                day_ts INTEGER NOT NULL,         -- UTC day start
+                coin_address TEXT NOT NULL,
+                net_raw TEXT NOT NULL,           -- Outbound minus inbound during the day, base units
+                tvl_raw TEXT NOT NULL,           -- Locked at the end of the day, base units
+                PRIMARY KEY (contract_address, pair_chain, day_ts)
+            );
+
+            -- CollateralAdded on homes: collateral deposited for remotes registered with initialCollateralNeeded.
+            -- Not a cross-chain movement, so kept out of token_movements and TVL
+            CREATE TABLE IF NOT EXISTS collateral_additions(
+                home_address TEXT NOT NULL,
+                remote_blockchain_id TEXT NOT NULL,
+                remote_address TEXT NOT NULL,
+                amount_raw TEXT NOT NULL,       -- Base units, exact
+                remaining_raw TEXT NOT NULL,    -- Collateral still needed after this deposit
+                block_timestamp INTEGER NOT NULL,
+                tx_hash TEXT NOT NULL
+            );
+
+            -- ERC20 name()/symbol()/decimals() of every coin_address in recognized_token_homes.
+            -- Fields are NULL when the call reverted. Rows with fetched_ts NULL are retried
+            CREATE TABLE IF NOT EXISTS token_metadata(
+                coin_address TEXT NOT NULL,
+                name TEXT,
+                symbol TEXT,
+                decimals INTEGER,
+                fetched_ts INTEGER,             -- Chain time of the successful fetch
+                last_attempt_ts INTEGER NOT NULL,
+                PRIMARY KEY (coin_address)
+            );
+
+            -- USD price of one whole home coin per UTC day, from the sources in lib/tokenPrices.
+            -- price_usd is NULL when no source had one, such days are retried. The API falls back to the closest earlier price
+            CREATE TABLE IF NOT EXISTS token_prices(
+                coin_address TEXT NOT NULL,
+                day_ts INTEGER NOT NULL,
+                price_usd REAL,
+                source TEXT,                    -- 'static-json' | 'csv' | 'http'
+                last_attempt_ts INTEGER NOT NULL,
+                PRIMARY KEY (coin_address, day_ts)
+            );
         `);
     },
 
@@ -201,6 +507,8 @@ const module: IndexingPlugin = {
         const pendingRegistrations: PendingRegistration[] = [];
         const movements: TokenMovement[] = [];
         const homesWithRemoteRegistered: Set<string> = new Set();
+        const remoteRegistrations: RemoteRegistration[] = [];
+        const collateralAdditions: CollateralAddition[] = [];
 
         // Load all recognized homes into memory for quick lookup
         const recognizedHomes = new Map<string, RecognizedHome>();
@@ -210,32 +518,58 @@ const module: IndexingPlugin = {
             recognizedHomes.set(home.contract_address, home);
         }
 
-        // First pass: Collect all deployments and events
-        for (const { tx, receipt, blockTs } of batch.txs) {
+        const candidates = new Map<string, Candidate>();
+        for (const candidate of db.prepare('SELECT * FROM ictt_candidates').all() as Candidate[]) {
+            candidates.set(candidate.contract_address, candidate);
+        }
+        const changedCandidates = new Set<string>();
 
+        const register = (contractAddress: string, detection: ContractTypeDetection | null) => {
+            if (!detection || recognizedHomes.has(contractAddress)) return;
 
-            // Check if this is a contract creation
-            if (receipt.contractAddress) {
-                const contractAddress = receipt.contractAddress;
-                const detection = detectICTTContract(tx.input as string, contractAddress);
+            const role = ROLE_BY_CONTRACT_TYPE[detection.contractType];
 
-                // Log unknown contracts for debugging
-                if (detection) {
-                    pendingRegistrations.push({
-                        contractAddress: contractAddress,
-                        coinAddress: detection.coinAddress,
-                        tokenDecimals: detection.tokenDecimals,
-                        contractType: detection.contractType
-                    });
+            pendingRegistrations.push({
+                contractAddress: contractAddress,
+                coinAddress: detection.coinAddress,
+                tokenDecimals: detection.tokenDecimals,
+                contractType: detection.contractType,
+                role,
+                homeBlockchainId: detection.homeBlockchainId,
+                homeAddress: detection.homeAddress,
+                detectedVia: detection.detectedVia
+            });
 
-                    recognizedHomes.set(contractAddress, {
-                        contract_address: contractAddress,
-                        coin_address: detection.coinAddress,
-                        token_decimals: detection.tokenDecimals,
-                        contract_type: detection.contractType,
-                        at_least_one_remote_registered: 0
-                    });
+            recognizedHomes.set(contractAddress, {
+                contract_address: contractAddress,
+                coin_address: detection.coinAddress,
+                token_decimals: detection.tokenDecimals,
+                contract_type: detection.contractType,
+                role,
+                at_least_one_remote_registered: 0
+            });
+        };
+
+        // First pass: Collect all deployments and events
+        for (const { tx, receipt, blockTs } of batch.txs) {
+            const input = tx.input as `0x${string}`;
+            const txIndex = parseInt(tx.transactionIndex);
+
+            // Check if this is a contract creation, directly or behind a proxy
+            if (receipt.contractAddress) {
+                register(receipt.contractAddress, detectICTTContract(input, receipt.contractAddress));
+            } else if (tx.to === CREATE2_DEPLOYER && input.length > 66) {
+                // Take the address from the new contract's Initialized log, it is lowercase unlike getContractAddress()
+                const salt = `0x${input.slice(2, 66)}` as `0x${string}`;
+                const initcode = `0x${input.slice(66)}` as `0x${string}`;
+                const created = viem.getContractAddress({ opcode: 'CREATE2', from: CREATE2_DEPLOYER, salt, bytecode: initcode });
+                const initLog = receipt.logs.find(log => log.topics[0] === INITIALIZED_TOPIC && viem.isAddressEqual(log.address as `0x${string}`, created));
+                if (initLog) {
+                    register(initLog.address, detectICTTContract(initcode, initLog.address, 'create2'));
                 }
+            } else if (tx.to && !recognizedHomes.has(tx.to) && receipt.logs.some(log => log.topics[0] === INITIALIZED_TOPIC && log.address === tx.to)) {
+                // Proxy deployed without init data and initialized in a later tx
+                register(tx.to, detectFromInitializeCall(input, tx.to, 'initialize'));
             }
 
             // Check for ICTT events
@@ -251,30 +585,66 @@ const module: IndexingPlugin = {
 
                 const contractAddress = log.address;
 
-                // Only process events for recognized home contracts
+                // Only process events for recognized contracts and candidates waiting for probes
                 if (!recognizedHomes.has(contractAddress)) {
+                    if (!candidates.has(contractAddress) && CANDIDATE_EVIDENCE_EVENTS.includes(eventName)) {
+                        try {
+                            decodeIcttEvent(log);
+                            candidates.set(contractAddress, {
+                                contract_address: contractAddress,
+                                evidence_event: eventName,
+                                first_seen_ts: blockTs,
+                                status: 'pending',
+                                probe_attempts: 0,
+                                last_probe_ts: null
+                            });
+                            changedCandidates.add(contractAddress);
+                        } catch {
+                            // Same topic, different data layout
+                        }
+                    }
+
+                    if (candidates.get(contractAddress)?.status !== 'pending') {
+                        continue;
+                    }
+                }
+
+                if (eventName === "RemoteRegistered") {
+                    const args = decodeIcttEvent(log);
+                    remoteRegistrations.push({
+                        homeAddress: contractAddress,
+                        remoteBlockchainId: encodingUtils.hexToCB58(args.remoteBlockchainID),
+                        // Take the address from the topic to keep it lowercase like RPC addresses
+                        remoteAddress: topicToAddress(log.topics[2]!),
+                        initialCollateralNeeded: args.initialCollateralNeeded > 0n,
+                        tokenDecimals: Number(args.tokenDecimals),
+                        blockTimestamp: blockTs
+                    });
+                    continue;
+                }
+
+                if (eventName === "CollateralAdded") {
+                    // Candidates can't have remotes needing collateral before they're recognized
+                    if (!recognizedHomes.has(contractAddress)) continue;
+                    const args = decodeIcttEvent(log);
+                    collateralAdditions.push({
+                        homeAddress: contractAddress,
+                        remoteBlockchainId: encodingUtils.hexToCB58(args.remoteBlockchainID),
+                        remoteAddress: topicToAddress(log.topics[2]!),
+                        amount: args.amount,
+                        remaining: args.remaining,
+                        blockTimestamp: blockTs,
+                        txHash: tx.hash
+                    });
                     continue;
                 }
 
-                // Handle outbound token movement events
+                // Handle outbound token movement events. Remotes always send to their home,
+                // but destinationBlockchainID is the final destination of multi-hop transfers
                 const outboundEvents = ["TokensSent", "TokensAndCallSent"];
 
                 if (outboundEvents.includes(eventName)) {
-                    // Decode event arguments (try both ABIs)
-                    let args;
-                    try {
-                        args = viem.decodeEventLog({
-                            abi: ERC20TokenHome.abi as abiUtils.AbiItem[],
-                            data: log.data as `0x${string}`,
-                            topics: log.topics as [signature: `0x${string}`, ...args: `0x${string}`[]],
-                        }).args as any;
-                    } catch {
-                        args = viem.decodeEventLog({
-                            abi: NativeTokenHome.abi as abiUtils.AbiItem[],
-                            data: log.data as `0x${string}`,
-                            topics: log.topics as [signature: `0x${string}`, ...args: `0x${string}`[]],
-                        }).args as any;
-                    }
+                    const args = decodeIcttEvent(log);
 
                     const pairChain = encodingUtils.hexToCB58(args.input.destinationBlockchainID);
                     const amount = args.amount;
@@ -285,70 +655,180 @@ const module: IndexingPlugin = {
                         amount: amount,
                         pairChain: pairChain,
                         contractAddress: contractAddress,
-                        txHash: tx.hash
+                        eventName,
+                        txHash: tx.hash,
+                        txIndex,
+                        txFrom: tx.from,
+                        sender: topicToAddress(log.topics[2]!),
+                        recipient: inputRecipient(eventName, log.data)
                     });
                 }
 
-                // Handle inbound transfers via CallSucceeded
-                if (eventName === "CallSucceeded") {
-                    // Decode CallSucceeded event
-                    let args;
-                    try {
-                        args = viem.decodeEventLog({
-                            abi: ERC20TokenHome.abi as abiUtils.AbiItem[],
-                            data: log.data as `0x${string}`,
-                            topics: log.topics as [signature: `0x${string}`, ...args: `0x${string}`[]],
-                        }).args as any;
-                    } catch {
-                        args = viem.decodeEventLog({
-                            abi: NativeTokenHome.abi as abiUtils.AbiItem[],
-                            data: log.data as `0x${string}`,
-                            topics: log.topics as [signature: `0x${string}`, ...args: `0x${string}`[]],
-                        }).args as any;
-                    }
+                // Inbound events need the source chain from MessageExecuted in the same receipt.
+                // CallFailed still delivers: the amount goes to the fallback recipient
+                const inboundEvents = ["CallSucceeded", "CallFailed", "TokensWithdrawn", "TokensRouted", "TokensAndCallRouted"];
+                if (!inboundEvents.includes(eventName)) {
+                    continue;
+                }
 
-                    // Look for MessageExecuted event in the same receipt to get source blockchain
-                    let sourceBlockchainID: string | null = null;
-                    for (const otherLog of receipt.logs) {
-                        if (otherLog.topics[0] === TELEPORTER_MESSAGE_EXECUTED_HASH) {
-                            // This is a MessageExecuted event
-                            // sourceBlockchainID is the second indexed parameter (topics[2])
-                            if (otherLog.topics[2]) {
-                                sourceBlockchainID = otherLog.topics[2];
-                                break;
-                            }
+                const args = decodeIcttEvent(log);
+
+                // Look for MessageExecuted event in the same receipt to get source blockchain
+                let sourceBlockchainID: string | null = null;
+                for (const otherLog of receipt.logs) {
+                    if (otherLog.topics[0] === TELEPORTER_MESSAGE_EXECUTED_HASH) {
+                        // This is a MessageExecuted event
+                        // sourceBlockchainID is the second indexed parameter (topics[2])
+                        if (otherLog.topics[2]) {
+                            sourceBlockchainID = otherLog.topics[2];
+                            break;
                         }
                     }
+                }
 
-                    if (sourceBlockchainID) {
-                        const pairChain = encodingUtils.hexToCB58(sourceBlockchainID);
-                        const amount = args.amount;
-
-                        movements.push({
-                            blockTimestamp: blockTs,
-                            isInbound: true,
-                            amount: amount,
-                            pairChain: pairChain,
-                            contractAddress: contractAddress,
-                            txHash: tx.hash
-                        });
-                    }
+                if (!sourceBlockchainID) {
+                    continue;
+                }
+
+                // Delivered events index the recipient, routed ones carry the final recipient in their input.
+                // The original sender lives on the source chain
+                const isRouted = eventName === "TokensRouted" || eventName === "TokensAndCallRouted";
+                const recipient = isRouted ? inputRecipient(eventName, log.data) : topicToAddress(log.topics[1]!);
+
+                movements.push({
+                    blockTimestamp: blockTs,
+                    isInbound: true,
+                    amount: args.amount,
+                    pairChain: encodingUtils.hexToCB58(sourceBlockchainID),
+                    contractAddress: contractAddress,
+                    eventName,
+                    txHash: tx.hash,
+                    txIndex,
+                    txFrom: tx.from,
+                    sender: null,
+                    recipient
+                });
+
+                // Multi-hop: the home forwards what came in from one remote to another one.
+                // Recorded as an inbound leg from the source and an outbound leg to the destination
+                if (isRouted) {
+                    movements.push({
+                        blockTimestamp: blockTs,
+                        isInbound: false,
+                        amount: args.amount,
+                        pairChain: encodingUtils.hexToCB58(args.input.destinationBlockchainID),
+                        contractAddress: contractAddress,
+                        eventName,
+                        txHash: tx.hash,
+                        txIndex,
+                        txFrom: tx.from,
+                        sender: null,
+                        recipient
+                    });
+                }
+            }
+        }
+
+        // Apply the probes finished since the last batch, then request the due candidates still without one.
+        // The chain id comes from the txs since indexers get no chain context
+        const evmChainId = batch.txs.map(({ tx }) => txEvmChainId(tx)).find(id => id !== null) ?? null;
+        const batchTs = batch.txs.length > 0 ? batch.txs[batch.txs.length - 1]!.blockTs : 0;
+        const recognizedCandidates: string[] = [];
+        const rejectedCandidates: string[] = [];
+
+        if (evmChainId !== null) {
+            for (const [contractAddress, outcome] of probeLookup.take(evmChainId)) {
+                const candidate = candidates.get(contractAddress);
+                // Resolved meanwhile, or gone after a reindex
+                if (candidate?.status !== 'pending') continue;
+
+                if (outcome === 'unreachable') {
+                    candidate.probe_attempts++;
+                    candidate.last_probe_ts = batchTs;
+                    changedCandidates.add(candidate.contract_address);
+                } else if (outcome === 'rejected') {
+                    candidate.status = 'rejected';
+                    changedCandidates.add(candidate.contract_address);
+                    rejectedCandidates.push(candidate.contract_address);
+                } else {
+                    console.log(`ICTT ${outcome.contractType} recognized by probe: ${candidate.contract_address} (evidence: ${candidate.evidence_event})`);
+                    register(candidate.contract_address, { ...outcome, decoded: [], detectedVia: 'probe' });
+                    candidates.delete(candidate.contract_address);
+                    recognizedCandidates.push(candidate.contract_address);
+                }
+            }
+
+            const dueCandidates = Array.from(candidates.values()).filter(candidate =>
+                candidate.status === 'pending' && (candidate.last_probe_ts === null || candidate.last_probe_ts + PROBE_RETRY_SECONDS <= batchTs)
+            );
+            probeLookup.request(evmChainId, dueCandidates.map(candidate => candidate.contract_address));
+        }
+
+        // Backfill movements recorded while the contract was a candidate
+        if (recognizedCandidates.length > 0) {
+            const selectStmt = db.prepare('SELECT * FROM ictt_candidate_movements WHERE contract_address = ?');
+            const registeredStmt = db.prepare('SELECT 1 FROM registered_remotes WHERE home_address = ? LIMIT 1');
+
+            for (const contractAddress of recognizedCandidates) {
+                for (const row of selectStmt.all(contractAddress) as CandidateMovementRow[]) {
+                    movements.push({
+                        blockTimestamp: row.block_timestamp,
+                        isInbound: row.is_inbound === 1,
+                        amount: BigInt(row.amount),
+                        pairChain: row.pair_chain,
+                        contractAddress,
+                        eventName: row.event_name,
+                        txHash: row.tx_hash,
+                        txIndex: row.tx_index,
+                        txFrom: row.tx_from,
+                        sender: row.sender,
+                        recipient: row.recipient
+                    });
+                }
+
+                if (registeredStmt.get(contractAddress)) {
+                    homesWithRemoteRegistered.add(contractAddress);
                 }
             }
         }
 
         // Database operations
 
-        // 1. Register pending contracts (from constructor)
+        // 0. Candidate bookkeeping
+        if (changedCandidates.size > 0 || recognizedCandidates.length > 0) {
+            const upsertStmt = db.prepare(`
+                INSERT OR REPLACE INTO ictt_candidates
+                (contract_address, evidence_event, first_seen_ts, status, probe_attempts, last_probe_ts)
+                VALUES (?, ?, ?, ?, ?, ?)
+            `);
+            const deleteStmt = db.prepare('DELETE FROM ictt_candidates WHERE contract_address = ?');
+            const deleteMovementsStmt = db.prepare('DELETE FROM ictt_candidate_movements WHERE contract_address = ?');
+
+            for (const contractAddress of changedCandidates) {
+                const candidate = candidates.get(contractAddress);
+                if (!candidate) continue; // Recognized within this batch
+                upsertStmt.run(candidate.contract_address, candidate.evidence_event, candidate.first_seen_ts,
+                    candidate.status, candidate.probe_attempts, candidate.last_probe_ts);
+            }
+            for (const contractAddress of recognizedCandidates) {
+                deleteStmt.run(contractAddress);
+                deleteMovementsStmt.run(contractAddress);
+            }
+            for (const contractAddress of rejectedCandidates) {
+                deleteMovementsStmt.run(contractAddress);
+            }
+        }
+
+        // 1. Register pending contracts (from constructor or probes)
         if (pendingRegistrations.length > 0) {
             const stmt = db.prepare(`
                 INSERT OR IGNORE INTO recognized_token_homes 
-                (contract_address, coin_address, token_decimals, contract_type, at_least_one_remote_registered) 
-                VALUES (?, ?, ?, ?, 0)
+                (contract_address, coin_address, token_decimals, contract_type, role, home_blockchain_id, home_address, detected_via, at_least_one_remote_registered) 
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, 0)
             `);
 
             for (const reg of pendingRegistrations) {
-                stmt.run(reg.contractAddress, reg.coinAddress, reg.tokenDecimals, reg.contractType);
+                stmt.run(reg.contractAddress, reg.coinAddress, reg.tokenDecimals, reg.contractType, reg.role, reg.homeBlockchainId, reg.homeAddress, reg.detectedVia);
             }
         }
 
@@ -356,13 +836,27 @@ const module: IndexingPlugin = {
         if (movements.length > 0) {
             const insertStmt = db.prepare(`
                 INSERT INTO token_movements 
-                (block_timestamp, is_inbound, amount, pair_chain, contract_address, tx_hash) 
-                VALUES (?, ?, ?, ?, ?, ?)
+                (block_timestamp, is_inbound, amount, amount_raw, pair_chain, contract_address, role, event_name, tx_hash, tx_index, tx_from, sender, recipient) 
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            `);
+            const insertCandidateStmt = db.prepare(`
+                INSERT INTO ictt_candidate_movements
+                (contract_address, block_timestamp, is_inbound, amount, pair_chain, event_name, tx_hash, tx_index, tx_from, sender, recipient)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
             `);
 
             for (const movement of movements) {
-                // Already verified contract is recognized in event processing
-                const contractInfo = recognizedHomes.get(movement.contractAddress)!;
+                // Contract is either recognized or a candidate, checked in event processing
+                const contractInfo = recognizedHomes.get(movement.contractAddress);
+                if (!contractInfo) {
+                    // Dropped if the candidate was rejected in this batch
+                    if (candidates.get(movement.contractAddress)?.status === 'pending') {
+                        insertCandidateStmt.run(movement.contractAddress, movement.blockTimestamp, movement.isInbound ? 1 : 0,
+                            movement.amount.toString(), movement.pairChain, movement.eventName, movement.txHash,
+                            movement.txIndex, movement.txFrom, movement.sender, movement.recipient);
+                    }
+                    continue;
+                }
                 const decimals = contractInfo.token_decimals;
                 const divisor = BigInt(10) ** BigInt(decimals);
 
@@ -376,11 +870,70 @@ const module: IndexingPlugin = {
                     movement.blockTimestamp,
                     movement.isInbound ? 1 : 0,
                     humanAmount,
+                    movement.amount.toString(),
                     movement.pairChain,
                     movement.contractAddress,
-                    movement.txHash
+                    contractInfo.role,
+                    movement.eventName,
+                    movement.txHash,
+                    movement.txIndex,
+                    movement.txFrom,
+                    movement.sender,
+                    movement.recipient
                 );
             }
+
+            // Daily TVL snapshots, homes only: remote movements mirror the same collateral
+            const tvlDeltas = new Map<string, TvlDelta>();
+            for (const movement of movements) {
+                const contractInfo = recognizedHomes.get(movement.contractAddress);
+                if (!contractInfo || contractInfo.role !== 'home') continue;
+
+                const dayTs = Math.floor(movement.blockTimestamp / DAY_SECONDS) * DAY_SECONDS;
+                const key = `${movement.contractAddress}:${movement.pairChain}:${dayTs}`;
+                let delta = tvlDeltas.get(key);
+                if (!delta) {
+                    delta = { contractAddress: movement.contractAddress, pairChain: movement.pairChain, coinAddress: contractInfo.coin_address, dayTs, net: 0n };
+                    tvlDeltas.set(key, delta);
+                }
+                delta.net += movement.isInbound ? -movement.amount : movement.amount;
+            }
+
+            if (tvlDeltas.size > 0) {
+                const previousStmt = db.prepare(`
+                    SELECT day_ts, net_raw, tvl_raw FROM ictt_tvl_daily
+                    WHERE contract_address = ? AND pair_chain = ? AND day_ts <= ?
+                    ORDER BY day_ts DESC LIMIT 1
+                `);
+                const laterStmt = db.prepare(`
+                    SELECT day_ts, net_raw, tvl_raw FROM ictt_tvl_daily
+                    WHERE contract_address = ? AND pair_chain = ? AND day_ts > ?
+                `);
+                const upsertStmt = db.prepare(`
+                    INSERT OR REPLACE INTO ictt_tvl_daily
+                    (contract_address, pair_chain, day_ts, coin_address, net_raw, tvl_raw)
+                    VALUES (?, ?, ?, ?, ?, ?)
+                `);
+                const updateTvlStmt = db.prepare(`
+                    UPDATE ictt_tvl_daily SET tvl_raw = ?
+                    WHERE contract_address = ? AND pair_chain = ? AND day_ts = ?
+                `);
+
+                const sortedDeltas = Array.from(tvlDeltas.values()).sort((a, b) => a.dayTs - b.dayTs);
+                for (const delta of sortedDeltas) {
+                    const previous = previousStmt.get(delta.contractAddress, delta.pairChain, delta.dayTs) as TvlDailyRow | undefined;
+                    const sameDay = previous?.day_ts === delta.dayTs;
+                    const net = (sameDay ? BigInt(previous.net_raw) : 0n) + delta.net;
+                    const tvl = (previous ? BigInt(previous.tvl_raw) : 0n) + delta.net;
+                    upsertStmt.run(delta.contractAddress, delta.pairChain, delta.dayTs, delta.coinAddress, net.toString(), tvl.toString());
+
+                    // Only backfilled candidate movements land before existing days
+                    const later = laterStmt.all(delta.contractAddress, delta.pairChain, delta.dayTs) as TvlDailyRow[];
+                    for (const row of later) {
+                        updateTvlStmt.run((BigInt(row.tvl_raw) + delta.net).toString(), delta.contractAddress, delta.pairChain, row.day_ts);
+                    }
+                }
+            }
         }
 
         // 3. Update at_least_one_remote_registered flag for buffered contracts
@@ -394,6 +947,87 @@ const module: IndexingPlugin = {
                 updateStmt.run(contractAddress);
             }
         }
+
+        // 4. Collateral deposits
+        if (collateralAdditions.length > 0) {
+            const stmt = db.prepare(`
+                INSERT INTO collateral_additions
+                (home_address, remote_blockchain_id, remote_address, amount_raw, remaining_raw, block_timestamp, tx_hash)
+                VALUES (?, ?, ?, ?, ?, ?, ?)
+            `);
+            for (const addition of collateralAdditions) {
+                stmt.run(addition.homeAddress, addition.remoteBlockchainId, addition.remoteAddress,
+                    addition.amount.toString(), addition.remaining.toString(), addition.blockTimestamp, addition.txHash);
+            }
+        }
+
+        // 5. Remember which remotes each home registered
+        if (remoteRegistrations.length > 0) {
+            const stmt = db.prepare(`
+                INSERT OR IGNORE INTO registered_remotes
+                (home_address, remote_blockchain_id, remote_address, initial_collateral_needed, token_decimals, block_timestamp)
+                VALUES (?, ?, ?, ?, ?, ?)
+            `);
+            for (const reg of remoteRegistrations) {
+                stmt.run(reg.homeAddress, reg.remoteBlockchainId, reg.remoteAddress, reg.initialCollateralNeeded ? 1 : 0, reg.tokenDecimals, reg.blockTimestamp);
+            }
+        }
+
+        // 6. Token metadata for coins without it, read in the background like the probes. The native coin of NativeTokenRemote chains has no contract
+        if (evmChainId !== null) {
+            const upsertStmt = db.prepare(`
+                INSERT OR REPLACE INTO token_metadata
+                (coin_address, name, symbol, decimals, fetched_ts, last_attempt_ts)
+                VALUES (?, ?, ?, ?, ?, ?)
+            `);
+            for (const [coinAddress, metadata] of metadataLookup.take(evmChainId)) {
+                if (metadata === 'unreachable') {
+                    upsertStmt.run(coinAddress, null, null, null, null, batchTs);
+                } else {
+                    upsertStmt.run(coinAddress, metadata.name, metadata.symbol, metadata.decimals, batchTs, batchTs);
+                }
+            }
+
+            const missingCoins = (db.prepare(`
+                SELECT DISTINCT rth.coin_address FROM recognized_token_homes rth
+                LEFT JOIN token_metadata tmd ON tmd.coin_address = rth.coin_address
+                WHERE rth.coin_address != ?
+                  AND (tmd.coin_address IS NULL OR (tmd.fetched_ts IS NULL AND tmd.last_attempt_ts + ? <= ?))
+            `).all(ZERO_ADDRESS, PROBE_RETRY_SECONDS, batchTs) as Array<{ coin_address: string }>).map(row => row.coin_address);
+            metadataLookup.request(evmChainId, missingCoins);
+        }
+
+        // 7. Daily USD prices of home coins for the days this batch touched, including backfilled movements.
+        // Looked up in the background like the metadata, days already stored are not asked again
+        if (evmChainId !== null) {
+            const upsertStmt = db.prepare(`
+                INSERT OR REPLACE INTO token_prices (coin_address, day_ts, price_usd, source, last_attempt_ts)
+                VALUES (?, ?, ?, ?, ?)
+            `);
+            for (const [key, price] of priceLookup.take(evmChainId)) {
+                const [coinAddress, dayTs] = key.split(':');
+                upsertStmt.run(coinAddress, Number(dayTs), price?.priceUsd ?? null, price?.source ?? null, batchTs);
+            }
+
+            const days = new Set<number>();
+            for (const { blockTs } of batch.txs) days.add(Math.floor(blockTs / DAY_SECONDS) * DAY_SECONDS);
+            for (const movement of movements) days.add(Math.floor(movement.blockTimestamp / DAY_SECONDS) * DAY_SECONDS);
+
+            const missingStmt = db.prepare(`
+                SELECT DISTINCT rth.coin_address, tmd.symbol FROM recognized_token_homes rth
+                LEFT JOIN token_metadata tmd ON tmd.coin_address = rth.coin_address
+                LEFT JOIN token_prices tp ON tp.coin_address = rth.coin_address AND tp.day_ts = ?
+                WHERE rth.role = 'home'
+                  AND (tp.coin_address IS NULL OR (tp.price_usd IS NULL AND tp.last_attempt_ts + ? <= ?))
+            `);
+            const missingPrices: string[] = [];
+            for (const dayTs of days) {
+                for (const coin of missingStmt.all(dayTs, PROBE_RETRY_SECONDS, batchTs) as Array<{ coin_address: string; symbol: string | null }>) {
+                    missingPrices.push(dailyPriceKey(coin.coin_address, dayTs, coin.symbol));
+                }
+            }
+            priceLookup.request(evmChainId, missingPrices);
+        }
     }
 
 }
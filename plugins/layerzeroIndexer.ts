@@ -1,105 +1,324 @@
 import { type IndexingPlugin, abiUtils, viem } from "frostbyte-sdk";
 import DexalotLayerZeroEndpointV2ABI from './abi/DexalotLayerZeroEndpointV2ABI.json';
+import LayerZeroUltraLightNodeV2ABI from './abi/LayerZeroUltraLightNodeV2ABI.json';
+import LayerZeroSendUln302ABI from './abi/LayerZeroSendUln302ABI.json';
+import { txEvmChainId } from './lib/chainContext';
+import { eidForEvmChainId, lookupEid, toV2Eid } from './lib/layerzeroEids';
 
-// Extract PacketSent and PacketVerified event hashes
+// Extract PacketSent and PacketVerified event hashes of EndpointV2, Packet and PacketReceived of
+// the V1 UltraLightNodeV2 (the V1 endpoint itself emits neither)
 const lzEvents: Map<string, string> = new Map();
 const abi = DexalotLayerZeroEndpointV2ABI as abiUtils.AbiItem[];
-const abiEventHashes = abiUtils.getEventHashesMap(abi);
-for (const [hash, name] of abiEventHashes) {
+for (const [hash, name] of abiUtils.getEventHashesMap(abi)) {
     if (name === 'PacketSent' || name === 'PacketVerified') {
         lzEvents.set(hash, name);
     }
 }
+const v1Abi = LayerZeroUltraLightNodeV2ABI as abiUtils.AbiItem[];
+for (const [hash, name] of abiUtils.getEventHashesMap(v1Abi)) {
+    if (name === 'Packet' || name === 'PacketReceived') {
+        lzEvents.set(hash, name);
+    }
+}
 
 const eventHexes = Array.from(lzEvents.keys());
 
+// Worker fees paid by the V2 send library (SendUln302) right before the endpoint emits PacketSent.
+// Not part of filterEvents: they only matter in txs that also have a PacketSent
+const feeAbi = LayerZeroSendUln302ABI as abiUtils.AbiItem[];
+const feeEvents: Map<string, string> = new Map(abiUtils.getEventHashesMap(feeAbi));
+
+interface WorkerFees {
+    executor: string | null;
+    executorFee: bigint | null;
+    dvnFee: bigint | null;
+    dvnCount: number | null;
+}
+
+interface PacketHeader {
+    protocolVersion: 1 | 2;
+    nonce: number;
+    srcEid: number; // V1 chain ID for V1 packets
+    sender: string;
+    dstEid: number;
+    receiver: string;
+    guid: string | null; // Unknown for PacketVerified until the local EID is known, V1 packets have none
+    payloadHash: string;
+}
+
+interface LayerZeroMessage extends PacketHeader, WorkerFees {
+    txFrom: string;
+    gasCost: bigint; // Gas cost of the tx split evenly across its LayerZero packets, wei
+    isOutgoing: boolean;
+    blockTimestamp: number;
+    otherEid: number;
+    txHash: string;
+}
+
+interface UnresolvedGuidRow {
+    rowid: number;
+    protocol_version: number;
+    nonce: number;
+    src_eid: number;
+    sender_oapp: string;
+    receiver_oapp: string;
+}
+
+// Packet header (PacketV1Codec): version(1) + nonce(8) + srcEid(4) + sender(32) + dstEid(4) + receiver(32) + guid(32), then the message.
+// Offsets in hex chars without the 0x prefix
+const NONCE_OFFSET = 2;
+const SRC_EID_OFFSET = 18;
+const SENDER_OFFSET = 26;
+const DST_EID_OFFSET = 90;
+const RECEIVER_OFFSET = 98;
+const GUID_OFFSET = 162;
+const MESSAGE_OFFSET = 226;
+
+// V1 packet (UltraLightNodeV2): nonce(8) + srcChainId(2) + ua(20) + dstChainId(2) + dstAddress, then the payload
+const V1_SRC_CHAIN_ID_OFFSET = 16;
+const V1_SENDER_OFFSET = 20;
+const V1_DST_CHAIN_ID_OFFSET = 60;
+const V1_DST_ADDRESS_OFFSET = 64;
+
 /**
- * Decodes the destination chain ID from PacketSent event's encodedPayload
- * Packet structure: version(1) + nonce(8) + srcEid(4) + sender(32) + dstEid(4) + receiver(32)
+ * OApp addresses are bytes32 in LayerZero. EVM addresses are left-padded with zeros and
+ * stored as 20-byte addresses; anything else (Solana, Aptos, ...) keeps the full 32 bytes
  */
-function decodeDstEidFromPayload(encodedPayload: string): number {
+function bytes32ToOApp(hex: string): string {
+    return hex.length === 64 && hex.startsWith('000000000000000000000000') ? `0x${hex.slice(24)}` : `0x${hex}`;
+}
+
+// keccak256(nonce, srcEid, sender, dstEid, receiver) as in GUID.generate of EndpointV2
+function computeGuid(nonce: number, srcEid: number, sender: string, dstEid: number, receiver: string): string {
+    return viem.keccak256(viem.encodePacked(
+        ['uint64', 'uint32', 'bytes32', 'uint32', 'bytes32'],
+        [BigInt(nonce), srcEid, viem.pad(sender as `0x${string}`), dstEid, viem.pad(receiver as `0x${string}`)]
+    ));
+}
+
+/**
+ * Decodes the packet header from PacketSent's encodedPayload. The payload hash is
+ * keccak256(guid + message), the value PacketVerified reports on the destination
+ */
+function decodePacketSent(encodedPayload: string): PacketHeader {
     // Remove 0x prefix if present
     const payload = encodedPayload.startsWith('0x') ? encodedPayload.slice(2) : encodedPayload;
 
-    // Skip: version(1) + nonce(8) + srcEid(4) + sender(32) = 45 bytes = 90 hex chars
-    // dstEid is next 4 bytes = 8 hex chars
-    const dstEidHex = payload.slice(90, 98);
+    return {
+        protocolVersion: 2,
+        nonce: parseInt(payload.slice(NONCE_OFFSET, SRC_EID_OFFSET), 16),
+        srcEid: parseInt(payload.slice(SRC_EID_OFFSET, SENDER_OFFSET), 16),
+        sender: bytes32ToOApp(payload.slice(SENDER_OFFSET, DST_EID_OFFSET)),
+        dstEid: parseInt(payload.slice(DST_EID_OFFSET, RECEIVER_OFFSET), 16),
+        receiver: bytes32ToOApp(payload.slice(RECEIVER_OFFSET, GUID_OFFSET)),
+        guid: `0x${payload.slice(GUID_OFFSET, MESSAGE_OFFSET)}`,
+        payloadHash: viem.keccak256(`0x${payload.slice(GUID_OFFSET)}`)
+    };
+}
+
+/**
+ * Decodes Packet(bytes payload) of UltraLightNodeV2, abi.encodePacked(nonce, srcChainId, ua, dstChainId,
+ * dstAddress, payload). The destination address length depends on the destination chain: 32 bytes for
+ * non-EVM chains of the EID registry, 20 otherwise. The payload hash is keccak256(payload), the value
+ * PacketReceived reports on the destination
+ */
+function decodeV1Packet(encodedPayload: string): PacketHeader {
+    const payload = encodedPayload.startsWith('0x') ? encodedPayload.slice(2) : encodedPayload;
+
+    const dstEid = parseInt(payload.slice(V1_DST_CHAIN_ID_OFFSET, V1_DST_ADDRESS_OFFSET), 16);
+    const messageOffset = V1_DST_ADDRESS_OFFSET + (lookupEid(dstEid)?.evmChainId === null ? 64 : 40);
+
+    return {
+        protocolVersion: 1,
+        nonce: parseInt(payload.slice(0, V1_SRC_CHAIN_ID_OFFSET), 16),
+        srcEid: parseInt(payload.slice(V1_SRC_CHAIN_ID_OFFSET, V1_SENDER_OFFSET), 16),
+        sender: `0x${payload.slice(V1_SENDER_OFFSET, V1_DST_CHAIN_ID_OFFSET)}`,
+        dstEid,
+        receiver: bytes32ToOApp(payload.slice(V1_DST_ADDRESS_OFFSET, messageOffset)),
+        guid: null,
+        payloadHash: viem.keccak256(`0x${payload.slice(messageOffset)}`)
+    };
+}
+
+/**
+ * Decodes PacketVerified(Origin origin, address receiver, bytes32 payloadHash) from the raw
+ * log data words: srcEid, sender, nonce, receiver, payloadHash. Slicing keeps addresses lowercase.
+ * The destination EID is the local one, so the GUID needs it passed in
+ */
+function decodePacketVerified(data: string, localEid: number | null): PacketHeader {
+    const words = data.slice(2);
+    const word = (index: number) => words.slice(index * 64, (index + 1) * 64);
+
+    const srcEid = parseInt(word(0), 16);
+    const sender = bytes32ToOApp(word(1));
+    const nonce = parseInt(word(2), 16);
+    const receiver = bytes32ToOApp(word(3));
+
+    return {
+        protocolVersion: 2,
+        nonce,
+        srcEid,
+        sender,
+        dstEid: localEid ?? 0,
+        receiver,
+        guid: localEid === null ? null : computeGuid(nonce, srcEid, sender, localEid, receiver),
+        payloadHash: `0x${word(4)}`
+    };
+}
 
-    // Convert hex to number
-    return parseInt(dstEidHex, 16);
+/**
+ * Decodes PacketReceived(uint16 indexed srcChainId, bytes srcAddress, address indexed dstAddress, uint64 nonce,
+ * bytes32 payloadHash) of UltraLightNodeV2. The destination chain ID is the local V1 one, null until known
+ */
+function decodeV1PacketReceived(log: { data: string; topics: string[] }, localEid: number | null): PacketHeader {
+    const decoded = viem.decodeEventLog({
+        abi: v1Abi,
+        data: log.data as `0x${string}`,
+        topics: log.topics as [signature: `0x${string}`, ...args: `0x${string}`[]],
+    });
+    const args = decoded.args as any;
+
+    return {
+        protocolVersion: 1,
+        nonce: Number(args.nonce),
+        srcEid: Number(args.srcChainId),
+        sender: bytes32ToOApp((args.srcAddress as string).slice(2)),
+        dstEid: localEid === null ? 0 : localEid - 30000,
+        receiver: `0x${log.topics[2]!.slice(26)}`,
+        guid: null,
+        payloadHash: args.payloadHash
+    };
 }
 
 const module: IndexingPlugin = {
     name: "layerzero_messages",
-    version: 2,
+    version: 6,
     usesTraces: false,
     filterEvents: eventHexes,
 
     initialize: (db) => {
         db.exec(`
             CREATE TABLE IF NOT EXISTS layerzero_messages (
-                sender TEXT NOT NULL,
+                sender TEXT NOT NULL,           -- tx.from, the executor for inbound packets
                 is_outgoing BOOLEAN NOT NULL,
                 block_timestamp INTEGER NOT NULL,
-                chain_id INTEGER NOT NULL
+                chain_id INTEGER NOT NULL,      -- V2 EID of the other chain: dstEid for outgoing, srcEid for incoming
+                tx_hash TEXT NOT NULL,
+                protocol_version INTEGER NOT NULL, -- 1: UltraLightNodeV2 Packet/PacketReceived, 2: EndpointV2 PacketSent/PacketVerified
+                nonce INTEGER NOT NULL,
+                src_eid INTEGER NOT NULL,       -- V1 chain IDs for V1 packets
+                sender_oapp TEXT NOT NULL,      -- 20-byte address for EVM OApps, full bytes32 otherwise
+                dst_eid INTEGER,                -- NULL for incoming packets until the local EID is known
+                receiver_oapp TEXT NOT NULL,
+                guid TEXT,                      -- NULL for incoming V2 packets until the local EID is known, always NULL for V1
+                payload_hash TEXT NOT NULL,
+                gas_cost REAL NOT NULL,         -- Native token, tx gas cost split across the tx's packets
+                executor TEXT,                  -- ExecutorFeePaid of outgoing V2 packets, NULL otherwise
+                executor_fee REAL,              -- Native token
+                dvn_fee REAL,                   -- Native token, sum of DVNFeePaid fees
+                dvn_count INTEGER               -- Required + optional DVNs paid
             )
         `);
 
         db.exec(`
-            CREATE INDEX IF NOT EXISTS idx_layerzero_messages_time_direction 
+            CREATE INDEX IF NOT EXISTS idx_layerzero_messages_time_direction
             ON layerzero_messages(block_timestamp, is_outgoing)
         `);
+
+        db.exec(`
+            CREATE INDEX IF NOT EXISTS idx_layerzero_messages_guid
+            ON layerzero_messages(guid)
+        `);
     },
 
     handleTxBatch: (db, blocksDb, batch) => {
         // Accumulate messages in memory
-        const layerzeroMessages: {
-            sender: string;
-            is_outgoing: boolean;
-            block_timestamp: number;
-            chain_id: number;
-        }[] = [];
+        const layerzeroMessages: LayerZeroMessage[] = [];
+
+        // The local V2 EID is needed for the GUID and destination of incoming packets. It is the srcEid of any
+        // packet this chain sent, or comes from the EID registry by the chain id of the batch's txs
+        const localEidRow = db.prepare('SELECT src_eid FROM layerzero_messages WHERE is_outgoing = 1 LIMIT 1').get() as { src_eid: number } | undefined;
+        const evmChainId = batch.txs.map(({ tx }) => txEvmChainId(tx)).find(id => id !== null) ?? null;
+        let localEid: number | null = localEidRow ? toV2Eid(localEidRow.src_eid) : (evmChainId === null ? null : eidForEvmChainId(evmChainId));
+        const localEidKnownBefore = localEidRow !== undefined;
 
         for (const { tx, receipt, blockTs } of batch.txs) {
+            const packetCount = receipt.logs.filter(log => log.topics[0] && lzEvents.has(log.topics[0])).length;
+            if (packetCount === 0) continue;
+            const gasCost = BigInt(receipt.gasUsed || '0') * BigInt(receipt.effectiveGasPrice || '0') / BigInt(packetCount);
+
+            // Fees seen since the previous PacketSent of this tx
+            let pendingFees: WorkerFees = { executor: null, executorFee: null, dvnFee: null, dvnCount: null };
+
             for (const log of receipt.logs) {
                 const eventSignature = log.topics[0];
                 if (!eventSignature) continue;
 
+                const feeEventName = feeEvents.get(eventSignature);
+                if (feeEventName) {
+                    try {
+                        const decoded = viem.decodeEventLog({
+                            abi: feeAbi,
+                            data: log.data as `0x${string}`,
+                            topics: log.topics as [signature: `0x${string}`, ...args: `0x${string}`[]],
+                        });
+                        const args = decoded.args as any;
+                        if (feeEventName === 'ExecutorFeePaid') {
+                            // Slicing the data word keeps the address lowercase
+                            pendingFees.executor = `0x${log.data.slice(26, 66)}`;
+                            pendingFees.executorFee = args.fee;
+                        } else {
+                            pendingFees.dvnFee = (args.fees as bigint[]).reduce((sum, fee) => sum + fee, 0n);
+                            pendingFees.dvnCount = args.requiredDVNs.length + args.optionalDVNs.length;
+                        }
+                    } catch (error) {
+                        console.error(`Failed to decode LayerZero event ${feeEventName}:`, error);
+                    }
+                    continue;
+                }
+
                 // Check if this is a LayerZero event
                 const eventName = lzEvents.get(eventSignature);
                 if (!eventName) continue;
 
-                const is_outgoing = eventName === 'PacketSent';
-                let chain_id: number;
+                const isOutgoing = eventName === 'PacketSent' || eventName === 'Packet';
 
                 try {
-                    if (is_outgoing) {
-                        // For PacketSent, decode dstEid from encodedPayload
+                    let header: PacketHeader;
+                    if (isOutgoing) {
+                        // For PacketSent and Packet, decode the header from the encoded packet
                         const decoded = viem.decodeEventLog({
-                            abi: abi,
+                            abi: eventName === 'Packet' ? v1Abi : abi,
                             data: log.data as `0x${string}`,
                             topics: log.topics as [signature: `0x${string}`, ...args: `0x${string}`[]],
                         });
 
-                        const encodedPayload = (decoded.args as any).encodedPayload;
-                        chain_id = decodeDstEidFromPayload(encodedPayload);
+                        header = eventName === 'Packet'
+                            ? decodeV1Packet((decoded.args as any).payload)
+                            : decodePacketSent((decoded.args as any).encodedPayload);
+                        localEid ??= toV2Eid(header.srcEid);
                     } else {
-                        // For PacketVerified, decode srcEid from origin tuple
-                        const decoded = viem.decodeEventLog({
-                            abi: abi,
-                            data: log.data as `0x${string}`,
-                            topics: log.topics as [signature: `0x${string}`, ...args: `0x${string}`[]],
-                        });
+                        header = eventName === 'PacketReceived'
+                            ? decodeV1PacketReceived(log, localEid)
+                            : decodePacketVerified(log.data, localEid);
+                    }
 
-                        const origin = (decoded.args as any).origin;
-                        chain_id = Number(origin.srcEid);
+                    const fees: WorkerFees = eventName === 'PacketSent'
+                        ? pendingFees
+                        : { executor: null, executorFee: null, dvnFee: null, dvnCount: null };
+                    if (eventName === 'PacketSent') {
+                        pendingFees = { executor: null, executorFee: null, dvnFee: null, dvnCount: null };
                     }
 
                     layerzeroMessages.push({
-                        sender: tx.from,
-                        is_outgoing,
-                        block_timestamp: blockTs,
-                        chain_id,
+                        ...header,
+                        ...fees,
+                        gasCost,
+                        txFrom: tx.from,
+                        isOutgoing,
+                        blockTimestamp: blockTs,
+                        otherEid: toV2Eid(isOutgoing ? header.dstEid : header.srcEid),
+                        txHash: tx.hash
                     });
                 } catch (error) {
                     console.error(`Failed to decode LayerZero event ${eventName}:`, error);
@@ -109,18 +328,53 @@ const module: IndexingPlugin = {
             }
         }
 
+        // Incoming packets of this batch seen before its first outgoing one
+        if (localEid !== null) {
+            for (const msg of layerzeroMessages) {
+                if (msg.isOutgoing || msg.dstEid !== 0) continue;
+                if (msg.protocolVersion === 1) {
+                    msg.dstEid = localEid - 30000;
+                } else {
+                    msg.dstEid = localEid;
+                    msg.guid = computeGuid(msg.nonce, msg.srcEid, msg.sender, localEid, msg.receiver);
+                }
+            }
+        }
+
         // Insert messages into database
         if (layerzeroMessages.length > 0) {
             const insertStmt = db.prepare(`
-                INSERT INTO layerzero_messages (sender, is_outgoing, block_timestamp, chain_id) 
-                VALUES (?, ?, ?, ?)
+                INSERT INTO layerzero_messages
+                (sender, is_outgoing, block_timestamp, chain_id, tx_hash, protocol_version, nonce, src_eid, sender_oapp, dst_eid, receiver_oapp, guid, payload_hash,
+                 gas_cost, executor, executor_fee, dvn_fee, dvn_count)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
             `);
 
             for (const msg of layerzeroMessages) {
-                insertStmt.run(msg.sender, msg.is_outgoing ? 1 : 0, msg.block_timestamp, msg.chain_id);
+                // Convert from wei to ETH/AVAX (divide by 10^18)
+                insertStmt.run(msg.txFrom, msg.isOutgoing ? 1 : 0, msg.blockTimestamp, msg.otherEid, msg.txHash, msg.protocolVersion,
+                    msg.nonce, msg.srcEid, msg.sender, msg.dstEid === 0 ? null : msg.dstEid, msg.receiver, msg.guid, msg.payloadHash,
+                    Number(msg.gasCost) / 1e18, msg.executor, msg.executorFee === null ? null : Number(msg.executorFee) / 1e18,
+                    msg.dvnFee === null ? null : Number(msg.dvnFee) / 1e18, msg.dvnCount);
+            }
+        }
+
+        // Local EID learned in this batch: fill in incoming packets indexed before it
+        if (!localEidKnownBefore && localEid !== null) {
+            const unresolved = db.prepare(`
+                SELECT rowid, protocol_version, nonce, src_eid, sender_oapp, receiver_oapp FROM layerzero_messages WHERE dst_eid IS NULL
+            `).all() as UnresolvedGuidRow[];
+            const updateStmt = db.prepare('UPDATE layerzero_messages SET dst_eid = ?, guid = ? WHERE rowid = ?');
+
+            for (const row of unresolved) {
+                if (row.protocol_version === 1) {
+                    updateStmt.run(localEid - 30000, null, row.rowid);
+                } else {
+                    updateStmt.run(localEid, computeGuid(row.nonce, row.src_eid, row.sender_oapp, localEid, row.receiver_oapp), row.rowid);
+                }
             }
         }
     }
 };
 
-export default module;
\ No newline at end of file
+export default module;
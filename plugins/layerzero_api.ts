@@ -0,0 +1,322 @@
+import type { ApiPlugin } from "frostbyte-sdk";
+import { resolveEidChain } from "./lib/layerzeroEids";
+import { collectLayerZeroDeliveries } from "./lib/layerzeroDelivery";
+import { type LatencyStats, computeStats, latencyStatsProperties } from "./lib/latencyStats";
+
+type OAppStats = {
+    address: string;
+    messages: number;
+    outbound: number;
+    inbound: number;
+    peers: Array<{ eid: number; chainName: string }>;
+    lastSeen: number;
+}
+
+type ChainOApps = {
+    evmChainId: number;
+    chainName: string;
+    blockchainId: string;
+    totalMessages: number;
+    oappCount: number;
+    oapps: OAppStats[];
+}
+
+type LatencyBucket = LatencyStats & {
+    bucketTs: number;
+}
+
+type PathwayDelivery = LatencyStats & {
+    sourceEid: number;
+    sourceChainName: string;
+    destinationEid: number;
+    destinationChainName: string;
+    sent: number;
+    verified: number;
+    unverified: number;
+    payloadHashMismatches: number;
+    buckets: LatencyBucket[];
+}
+
+type PathwayKey = `${number}->${number}`;
+
+const BUCKET_SECONDS = {
+    hour: 3600,
+    day: 86400
+} as const;
+
+interface OAppRow {
+    oapp: string;
+    messages: number;
+    outbound: number;
+    inbound: number;
+    peer_eids: string; // Comma separated by GROUP_CONCAT
+    last_seen: number;
+}
+
+const module: ApiPlugin = {
+    name: "layerzero_api",
+    requiredIndexers: ['layerzero_messages'],
+
+    registerRoutes: (app, dbCtx) => {
+        // Local OApps ranked by message count on every chain
+        app.get<{
+            Querystring: { startTs?: number; endTs?: number; limit?: number }
+        }>('/api/global/layerzero/oapps', {
+            schema: {
+                tags: ["Cross-Chain Messaging"],
+                description: 'LayerZero OApps of each indexed chain ranked by message count. The local OApp is the sender of PacketSent (decoded from the encodedPayload packet header) and the receiver of PacketVerified on the chain\'s EndpointV2, or the ua of Packet and the dstAddress of PacketReceived on the V1 UltraLightNodeV2. peers are the V2 endpoint IDs of the other side (V1 chain IDs + 30000), named from the EID registry. Addresses of EVM OApps are 20 bytes, non-EVM peers keep the full bytes32.',
+                querystring: {
+                    type: 'object',
+                    properties: {
+                        startTs: {
+                            type: 'number',
+                            description: 'Start timestamp (Unix, default: 30 days ago)'
+                        },
+                        endTs: {
+                            type: 'number',
+                            description: 'End timestamp (Unix, default: now)'
+                        },
+                        limit: {
+                            type: 'number',
+                            minimum: 1,
+                            maximum: 1000,
+                            description: 'OApps returned per chain (default: 50)'
+                        }
+                    },
+                    additionalProperties: false
+                },
+                response: {
+                    200: {
+                        type: 'array',
+                        items: {
+                            type: 'object',
+                            properties: {
+                                evmChainId: { type: 'number' },
+                                chainName: { type: 'string' },
+                                blockchainId: { type: 'string' },
+                                totalMessages: { type: 'number', description: 'Outbound + inbound packets of both endpoint versions on the chain in the period' },
+                                oappCount: { type: 'number', description: 'Distinct local OApps in the period, before limit' },
+                                oapps: {
+                                    type: 'array',
+                                    items: {
+                                        type: 'object',
+                                        properties: {
+                                            address: { type: 'string', description: 'Local OApp contract' },
+                                            messages: { type: 'number' },
+                                            outbound: { type: 'number', description: 'PacketSent/Packet with this OApp as sender' },
+                                            inbound: { type: 'number', description: 'PacketVerified/PacketReceived with this OApp as receiver' },
+                                            peers: {
+                                                type: 'array',
+                                                items: {
+                                                    type: 'object',
+                                                    properties: {
+                                                        eid: { type: 'number' },
+                                                        chainName: { type: 'string', description: '"EID <id>" if not in the registry' }
+                                                    },
+                                                    required: ['eid', 'chainName']
+                                                }
+                                            },
+                                            lastSeen: { type: 'number', description: 'Block timestamp of the latest message' }
+                                        },
+                                        required: ['address', 'messages', 'outbound', 'inbound', 'peers', 'lastSeen']
+                                    }
+                                }
+                            },
+                            required: ['evmChainId', 'chainName', 'blockchainId', 'totalMessages', 'oappCount', 'oapps']
+                        }
+                    }
+                }
+            }
+        }, async (request, reply) => {
+            const now = Math.floor(Date.now() / 1000);
+            const startTs = request.query.startTs || now - (30 * 86400);
+            const endTs = request.query.endTs || now;
+            const limit = request.query.limit || 50;
+
+            const configs = dbCtx.getAllChainConfigs();
+            const results: ChainOApps[] = [];
+
+            for (const config of configs) {
+                try {
+                    const lzConn = dbCtx.getIndexerDbConnection(config.evmChainId, 'layerzero_messages');
+
+                    const rows = lzConn.prepare(`
+                        SELECT
+                            CASE WHEN is_outgoing = 1 THEN sender_oapp ELSE receiver_oapp END as oapp,
+                            COUNT(*) as messages,
+                            SUM(is_outgoing) as outbound,
+                            SUM(1 - is_outgoing) as inbound,
+                            GROUP_CONCAT(DISTINCT chain_id) as peer_eids,
+                            MAX(block_timestamp) as last_seen
+                        FROM layerzero_messages
+                        WHERE block_timestamp > ? AND block_timestamp <= ?
+                        GROUP BY oapp
+                        ORDER BY messages DESC
+                    `).all(startTs, endTs) as OAppRow[];
+
+                    if (rows.length === 0) continue;
+
+                    results.push({
+                        evmChainId: config.evmChainId,
+                        chainName: config.chainName,
+                        blockchainId: config.blockchainId,
+                        totalMessages: rows.reduce((sum, row) => sum + row.messages, 0),
+                        oappCount: rows.length,
+                        oapps: rows.slice(0, limit).map(row => ({
+                            address: row.oapp,
+                            messages: row.messages,
+                            outbound: row.outbound,
+                            inbound: row.inbound,
+                            peers: row.peer_eids.split(',').map(Number).sort((a, b) => a - b)
+                                .map(eid => ({ eid, chainName: resolveEidChain(eid, configs).chainName })),
+                            lastSeen: row.last_seen
+                        }))
+                    });
+                } catch (error) {
+                    console.error(`Error processing chain ${config.chainName}:`, error);
+                }
+            }
+
+            results.sort((a, b) => b.totalMessages - a.totalMessages);
+
+            return reply.send(results);
+        });
+
+        app.get<{
+            Querystring: { days?: number; bucket?: 'hour' | 'day'; minAge?: number }
+        }>('/api/global/layerzero/delivery', {
+            schema: {
+                tags: ["Cross-Chain Messaging"],
+                description: 'LayerZero delivery per pathway between indexed chains. Packets are correlated by GUID (V2: PacketSent on the source, PacketVerified on the destination) or by srcEid, sender, dstEid, receiver and nonce (V1: Packet and PacketReceived of UltraLightNodeV2). Latency is the verification block timestamp minus the send block timestamp; buckets are keyed by send time. Unverified packets were sent at least minAge seconds ago and have no verification indexed on the destination.',
+                querystring: {
+                    type: 'object',
+                    properties: {
+                        days: {
+                            type: 'number',
+                            minimum: 1,
+                            maximum: 90,
+                            description: 'Number of days to analyze (default: 7)'
+                        },
+                        bucket: {
+                            type: 'string',
+                            enum: ['hour', 'day'],
+                            description: 'Bucket size for the time series (default: day)'
+                        },
+                        minAge: {
+                            type: 'number',
+                            minimum: 0,
+                            description: 'Seconds after sending before a packet without verification counts as unverified (default: 3600)'
+                        }
+                    },
+                    additionalProperties: false
+                },
+                response: {
+                    200: {
+                        type: 'array',
+                        items: {
+                            type: 'object',
+                            properties: {
+                                sourceEid: { type: 'number', description: 'V2 endpoint ID, also for V1 packets' },
+                                sourceChainName: { type: 'string' },
+                                destinationEid: { type: 'number' },
+                                destinationChainName: { type: 'string' },
+                                sent: { type: 'number', description: 'Packets sent in the period' },
+                                verified: { type: 'number', description: 'Packets sent in the period with a verification indexed' },
+                                unverified: { type: 'number', description: 'Packets sent at least minAge ago without verification' },
+                                payloadHashMismatches: { type: 'number', description: 'Verified packets whose payload hash differs from the sent one' },
+                                ...latencyStatsProperties,
+                                buckets: {
+                                    type: 'array',
+                                    items: {
+                                        type: 'object',
+                                        properties: {
+                                            bucketTs: { type: 'number', description: 'Bucket start (Unix)' },
+                                            ...latencyStatsProperties
+                                        },
+                                        required: ['bucketTs', 'messageCount', 'p50', 'p90', 'p99']
+                                    }
+                                }
+                            },
+                            required: ['sourceEid', 'sourceChainName', 'destinationEid', 'destinationChainName', 'sent', 'verified',
+                                'unverified', 'payloadHashMismatches', 'messageCount', 'p50', 'p90', 'p99', 'buckets']
+                        }
+                    }
+                }
+            }
+        }, async (request, reply) => {
+            const days = request.query.days || 7;
+            const bucketSeconds = BUCKET_SECONDS[request.query.bucket || 'day'];
+            const minAge = request.query.minAge ?? 3600;
+
+            const now = Math.floor(Date.now() / 1000);
+            const fromTs = now - days * 86400;
+
+            const pathways = new Map<PathwayKey, Omit<PathwayDelivery, keyof LatencyStats | 'buckets'> & { latencies: Map<number, number[]> }>();
+
+            for (const delivery of collectLayerZeroDeliveries(dbCtx, fromTs).values()) {
+                // Both ends must be indexed for the delivery to be observable
+                if (delivery.sentAt === null || delivery.destinationEvmChainId === null) continue;
+
+                const key: PathwayKey = `${delivery.sourceEid}->${delivery.destinationEid}`;
+                let pathway = pathways.get(key);
+                if (!pathway) {
+                    pathway = {
+                        sourceEid: delivery.sourceEid,
+                        sourceChainName: delivery.sourceChainName,
+                        destinationEid: delivery.destinationEid,
+                        destinationChainName: delivery.destinationChainName,
+                        sent: 0,
+                        verified: 0,
+                        unverified: 0,
+                        payloadHashMismatches: 0,
+                        latencies: new Map()
+                    };
+                    pathways.set(key, pathway);
+                }
+
+                pathway.sent++;
+                if (delivery.payloadHashMatches === false) pathway.payloadHashMismatches++;
+
+                if (delivery.deliveryLatency === null) {
+                    if (delivery.sentAt <= now - minAge) pathway.unverified++;
+                    continue;
+                }
+
+                pathway.verified++;
+                const bucketTs = Math.floor(delivery.sentAt / bucketSeconds) * bucketSeconds;
+                const latencies = pathway.latencies.get(bucketTs) || [];
+                latencies.push(delivery.deliveryLatency);
+                pathway.latencies.set(bucketTs, latencies);
+            }
+
+            const results: PathwayDelivery[] = [];
+
+            for (const { latencies, ...pathway } of pathways.values()) {
+                const allLatencies: number[] = [];
+                const bucketStats: LatencyBucket[] = [];
+
+                for (const [bucketTs, bucketLatencies] of latencies) {
+                    for (const latency of bucketLatencies) {
+                        allLatencies.push(latency);
+                    }
+                    bucketStats.push({ bucketTs, ...computeStats(bucketLatencies) });
+                }
+
+                bucketStats.sort((a, b) => a.bucketTs - b.bucketTs);
+
+                results.push({
+                    ...pathway,
+                    ...computeStats(allLatencies),
+                    buckets: bucketStats
+                });
+            }
+
+            // Busiest pathways first
+            results.sort((a, b) => b.sent - a.sent);
+
+            return reply.send(results);
+        });
+    }
+};
+
+export default module;
@@ -0,0 +1,46 @@
+export interface BackgroundLookup<T> {
+    // Starts looking up the keys that are neither in flight nor finished and waiting to be taken
+    request: (evmChainId: number, keys: string[]) => void;
+    // Finished results of the chain, each handed out once
+    take: (evmChainId: number) => Map<string, T>;
+}
+
+/**
+ * Runs async lookups (RPC calls, HTTP) for an indexer, whose handleTxBatch has to stay synchronous.
+ * A batch requests keys, they are looked up in the background, and a later batch of the same chain
+ * takes the results and writes them. Results live in memory only: a result taken by a batch that
+ * fails is lost, and the indexer requests the key again
+ */
+export function createBackgroundLookup<T>(name: string, lookup: (evmChainId: number, keys: string[]) => Promise<Map<string, T>>): BackgroundLookup<T> {
+    const inFlight = new Map<number, Set<string>>();
+    const finished = new Map<number, Map<string, T>>();
+
+    const request = (evmChainId: number, keys: string[]) => {
+        const chainInFlight = inFlight.get(evmChainId) ?? new Set<string>();
+        inFlight.set(evmChainId, chainInFlight);
+        const chainFinished = finished.get(evmChainId);
+
+        const newKeys = Array.from(new Set(keys)).filter(key => !chainInFlight.has(key) && !chainFinished?.has(key));
+        if (newKeys.length === 0) return;
+        for (const key of newKeys) chainInFlight.add(key);
+
+        lookup(evmChainId, newKeys)
+            .then(results => {
+                const chainResults = finished.get(evmChainId) ?? new Map<string, T>();
+                for (const [key, value] of results) chainResults.set(key, value);
+                finished.set(evmChainId, chainResults);
+            })
+            .catch(error => console.error(`${name} lookup failed on chain ${evmChainId}:`, error))
+            .finally(() => {
+                for (const key of newKeys) chainInFlight.delete(key);
+            });
+    };
+
+    const take = (evmChainId: number) => {
+        const results = finished.get(evmChainId) ?? new Map<string, T>();
+        finished.delete(evmChainId);
+        return results;
+    };
+
+    return { request, take };
+}
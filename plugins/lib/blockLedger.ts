@@ -0,0 +1,94 @@
+import type { IndexingPlugin } from "frostbyte-sdk";
+
+type IndexerDb = Parameters<IndexingPlugin['initialize']>[0];
+type BatchTx = Parameters<IndexingPlugin['handleTxBatch']>[2]['txs'][number];
+
+// Per-block contributions are kept this far behind the last indexed block, older blocks can't be rolled back
+export const ROLLBACK_WINDOW_BLOCKS = 10000;
+
+/**
+ * Aggregate indexers that keep a per-block ledger of what each block added to their counters.
+ * rollbackBlocks subtracts every block >= fromBlock from the aggregates and drops its ledger rows.
+ * The SDK has no rollback hook, so it only runs from the indexer's own handleTxBatch when planBatch
+ * finds re-delivered blocks. It touches only the keys found in the reverted ledger rows
+ */
+export interface BlockRollbackPlugin extends IndexingPlugin {
+    rollbackBlocks: (db: IndexerDb, fromBlock: number) => void;
+}
+
+export interface PlannedBatch {
+    txs: BatchTx[]; // Txs to aggregate
+    rollbackFromBlock: number | null; // First re-delivered block, contributions from here on must be rolled back before writing
+}
+
+export function txBlockNumber(tx: BatchTx): number {
+    return parseInt(tx.receipt.blockNumber, 16);
+}
+
+/**
+ * Creates indexed_block_range, the range of blocks that contributed to the aggregates of the indexer
+ */
+export function initBlockRange(db: IndexerDb): void {
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS indexed_block_range (
+            id INTEGER PRIMARY KEY CHECK (id = 1),
+            first_block INTEGER NOT NULL,
+            last_block INTEGER NOT NULL
+        )
+    `);
+}
+
+/**
+ * Sorts a batch against the indexed block range. Blocks past the range are new. Blocks inside the
+ * rollback window were seen before (replay or reorg) and are re-applied after rolling back everything
+ * from the first of them on, the way a reorg invalidates all descendants. Re-delivered blocks older
+ * than the window are already counted and skipped.
+ * Assumes a block is never split across batches.
+ */
+export function planBatch(db: IndexerDb, txs: BatchTx[]): PlannedBatch {
+    const range = db.prepare('SELECT first_block, last_block FROM indexed_block_range WHERE id = 1').get() as { first_block: number; last_block: number } | undefined;
+    if (!range) return { txs, rollbackFromBlock: null };
+
+    const windowStart = range.last_block - ROLLBACK_WINDOW_BLOCKS + 1;
+    const kept = txs.filter(tx => txBlockNumber(tx) >= windowStart);
+    if (kept.length === 0) return { txs: kept, rollbackFromBlock: null };
+
+    const firstBlock = kept.reduce((min, tx) => Math.min(min, txBlockNumber(tx)), Infinity);
+    return { txs: kept, rollbackFromBlock: firstBlock <= range.last_block ? firstBlock : null };
+}
+
+/**
+ * Moves the end of the indexed block range to the last block of the applied batch and prunes ledger
+ * rows that fell out of the rollback window. Call after the batch was written.
+ */
+export function finishBatch(db: IndexerDb, txs: BatchTx[], ledgerTables: string[]): void {
+    if (txs.length === 0) return;
+
+    let firstBlock = Infinity;
+    let lastBlock = 0;
+    for (const tx of txs) {
+        const blockNumber = txBlockNumber(tx);
+        if (blockNumber < firstBlock) firstBlock = blockNumber;
+        if (blockNumber > lastBlock) lastBlock = blockNumber;
+    }
+
+    // A rolled back range ends at the batch even if it reached further before
+    db.prepare(`
+        INSERT INTO indexed_block_range (id, first_block, last_block)
+        VALUES (1, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET
+            first_block = MIN(first_block, excluded.first_block),
+            last_block = excluded.last_block
+    `).run(firstBlock, lastBlock);
+
+    for (const table of ledgerTables) {
+        db.prepare(`DELETE FROM ${table} WHERE block_number <= ?`).run(lastBlock - ROLLBACK_WINDOW_BLOCKS);
+    }
+}
+
+/**
+ * Rewinds the indexed block range after a rollback, so the next batch starting at fromBlock counts as new
+ */
+export function rewindBlockRange(db: IndexerDb, fromBlock: number): void {
+    db.prepare('UPDATE indexed_block_range SET last_block = MIN(last_block, ?) WHERE id = 1').run(fromBlock - 1);
+}
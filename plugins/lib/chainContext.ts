@@ -0,0 +1,53 @@
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+export interface ChainsJsonEntry {
+    chainName: string;
+    blockchainId: string;
+    evmChainId: number;
+    [key: string]: unknown;
+}
+
+/**
+ * Data directory passed to the frostbyte CLI with -d (or --data-dir). Plugins get no access to it from
+ * the SDK, so it is read from the process arguments, falling back to data/ next to plugins/ as in the
+ * dev script and the container layout
+ */
+function resolveDataDir(): string {
+    const args = process.argv;
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i]!;
+        if ((arg === "-d" || arg === "--data-dir") && args[i + 1]) return path.resolve(args[i + 1]!);
+        if (arg.startsWith("--data-dir=")) return path.resolve(arg.slice("--data-dir=".length));
+    }
+    return fileURLToPath(new URL("../../data/", import.meta.url));
+}
+
+export const DATA_DIR = resolveDataDir();
+
+// Indexers get no chain context from the SDK, so chain config is read directly from chains.json
+const CHAINS_CONFIG_PATH = path.join(DATA_DIR, "chains.json");
+
+let chainsCache: ChainsJsonEntry[] | null = null;
+
+export function readChainsJson(): ChainsJsonEntry[] {
+    if (chainsCache) return chainsCache;
+    chainsCache = [];
+    if (!fs.existsSync(CHAINS_CONFIG_PATH)) return chainsCache;
+
+    try {
+        chainsCache = JSON.parse(fs.readFileSync(CHAINS_CONFIG_PATH, "utf8")) as ChainsJsonEntry[];
+    } catch (error) {
+        console.error(`Failed to read ${CHAINS_CONFIG_PATH}:`, error);
+    }
+    return chainsCache;
+}
+
+/**
+ * EVM chain id of a tx from its chainId field. Pre-EIP-155 legacy txs have none.
+ */
+export function txEvmChainId(tx: object): number | null {
+    const chainId = (tx as { chainId?: string }).chainId;
+    return chainId ? parseInt(chainId, 16) : null;
+}
@@ -0,0 +1,110 @@
+import { viem } from "frostbyte-sdk";
+
+type Hex = `0x${string}`;
+
+// Upper bound for the dynamic part (strings, bytes, arrays) of constructor args when scanning from the end
+const MAX_TAIL_WORDS = 256;
+
+// solc constructors find their args with `PUSHn <initcode length> CODESIZE SUB`, legacy and via-IR alike
+const SOLC_ARGS_PROLOGUE = /(?:61([0-9a-f]{4})|62([0-9a-f]{6}))3803/g;
+const PROLOGUE_SEARCH_CHARS = 2 + 200 * 2; // first 200 bytes of initcode
+
+const isDynamic = (param: viem.AbiParameter): boolean => {
+    if (param.type === 'string' || param.type === 'bytes' || param.type.endsWith('[]')) return true;
+    const fixedArray = param.type.match(/^(.*)\[(\d+)\]$/);
+    if (fixedArray) return isDynamic({ ...param, type: fixedArray[1]! });
+    if (param.type === 'tuple') return componentsOf(param).some(isDynamic);
+    return false;
+};
+
+const componentsOf = (param: viem.AbiParameter): readonly viem.AbiParameter[] =>
+    (param as { components?: readonly viem.AbiParameter[] }).components ?? [];
+
+// Bytes a param takes in the head of the encoding: 32 for dynamic params (the offset), full size otherwise
+const headSize = (param: viem.AbiParameter): number => {
+    if (isDynamic(param)) return 32;
+    const fixedArray = param.type.match(/^(.*)\[(\d+)\]$/);
+    if (fixedArray) return Number(fixedArray[2]) * headSize({ ...param, type: fixedArray[1]! });
+    if (param.type === 'tuple') return componentsOf(param).reduce((sum, component) => sum + headSize(component), 0);
+    return 32;
+};
+
+interface ArgsLayout {
+    inputs: readonly viem.AbiParameter[];
+    headBytes: number;
+    // Position (hex chars after 0x) and expected value of the first offset word, if any input is dynamic.
+    // Canonical encoding puts the first dynamic value right after the head
+    firstOffset: { position: number; word: string } | null;
+}
+
+const getLayout = (inputs: readonly viem.AbiParameter[]): ArgsLayout => {
+    const headBytes = inputs.reduce((sum, input) => sum + headSize(input), 0);
+
+    let position = 0;
+    for (const input of inputs) {
+        if (isDynamic(input)) {
+            return { inputs, headBytes, firstOffset: { position, word: headBytes.toString(16).padStart(64, '0') } };
+        }
+        position += headSize(input) * 2;
+    }
+    return { inputs, headBytes, firstOffset: null };
+};
+
+/**
+ * Decodes args and accepts them only if they re-encode to the exact same bytes.
+ * Bytecode mistaken for args almost never survives this: dirty address/uint8
+ * padding, offsets that don't point where canonical encoding would put them, etc.
+ */
+const tryDecode = ({ inputs, firstOffset }: ArgsLayout, args: Hex): readonly unknown[] | null => {
+    if ((args.length - 2) % 64 !== 0) return null;
+    // Cheap rejection before the full decode
+    if (firstOffset && args.slice(2 + firstOffset.position, 2 + firstOffset.position + 64) !== firstOffset.word) return null;
+    try {
+        const decoded = viem.decodeAbiParameters(inputs, args);
+        return viem.encodeAbiParameters(inputs, decoded as readonly unknown[]) === args ? decoded : null;
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Finds and decodes ABI-encoded constructor args appended to creation input.
+ * Tries, in order: a known creation bytecode prefix, the initcode length solc
+ * embeds in the constructor prologue, and finally every plausible args length
+ * counted back from the end of the input.
+ * @param initcode - Creation bytecode followed by the encoded constructor args
+ * @param inputs - Constructor inputs from the ABI
+ * @param knownBytecode - Creation bytecode of the expected artifact, if available
+ * @returns Decoded args or null if initcode doesn't end with valid args for inputs
+ */
+export const decodeConstructorArgs = (initcode: Hex, inputs: readonly viem.AbiParameter[], knownBytecode?: Hex): readonly unknown[] | null => {
+    if (inputs.length === 0) return null;
+    const layout = getLayout(inputs);
+
+    if (knownBytecode && initcode.length > knownBytecode.length && initcode.startsWith(knownBytecode)) {
+        const decoded = tryDecode(layout, `0x${initcode.slice(knownBytecode.length)}`);
+        if (decoded) return decoded;
+    }
+
+    for (const match of initcode.slice(0, PROLOGUE_SEARCH_CHARS).matchAll(SOLC_ARGS_PROLOGUE)) {
+        if (match.index! % 2 !== 0) continue; // Not on an opcode boundary
+        const codeLength = parseInt(match[1] ?? match[2]!, 16);
+        const argsStart = 2 + codeLength * 2;
+        if (argsStart >= initcode.length) continue;
+
+        const decoded = tryDecode(layout, `0x${initcode.slice(argsStart)}`);
+        if (decoded) return decoded;
+    }
+
+    const maxTailWords = layout.firstOffset ? MAX_TAIL_WORDS : 0;
+
+    for (let tailWords = 0; tailWords <= maxTailWords; tailWords++) {
+        const argsChars = (layout.headBytes + tailWords * 32) * 2;
+        if (argsChars > initcode.length - 2) break;
+
+        const decoded = tryDecode(layout, `0x${initcode.slice(-argsChars)}`);
+        if (decoded) return decoded;
+    }
+
+    return null;
+};
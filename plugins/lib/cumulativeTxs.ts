@@ -0,0 +1,43 @@
+import type { ApiPlugin } from "frostbyte-sdk";
+
+type DbCtx = Parameters<ApiPlugin['registerRoutes']>[1];
+type IndexerConnection = ReturnType<DbCtx['getIndexerDbConnection']>;
+
+export interface CumulativeTxs {
+    minuteTs: number; // Last minute with transactions at or before the requested time
+    cumulativeCount: number;
+    cumulativeGasUsed: number;
+}
+
+/**
+ * Totals of the minute_tx_counter indexer up to and including a minute, or up to the latest indexed
+ * minute when minuteTs is null. The prefix sum is computed at query time: whole hours come from
+ * hourly_tx_counts, the rest of the last hour from minute_tx_counts. Both tables only ever hold
+ * non-negative counts, so the result is exact and never decreases with time.
+ * Returns undefined if nothing was indexed up to that minute.
+ */
+export function getCumulativeTxs(conn: IndexerConnection, minuteTs: number | null): CumulativeTxs | undefined {
+    const last = (minuteTs === null
+        ? conn.prepare('SELECT MAX(minute_ts) as minute_ts FROM minute_tx_counts').get()
+        : conn.prepare('SELECT MAX(minute_ts) as minute_ts FROM minute_tx_counts WHERE minute_ts <= ?').get(minuteTs)
+    ) as { minute_ts: number | null } | undefined;
+    if (!last || last.minute_ts === null) return undefined;
+
+    const hourTs = Math.floor(last.minute_ts / 3600) * 3600;
+    const hours = conn.prepare(`
+        SELECT COALESCE(SUM(tx_count), 0) as tx_count, COALESCE(SUM(gas_used), 0) as gas_used
+        FROM hourly_tx_counts
+        WHERE hour_ts < ?
+    `).get(hourTs) as { tx_count: number; gas_used: number };
+    const minutes = conn.prepare(`
+        SELECT COALESCE(SUM(tx_count), 0) as tx_count, COALESCE(SUM(gas_used), 0) as gas_used
+        FROM minute_tx_counts
+        WHERE minute_ts >= ? AND minute_ts <= ?
+    `).get(hourTs, last.minute_ts) as { tx_count: number; gas_used: number };
+
+    return {
+        minuteTs: last.minute_ts,
+        cumulativeCount: hours.tx_count + minutes.tx_count,
+        cumulativeGasUsed: hours.gas_used + minutes.gas_used
+    };
+}
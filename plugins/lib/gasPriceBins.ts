@@ -0,0 +1,28 @@
+// Gas prices are histogrammed in log bins 1% wide, so medians come out within 0.5% without storing every price
+const BIN_RATIO = 1.01;
+const ZERO_PRICE_BIN = -1; // Gas-free transactions
+
+export function gasPriceBin(priceWei: bigint): number {
+    if (priceWei <= 0n) return ZERO_PRICE_BIN;
+    return Math.round(Math.log(Number(priceWei)) / Math.log(BIN_RATIO));
+}
+
+export function binGasPrice(bin: number): number {
+    return bin === ZERO_PRICE_BIN ? 0 : Math.pow(BIN_RATIO, bin);
+}
+
+/**
+ * Median gas price in wei of a histogram, null if it is empty
+ */
+export function medianGasPrice(bins: Array<{ price_bin: number; tx_count: number }>): number | null {
+    const sorted = [...bins].sort((a, b) => a.price_bin - b.price_bin);
+    const total = sorted.reduce((sum, bin) => sum + bin.tx_count, 0);
+    if (total === 0) return null;
+
+    let seen = 0;
+    for (const bin of sorted) {
+        seen += bin.tx_count;
+        if (seen * 2 >= total) return binGasPrice(bin.price_bin);
+    }
+    return binGasPrice(sorted[sorted.length - 1]!.price_bin);
+}
@@ -0,0 +1,139 @@
+import type { ApiPlugin } from "frostbyte-sdk";
+
+type DbCtx = Parameters<ApiPlugin['registerRoutes']>[1];
+
+export type IcmMessageStatus = 'sent' | 'received' | 'executed' | 'failed';
+
+export interface IcmMessageLifecycle {
+    messageId: string;
+    sourceBlockchainId: string;
+    destinationBlockchainId: string;
+    sentAt: number | null;
+    sentTxHash: string | null;
+    receivedAt: number | null;
+    receivedTxHash: string | null;
+    executedAt: number | null;
+    failedAt: number | null;
+    receiptReceivedAt: number | null;
+    status: IcmMessageStatus;
+    deliveryLatency: number | null; // receivedAt - sentAt, seconds
+}
+
+interface MessageRow {
+    message_id: string;
+    is_outgoing: number;
+    other_chain_id: string;
+    block_timestamp: number;
+    tx_hash: string;
+}
+
+interface OutcomeRow {
+    message_id: string;
+    event_type: 'executed' | 'execution_failed' | 'receipt_received';
+    block_timestamp: number;
+}
+
+/**
+ * Resolves the status of a message from the lifecycle events seen so far.
+ * A successful retry after MessageExecutionFailed ends up as 'executed'.
+ */
+export function resolveIcmStatus(lifecycle: Pick<IcmMessageLifecycle, 'receivedAt' | 'executedAt' | 'failedAt'>): IcmMessageStatus {
+    if (lifecycle.executedAt !== null) return 'executed';
+    if (lifecycle.failedAt !== null) return 'failed';
+    if (lifecycle.receivedAt !== null) return 'received';
+    return 'sent';
+}
+
+/**
+ * Correlates Teleporter events from every indexed chain by messageID:
+ * SendCrossChainMessage and ReceiptReceived on the source chain,
+ * ReceiveCrossChainMessage, MessageExecuted and MessageExecutionFailed on the destination.
+ * Only events at or after fromTs are loaded, so messages sent before fromTs have sentAt = null.
+ */
+export function collectIcmLifecycles(dbCtx: DbCtx, fromTs: number): Map<string, IcmMessageLifecycle> {
+    const lifecycles = new Map<string, IcmMessageLifecycle>();
+
+    const getOrCreate = (messageId: string, sourceBlockchainId: string, destinationBlockchainId: string) => {
+        let lifecycle = lifecycles.get(messageId);
+        if (!lifecycle) {
+            lifecycle = {
+                messageId,
+                sourceBlockchainId,
+                destinationBlockchainId,
+                sentAt: null,
+                sentTxHash: null,
+                receivedAt: null,
+                receivedTxHash: null,
+                executedAt: null,
+                failedAt: null,
+                receiptReceivedAt: null,
+                status: 'sent',
+                deliveryLatency: null
+            };
+            lifecycles.set(messageId, lifecycle);
+        }
+        return lifecycle;
+    };
+
+    const allOutcomes: OutcomeRow[] = [];
+
+    for (const config of dbCtx.getAllChainConfigs()) {
+        try {
+            const conn = dbCtx.getIndexerDbConnection(config.evmChainId, 'teleporter_messages');
+
+            const messages = conn.prepare(`
+                SELECT message_id, is_outgoing, other_chain_id, block_timestamp, tx_hash
+                FROM teleporter_messages
+                WHERE block_timestamp >= ?
+            `).all(fromTs) as MessageRow[];
+
+            for (const row of messages) {
+                if (row.is_outgoing === 1) {
+                    const lifecycle = getOrCreate(row.message_id, config.blockchainId, row.other_chain_id);
+                    lifecycle.sentAt = row.block_timestamp;
+                    lifecycle.sentTxHash = row.tx_hash;
+                } else {
+                    const lifecycle = getOrCreate(row.message_id, row.other_chain_id, config.blockchainId);
+                    lifecycle.receivedAt = row.block_timestamp;
+                    lifecycle.receivedTxHash = row.tx_hash;
+                }
+            }
+
+            const outcomes = conn.prepare(`
+                SELECT message_id, event_type, block_timestamp
+                FROM teleporter_message_outcomes
+                WHERE block_timestamp >= ?
+            `).all(fromTs) as OutcomeRow[];
+
+            for (const row of outcomes) {
+                allOutcomes.push(row);
+            }
+        } catch (error) {
+            // Chain might not have the teleporter_messages indexer
+            continue;
+        }
+    }
+
+    // Outcomes are applied only to messages we already know about from send/receive events
+    for (const row of allOutcomes) {
+        const lifecycle = lifecycles.get(row.message_id);
+        if (!lifecycle) continue;
+
+        if (row.event_type === 'executed') {
+            lifecycle.executedAt = Math.max(lifecycle.executedAt ?? 0, row.block_timestamp);
+        } else if (row.event_type === 'execution_failed') {
+            lifecycle.failedAt = Math.min(lifecycle.failedAt ?? Number.MAX_SAFE_INTEGER, row.block_timestamp);
+        } else {
+            lifecycle.receiptReceivedAt = row.block_timestamp;
+        }
+    }
+
+    for (const lifecycle of lifecycles.values()) {
+        lifecycle.status = resolveIcmStatus(lifecycle);
+        if (lifecycle.sentAt !== null && lifecycle.receivedAt !== null) {
+            lifecycle.deliveryLatency = lifecycle.receivedAt - lifecycle.sentAt;
+        }
+    }
+
+    return lifecycles;
+}
@@ -0,0 +1,127 @@
+import { encodingUtils, viem } from "frostbyte-sdk";
+import { ethCallRequest, rpcBatch, type RpcResult } from "./rpc";
+
+export type ProbedContractType = 'ERC20Home' | 'NativeHome' | 'ERC20Remote' | 'NativeRemote';
+
+export interface ProbeResult {
+    contractType: ProbedContractType;
+    coinAddress: string;
+    tokenDecimals: number;
+    homeBlockchainId: string | null;
+    homeAddress: string | null;
+}
+
+// 'rejected' when the contract answered but isn't ICTT, 'unreachable' when the RPC failed and probing should be retried
+export type ProbeOutcome = ProbeResult | 'rejected' | 'unreachable';
+
+const selector = (signature: string) => viem.toFunctionSelector(signature);
+
+// View calls made against every candidate, in this order
+const PROBE_CALLS = [
+    selector('getBlockchainID()'),
+    selector('getTokenAddress()'),
+    selector('token()'), // Pre-v1 token bridges
+    selector('getTokenHomeBlockchainID()'),
+    selector('getTokenHomeAddress()'),
+    selector('totalNativeAssetSupply()'), // NativeTokenRemote only
+    selector('NATIVE_TOKEN_HOME_STORAGE_LOCATION()'), // NativeTokenHome only
+    selector('decimals()'),
+];
+
+const DECIMALS_SELECTOR = selector('decimals()');
+
+// A successful call returning exactly one non-zero word
+const word = (result: RpcResult | undefined): `0x${string}` | null => {
+    if (!result || !result.ok || result.result.length !== 66) return null;
+    return BigInt(result.result) === 0n ? null : result.result as `0x${string}`;
+};
+
+// Addresses come back as padded words, checksummed like the addresses viem decodes from constructors
+const wordToAddress = (value: `0x${string}`): string => viem.getAddress(`0x${value.slice(26)}`);
+
+/**
+ * Identifies ICTT contracts by eth_call probes through the chain's RPC proxy:
+ * getBlockchainID() must answer for any TeleporterRegistryApp, remotes answer
+ * getTokenHomeBlockchainID()/getTokenHomeAddress(), homes getTokenAddress()
+ * (or token()). ERC20 homes need a second round for the token's decimals().
+ * @returns Outcome per address, all 'unreachable' if the RPC couldn't be reached
+ */
+export async function probeICTTContracts(evmChainId: number, addresses: string[]): Promise<Map<string, ProbeOutcome>> {
+    const outcomes = new Map<string, ProbeOutcome>();
+
+    const results = await rpcBatch(evmChainId, addresses.flatMap(address => PROBE_CALLS.map(data => ethCallRequest(address, data))));
+    if (!results) {
+        for (const address of addresses) outcomes.set(address, 'unreachable');
+        return outcomes;
+    }
+
+    // ERC20 homes waiting for their token's decimals
+    const pendingDecimals: Array<{ address: string; tokenAddress: string }> = [];
+
+    addresses.forEach((address, i) => {
+        const [blockchainId, tokenAddress, legacyToken, homeBlockchainId, homeAddress, nativeSupply, nativeHomeLocation, decimals] =
+            results.slice(i * PROBE_CALLS.length, (i + 1) * PROBE_CALLS.length);
+
+        if (!word(blockchainId)) {
+            outcomes.set(address, 'rejected');
+            return;
+        }
+
+        const remoteHomeBlockchainId = word(homeBlockchainId);
+        const remoteHomeAddress = word(homeAddress);
+        if (remoteHomeBlockchainId && remoteHomeAddress) {
+            const isNative = nativeSupply?.ok === true;
+            const tokenDecimals = word(decimals);
+            outcomes.set(address, {
+                contractType: isNative ? 'NativeRemote' : 'ERC20Remote',
+                coinAddress: isNative ? '0x0000000000000000000000000000000000000000' : viem.getAddress(address),
+                tokenDecimals: tokenDecimals ? Number(BigInt(tokenDecimals)) : 18,
+                homeBlockchainId: encodingUtils.hexToCB58(remoteHomeBlockchainId),
+                homeAddress: wordToAddress(remoteHomeAddress)
+            });
+            return;
+        }
+
+        const token = word(tokenAddress) ?? word(legacyToken);
+        if (!token) {
+            outcomes.set(address, 'rejected');
+            return;
+        }
+
+        if (nativeHomeLocation?.ok === true) {
+            outcomes.set(address, {
+                contractType: 'NativeHome',
+                coinAddress: wordToAddress(token),
+                tokenDecimals: 18, // Always 18 for native tokens
+                homeBlockchainId: null,
+                homeAddress: null
+            });
+            return;
+        }
+
+        pendingDecimals.push({ address, tokenAddress: wordToAddress(token) });
+    });
+
+    if (pendingDecimals.length === 0) return outcomes;
+
+    const decimalsResults = await rpcBatch(evmChainId, pendingDecimals.map(({ tokenAddress }) => ethCallRequest(tokenAddress, DECIMALS_SELECTOR)));
+
+    pendingDecimals.forEach(({ address, tokenAddress }, i) => {
+        if (!decimalsResults) {
+            outcomes.set(address, 'unreachable');
+            return;
+        }
+
+        const decimals = word(decimalsResults[i]);
+        const tokenDecimals = decimals ? Number(BigInt(decimals)) : 0;
+        outcomes.set(address, tokenDecimals > 0 && tokenDecimals < 100 ? {
+            contractType: 'ERC20Home',
+            coinAddress: tokenAddress,
+            tokenDecimals,
+            homeBlockchainId: null,
+            homeAddress: null
+        } : 'rejected');
+    });
+
+    return outcomes;
+}
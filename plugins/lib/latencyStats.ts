@@ -0,0 +1,30 @@
+export type LatencyStats = {
+    messageCount: number;
+    p50: number;
+    p90: number;
+    p99: number;
+}
+
+// Nearest-rank percentile over an ascending-sorted array
+export function percentile(sorted: number[], p: number): number {
+    if (sorted.length === 0) return 0;
+    const rank = Math.ceil((p / 100) * sorted.length);
+    return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1]!;
+}
+
+export function computeStats(latencies: number[]): LatencyStats {
+    latencies.sort((a, b) => a - b);
+    return {
+        messageCount: latencies.length,
+        p50: percentile(latencies, 50),
+        p90: percentile(latencies, 90),
+        p99: percentile(latencies, 99)
+    };
+}
+
+export const latencyStatsProperties = {
+    messageCount: { type: 'number', description: 'Delivered messages with both send and receive indexed' },
+    p50: { type: 'number', description: 'Median send-to-receive latency, seconds' },
+    p90: { type: 'number', description: '90th percentile latency, seconds' },
+    p99: { type: 'number', description: '99th percentile latency, seconds' }
+};
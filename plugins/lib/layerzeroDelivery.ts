@@ -0,0 +1,149 @@
+import type { ApiPlugin } from "frostbyte-sdk";
+import { resolveEidChain, toV2Eid } from "./layerzeroEids";
+
+type DbCtx = Parameters<ApiPlugin['registerRoutes']>[1];
+
+export interface LayerZeroDelivery {
+    key: string;
+    protocolVersion: 1 | 2;
+    sourceEid: number; // V2 EIDs, also for V1 packets
+    destinationEid: number;
+    sourceChainName: string;
+    destinationChainName: string;
+    sourceEvmChainId: number | null; // Indexed chain the packet was sent from, null if only the verification is indexed
+    destinationEvmChainId: number | null; // Indexed destination chain, null if not indexed here
+    sentAt: number | null;
+    sentTxHash: string | null;
+    verifiedAt: number | null;
+    verifiedTxHash: string | null;
+    payloadHashMatches: boolean | null; // null until both sides are seen
+    deliveryLatency: number | null; // verifiedAt - sentAt, seconds
+}
+
+interface MessageRow {
+    is_outgoing: number;
+    protocol_version: 1 | 2;
+    block_timestamp: number;
+    chain_id: number;
+    tx_hash: string;
+    nonce: number;
+    src_eid: number;
+    sender_oapp: string;
+    dst_eid: number | null;
+    receiver_oapp: string;
+    guid: string | null;
+    payload_hash: string;
+}
+
+/**
+ * Correlation key of a packet. V2 packets are matched by GUID. V1 packets have none and are matched
+ * by (srcEid, sender, nonce) on the pathway, since V1 nonces count per destination chain and receiver
+ */
+function deliveryKey(row: MessageRow, localEid: number): string | null {
+    if (row.protocol_version === 2) return row.guid;
+
+    const destinationEid = row.is_outgoing === 1 ? row.chain_id : localEid;
+    const sourceEid = row.is_outgoing === 1 ? localEid : row.chain_id;
+    return `v1:${sourceEid}:${row.sender_oapp}:${destinationEid}:${row.receiver_oapp}:${row.nonce}`;
+}
+
+/**
+ * Correlates LayerZero packets from every indexed chain: PacketSent/Packet on the source chain with
+ * PacketVerified/PacketReceived on the destination. The EID of an indexed chain is learned from its
+ * own rows; latency and payload hash checks need both sides indexed here.
+ * Only events at or after fromTs are loaded, so packets sent before fromTs have sentAt = null.
+ */
+export function collectLayerZeroDeliveries(dbCtx: DbCtx, fromTs: number): Map<string, LayerZeroDelivery> {
+    const configs = dbCtx.getAllChainConfigs();
+    const deliveries = new Map<string, LayerZeroDelivery>();
+    const chainRows: Array<{ evmChainId: number; rows: MessageRow[] }> = [];
+    const evmChainIdByEid = new Map<number, number>();
+    const payloadHashesByKey = new Map<string, { sent?: string; verified?: string }>();
+
+    for (const config of configs) {
+        try {
+            const conn = dbCtx.getIndexerDbConnection(config.evmChainId, 'layerzero_messages');
+
+            const rows = conn.prepare(`
+                SELECT is_outgoing, protocol_version, block_timestamp, chain_id, tx_hash, nonce,
+                       src_eid, sender_oapp, dst_eid, receiver_oapp, guid, payload_hash
+                FROM layerzero_messages
+                WHERE block_timestamp >= ?
+            `).all(fromTs) as MessageRow[];
+
+            chainRows.push({ evmChainId: config.evmChainId, rows });
+        } catch (error) {
+            // Chain might not have the layerzero_messages indexer
+            continue;
+        }
+    }
+
+    // Local V2 EID of each indexed chain, from the source of its outgoing packets or the destination of incoming ones
+    for (const { evmChainId, rows } of chainRows) {
+        const row = rows.find(row => row.is_outgoing === 1 || row.dst_eid !== null);
+        if (!row) continue;
+        const eid = row.is_outgoing === 1 ? row.src_eid : row.dst_eid!;
+        evmChainIdByEid.set(toV2Eid(eid), evmChainId);
+    }
+    const eidByEvmChainId = new Map(Array.from(evmChainIdByEid, ([eid, evmChainId]) => [evmChainId, eid]));
+
+    for (const { evmChainId, rows } of chainRows) {
+        const localEid = eidByEvmChainId.get(evmChainId);
+        if (localEid === undefined) continue;
+
+        for (const row of rows) {
+            const key = deliveryKey(row, localEid);
+            if (key === null) continue;
+
+            const sourceEid = row.is_outgoing === 1 ? localEid : row.chain_id;
+            const destinationEid = row.is_outgoing === 1 ? row.chain_id : localEid;
+
+            let delivery = deliveries.get(key);
+            if (!delivery) {
+                delivery = {
+                    key,
+                    protocolVersion: row.protocol_version,
+                    sourceEid,
+                    destinationEid,
+                    sourceChainName: resolveEidChain(sourceEid, configs).chainName,
+                    destinationChainName: resolveEidChain(destinationEid, configs).chainName,
+                    sourceEvmChainId: evmChainIdByEid.get(sourceEid) ?? null,
+                    destinationEvmChainId: evmChainIdByEid.get(destinationEid) ?? null,
+                    sentAt: null,
+                    sentTxHash: null,
+                    verifiedAt: null,
+                    verifiedTxHash: null,
+                    payloadHashMatches: null,
+                    deliveryLatency: null
+                };
+                deliveries.set(key, delivery);
+            }
+
+            if (row.is_outgoing === 1) {
+                delivery.sentAt = row.block_timestamp;
+                delivery.sentTxHash = row.tx_hash;
+            } else {
+                // The first verification counts, re-verifications of the same packet come later
+                if (delivery.verifiedAt !== null && delivery.verifiedAt <= row.block_timestamp) continue;
+                delivery.verifiedAt = row.block_timestamp;
+                delivery.verifiedTxHash = row.tx_hash;
+            }
+
+            const payloadHashes = payloadHashesByKey.get(key) ?? {};
+            payloadHashes[row.is_outgoing === 1 ? 'sent' : 'verified'] = row.payload_hash;
+            payloadHashesByKey.set(key, payloadHashes);
+        }
+    }
+
+    for (const [key, delivery] of deliveries) {
+        const payloadHashes = payloadHashesByKey.get(key)!;
+        if (payloadHashes.sent !== undefined && payloadHashes.verified !== undefined) {
+            delivery.payloadHashMatches = payloadHashes.sent === payloadHashes.verified;
+        }
+        if (delivery.sentAt !== null && delivery.verifiedAt !== null) {
+            delivery.deliveryLatency = delivery.verifiedAt - delivery.sentAt;
+        }
+    }
+
+    return deliveries;
+}
@@ -0,0 +1,104 @@
+export interface LayerZeroChain {
+    eid: number; // V2 endpoint ID
+    chainName: string;
+    evmChainId: number | null; // null for non-EVM chains
+    blockchainId: string | null; // Avalanche blockchain ID, for chains not resolvable through indexed chain configs
+    network: 'mainnet' | 'testnet';
+}
+
+export interface ResolvedEid extends LayerZeroChain {
+    version: 1 | 2; // Version of the EID that was looked up
+}
+
+// V2 endpoint IDs. V1 chain IDs are the V2 ones minus 30000 (101 -> 30101, 10161 -> 40161)
+const LAYERZERO_CHAINS: LayerZeroChain[] = [
+    // Mainnets
+    { eid: 30101, chainName: 'Ethereum', evmChainId: 1, blockchainId: null, network: 'mainnet' },
+    { eid: 30102, chainName: 'BNB Chain', evmChainId: 56, blockchainId: null, network: 'mainnet' },
+    { eid: 30106, chainName: 'C-Chain', evmChainId: 43114, blockchainId: '2q9e4r6Mu3U68nU1fYjgbR6JvwrRx36CohpAX5UQxse55x1Q5', network: 'mainnet' },
+    { eid: 30108, chainName: 'Aptos', evmChainId: null, blockchainId: null, network: 'mainnet' },
+    { eid: 30109, chainName: 'Polygon', evmChainId: 137, blockchainId: null, network: 'mainnet' },
+    { eid: 30110, chainName: 'Arbitrum One', evmChainId: 42161, blockchainId: null, network: 'mainnet' },
+    { eid: 30111, chainName: 'Optimism', evmChainId: 10, blockchainId: null, network: 'mainnet' },
+    { eid: 30112, chainName: 'Fantom', evmChainId: 250, blockchainId: null, network: 'mainnet' },
+    { eid: 30115, chainName: 'DFK Chain', evmChainId: 53935, blockchainId: null, network: 'mainnet' },
+    { eid: 30116, chainName: 'Harmony', evmChainId: 1666600000, blockchainId: null, network: 'mainnet' },
+    { eid: 30118, chainName: 'Dexalot', evmChainId: 432204, blockchainId: null, network: 'mainnet' },
+    { eid: 30125, chainName: 'Celo', evmChainId: 42220, blockchainId: null, network: 'mainnet' },
+    { eid: 30126, chainName: 'Moonbeam', evmChainId: 1284, blockchainId: null, network: 'mainnet' },
+    { eid: 30145, chainName: 'Gnosis', evmChainId: 100, blockchainId: null, network: 'mainnet' },
+    { eid: 30150, chainName: 'Kaia', evmChainId: 8217, blockchainId: null, network: 'mainnet' },
+    { eid: 30151, chainName: 'Metis', evmChainId: 1088, blockchainId: null, network: 'mainnet' },
+    { eid: 30153, chainName: 'Core', evmChainId: 1116, blockchainId: null, network: 'mainnet' },
+    { eid: 30158, chainName: 'Polygon zkEVM', evmChainId: 1101, blockchainId: null, network: 'mainnet' },
+    { eid: 30165, chainName: 'zkSync Era', evmChainId: 324, blockchainId: null, network: 'mainnet' },
+    { eid: 30167, chainName: 'Moonriver', evmChainId: 1285, blockchainId: null, network: 'mainnet' },
+    { eid: 30168, chainName: 'Solana', evmChainId: null, blockchainId: null, network: 'mainnet' },
+    { eid: 30175, chainName: 'Arbitrum Nova', evmChainId: 42170, blockchainId: null, network: 'mainnet' },
+    { eid: 30177, chainName: 'Kava', evmChainId: 2222, blockchainId: null, network: 'mainnet' },
+    { eid: 30181, chainName: 'Mantle', evmChainId: 5000, blockchainId: null, network: 'mainnet' },
+    { eid: 30183, chainName: 'Linea', evmChainId: 59144, blockchainId: null, network: 'mainnet' },
+    { eid: 30184, chainName: 'Base', evmChainId: 8453, blockchainId: null, network: 'mainnet' },
+    { eid: 30198, chainName: 'Beam', evmChainId: 4337, blockchainId: null, network: 'mainnet' },
+    { eid: 30202, chainName: 'opBNB', evmChainId: 204, blockchainId: null, network: 'mainnet' },
+    { eid: 30211, chainName: 'Aurora', evmChainId: 1313161554, blockchainId: null, network: 'mainnet' },
+    { eid: 30214, chainName: 'Scroll', evmChainId: 534352, blockchainId: null, network: 'mainnet' },
+    { eid: 30243, chainName: 'Blast', evmChainId: 81457, blockchainId: null, network: 'mainnet' },
+    { eid: 30255, chainName: 'Fraxtal', evmChainId: 252, blockchainId: null, network: 'mainnet' },
+    { eid: 30260, chainName: 'Mode', evmChainId: 34443, blockchainId: null, network: 'mainnet' },
+    { eid: 30280, chainName: 'Sei', evmChainId: 1329, blockchainId: null, network: 'mainnet' },
+    { eid: 30290, chainName: 'Taiko', evmChainId: 167000, blockchainId: null, network: 'mainnet' },
+    { eid: 30320, chainName: 'Unichain', evmChainId: 130, blockchainId: null, network: 'mainnet' },
+    { eid: 30332, chainName: 'Sonic', evmChainId: 146, blockchainId: null, network: 'mainnet' },
+    { eid: 30362, chainName: 'Berachain', evmChainId: 80094, blockchainId: null, network: 'mainnet' },
+
+    // Testnets
+    { eid: 40102, chainName: 'BNB Chain Testnet', evmChainId: 97, blockchainId: null, network: 'testnet' },
+    { eid: 40106, chainName: 'C-Chain Fuji Testnet', evmChainId: 43113, blockchainId: 'yH8D7ThNJkxmtkuv2jgBa4P1Rn3Qpr4pPr7QYNfcdoS6k6HWp', network: 'testnet' },
+    { eid: 40118, chainName: 'Dexalot Testnet', evmChainId: 432201, blockchainId: null, network: 'testnet' },
+    { eid: 40161, chainName: 'Sepolia', evmChainId: 11155111, blockchainId: null, network: 'testnet' },
+    { eid: 40168, chainName: 'Solana Devnet', evmChainId: null, blockchainId: null, network: 'testnet' },
+    { eid: 40231, chainName: 'Arbitrum Sepolia', evmChainId: 421614, blockchainId: null, network: 'testnet' },
+    { eid: 40232, chainName: 'OP Sepolia', evmChainId: 11155420, blockchainId: null, network: 'testnet' },
+    { eid: 40245, chainName: 'Base Sepolia', evmChainId: 84532, blockchainId: null, network: 'testnet' },
+    { eid: 40267, chainName: 'Polygon Amoy', evmChainId: 80002, blockchainId: null, network: 'testnet' },
+];
+
+const chainsByEid = new Map(LAYERZERO_CHAINS.map(chain => [chain.eid, chain]));
+
+/**
+ * V2 endpoint ID of a V1 chain ID (below 30000), V2 endpoint IDs are returned as they are
+ */
+export function toV2Eid(eid: number): number {
+    return eid < 30000 ? eid + 30000 : eid;
+}
+
+/**
+ * Looks up a V2 endpoint ID or a V1 chain ID (below 30000)
+ */
+export function lookupEid(eid: number): ResolvedEid | null {
+    const chain = chainsByEid.get(toV2Eid(eid));
+    return chain ? { ...chain, version: eid < 30000 ? 1 : 2 } : null;
+}
+
+/**
+ * Name and Avalanche blockchain ID of the chain behind an EID. Chains that are indexed here are
+ * matched by EVM chain ID, so their names and blockchain IDs follow the chain configs
+ */
+export function resolveEidChain(eid: number, configs: Array<{ evmChainId: number; chainName: string; blockchainId: string }>): { chainName: string; blockchainId: string | null } {
+    const chain = lookupEid(eid);
+    if (!chain) return { chainName: `EID ${eid}`, blockchainId: null };
+
+    const config = chain.evmChainId === null ? undefined : configs.find(config => config.evmChainId === chain.evmChainId);
+    return {
+        chainName: config?.chainName ?? chain.chainName,
+        blockchainId: config?.blockchainId ?? chain.blockchainId
+    };
+}
+
+/**
+ * V2 endpoint ID of an EVM chain, null if it isn't in the registry
+ */
+export function eidForEvmChainId(evmChainId: number): number | null {
+    return LAYERZERO_CHAINS.find(chain => chain.evmChainId === evmChainId)?.eid ?? null;
+}
@@ -0,0 +1,152 @@
+import type { ApiPlugin } from "frostbyte-sdk";
+import { resolveEidChain } from "./layerzeroEids";
+
+type DbCtx = Parameters<ApiPlugin['registerRoutes']>[1];
+type IndexerConnection = ReturnType<DbCtx['getIndexerDbConnection']>;
+
+export type ChainConfig = { evmChainId: number; chainName: string; blockchainId: string };
+
+// Native token of the chain the pair is seen from
+export interface PairCosts {
+    sendGasCost: number;
+    receiveGasCost: number;
+    executorFee: number | null; // Protocols with per-message worker fees only
+    dvnFee: number | null;
+    feePaidMessages: number | null; // Outbound messages the worker fees were seen for
+}
+
+export interface PairCounts {
+    otherChainId: string;
+    inbound: number;
+    outbound: number;
+}
+
+/**
+ * A cross-chain messaging protocol as seen by the comparison and overview endpoints. Each protocol
+ * has its own indexer; messagesSql maps the indexer's table to the normalized message schema:
+ *   is_outgoing INTEGER, block_timestamp INTEGER, other_chain_id TEXT (protocol-native chain ID), tx_hash TEXT
+ * Adding a protocol means writing its indexer and appending an adapter to MESSAGING_PROTOCOLS.
+ */
+export interface MessagingProtocolAdapter {
+    id: string; // Stable key used in responses, e.g. "icm"
+    name: string;
+    indexerName: string;
+    costIndexerNames: string[]; // Extra indexers pairCosts reads
+    messagesSql: string;
+    describeOtherChain: (otherChainId: string, configs: ChainConfig[]) => { otherChainName: string; otherBlockchainId: string | null };
+    pairCosts: ((dbCtx: DbCtx, evmChainId: number, fromTs: number, toTs: number) => Map<string, PairCosts>) | null;
+}
+
+const icmAdapter: MessagingProtocolAdapter = {
+    id: 'icm',
+    name: 'ICM/Teleporter',
+    indexerName: 'teleporter_messages',
+    costIndexerNames: ['icm_gas_usage'],
+    messagesSql: `
+        SELECT is_outgoing, block_timestamp, other_chain_id, tx_hash
+        FROM teleporter_messages
+    `,
+    describeOtherChain: (otherChainId, configs) => {
+        const config = configs.find(config => config.blockchainId === otherChainId);
+        return { otherChainName: config?.chainName ?? otherChainId, otherBlockchainId: otherChainId };
+    },
+    // Gas per other chain from the icm_gas_usage intervals of the period
+    pairCosts: (dbCtx, evmChainId, fromTs, toTs) => {
+        const conn = dbCtx.getIndexerDbConnection(evmChainId, 'icm_gas_usage');
+        const rows = conn.prepare(`
+            SELECT other_chain_id, SUM(send_gas_cost) as send_gas_cost, SUM(receive_gas_cost) as receive_gas_cost
+            FROM icm_chain_interval_stats
+            WHERE interval_ts > ? AND interval_ts <= ?
+            GROUP BY other_chain_id
+        `).all(fromTs, toTs) as Array<{ other_chain_id: string; send_gas_cost: number; receive_gas_cost: number }>;
+
+        return new Map(rows.map(row => [row.other_chain_id, {
+            sendGasCost: row.send_gas_cost,
+            receiveGasCost: row.receive_gas_cost,
+            executorFee: null,
+            dvnFee: null,
+            feePaidMessages: null
+        }]));
+    }
+};
+
+const layerzeroAdapter: MessagingProtocolAdapter = {
+    id: 'layerzero',
+    name: 'LayerZero',
+    indexerName: 'layerzero_messages',
+    costIndexerNames: [],
+    // chain_id is the V2 EID of the other chain, also for V1 packets
+    messagesSql: `
+        SELECT is_outgoing, block_timestamp, CAST(chain_id AS TEXT) as other_chain_id, tx_hash
+        FROM layerzero_messages
+    `,
+    describeOtherChain: (otherChainId, configs) => {
+        const { chainName, blockchainId } = resolveEidChain(Number(otherChainId), configs);
+        return { otherChainName: chainName, otherBlockchainId: blockchainId };
+    },
+    // Tx gas split across the packets of the tx, worker fees of outbound V2 packets
+    pairCosts: (dbCtx, evmChainId, fromTs, toTs) => {
+        const conn = dbCtx.getIndexerDbConnection(evmChainId, 'layerzero_messages');
+        const rows = conn.prepare(`
+            SELECT
+                chain_id,
+                SUM(CASE WHEN is_outgoing = 1 THEN gas_cost ELSE 0 END) as send_gas_cost,
+                SUM(CASE WHEN is_outgoing = 0 THEN gas_cost ELSE 0 END) as receive_gas_cost,
+                TOTAL(executor_fee) as executor_fee,
+                TOTAL(dvn_fee) as dvn_fee,
+                COUNT(executor_fee) as fee_paid
+            FROM layerzero_messages
+            WHERE block_timestamp > ? AND block_timestamp <= ?
+            GROUP BY chain_id
+        `).all(fromTs, toTs) as Array<{ chain_id: number; send_gas_cost: number; receive_gas_cost: number; executor_fee: number; dvn_fee: number; fee_paid: number }>;
+
+        return new Map(rows.map(row => [row.chain_id.toString(), {
+            sendGasCost: row.send_gas_cost,
+            receiveGasCost: row.receive_gas_cost,
+            executorFee: row.executor_fee,
+            dvnFee: row.dvn_fee,
+            feePaidMessages: row.fee_paid
+        }]));
+    }
+};
+
+export const MESSAGING_PROTOCOLS: MessagingProtocolAdapter[] = [icmAdapter, layerzeroAdapter];
+
+export const MESSAGING_PROTOCOL_IDS = MESSAGING_PROTOCOLS.map(protocol => protocol.id);
+
+// Every indexer the adapters read, for requiredIndexers
+export const MESSAGING_INDEXER_NAMES = Array.from(new Set(MESSAGING_PROTOCOLS.flatMap(protocol => [protocol.indexerName, ...protocol.costIndexerNames])));
+
+/**
+ * Connection to the protocol's indexer on a chain, null if the chain has no data for it
+ */
+export function getProtocolConnection(dbCtx: DbCtx, protocol: MessagingProtocolAdapter, evmChainId: number): IndexerConnection | null {
+    try {
+        const conn = dbCtx.getIndexerDbConnection(evmChainId, protocol.indexerName);
+        return conn.prepare(`SELECT 1 FROM (${protocol.messagesSql}) LIMIT 1`).get() ? conn : null;
+    } catch (error) {
+        return null;
+    }
+}
+
+export function countProtocolMessages(conn: IndexerConnection, protocol: MessagingProtocolAdapter, fromTs: number, toTs: number): number {
+    const row = conn.prepare(`
+        SELECT COUNT(*) as c FROM (${protocol.messagesSql})
+        WHERE block_timestamp > ? AND block_timestamp <= ?
+    `).get(fromTs, toTs) as { c: number } | undefined;
+    return row?.c || 0;
+}
+
+export function countProtocolPairs(conn: IndexerConnection, protocol: MessagingProtocolAdapter, fromTs: number, toTs: number): PairCounts[] {
+    const rows = conn.prepare(`
+        SELECT
+            other_chain_id,
+            SUM(CASE WHEN is_outgoing = 0 THEN 1 ELSE 0 END) as inbound,
+            SUM(CASE WHEN is_outgoing = 1 THEN 1 ELSE 0 END) as outbound
+        FROM (${protocol.messagesSql})
+        WHERE block_timestamp > ? AND block_timestamp <= ?
+        GROUP BY other_chain_id
+    `).all(fromTs, toTs) as Array<{ other_chain_id: string; inbound: number; outbound: number }>;
+
+    return rows.map(row => ({ otherChainId: row.other_chain_id, inbound: row.inbound, outbound: row.outbound }));
+}
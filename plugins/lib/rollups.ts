@@ -0,0 +1,63 @@
+export type RollupResolution = 'minute' | 'hour' | 'day' | 'week' | 'month';
+export type RollupMetric = 'txCount' | 'gasUsed' | 'feesPaid' | 'activeSenders';
+
+export const ROLLUP_RESOLUTIONS: RollupResolution[] = ['minute', 'hour', 'day', 'week', 'month'];
+
+// How far behind the newest indexed block each resolution is kept, null keeps it forever
+export const ROLLUP_RETENTION: Record<RollupResolution, number | null> = {
+    minute: 7 * 86400,
+    hour: 180 * 86400,
+    day: null,
+    week: null,
+    month: null
+};
+
+export const ROLLUP_METRICS: Record<RollupMetric, { column: string; description: string }> = {
+    txCount: { column: 'tx_count', description: 'Transactions in the bucket' },
+    gasUsed: { column: 'gas_used', description: 'Sum of receipt gasUsed' },
+    feesPaid: { column: 'fees_paid', description: 'Sum of gasUsed * effectiveGasPrice, in native token units' },
+    activeSenders: { column: 'active_senders', description: 'Distinct tx.from addresses' }
+};
+
+/**
+ * Start of the UTC bucket containing ts. Weeks are ISO weeks starting Monday 00:00 UTC
+ */
+export function rollupBucketStart(ts: number, resolution: RollupResolution): number {
+    switch (resolution) {
+        case 'minute':
+            return Math.floor(ts / 60) * 60;
+        case 'hour':
+            return Math.floor(ts / 3600) * 3600;
+        case 'day':
+            return Math.floor(ts / 86400) * 86400;
+        case 'week': {
+            const dayTs = Math.floor(ts / 86400) * 86400;
+            const weekday = (new Date(dayTs * 1000).getUTCDay() + 6) % 7; // Monday = 0
+            return dayTs - weekday * 86400;
+        }
+        case 'month': {
+            const date = new Date(ts * 1000);
+            return Math.floor(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1) / 1000);
+        }
+    }
+}
+
+/**
+ * Start of the bucket after the one starting at bucketTs
+ */
+export function nextRollupBucket(bucketTs: number, resolution: RollupResolution): number {
+    switch (resolution) {
+        case 'minute':
+            return bucketTs + 60;
+        case 'hour':
+            return bucketTs + 3600;
+        case 'day':
+            return bucketTs + 86400;
+        case 'week':
+            return bucketTs + 7 * 86400;
+        case 'month': {
+            const date = new Date(bucketTs * 1000);
+            return Math.floor(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1) / 1000);
+        }
+    }
+}
@@ -0,0 +1,80 @@
+import { readChainsJson } from "./chainContext";
+
+export interface RpcRequest {
+    method: string;
+    params: unknown[];
+}
+
+export type RpcResult =
+    | { ok: true; result: string }
+    | { ok: false; error: string }; // JSON-RPC error, e.g. a reverted eth_call
+
+// The API's RPC proxy, /api/{evmChainId}/rpc, which applies the rps limits of each chain.
+// In compose the indexer reaches it through the api container
+const RPC_PROXY_URL = process.env.RPC_PROXY_URL || `http://localhost:${process.env.PORT || 3080}`;
+
+const RPC_TIMEOUT_MS = 15000;
+
+// Requests per JSON-RPC batch, public endpoints reject large batches
+const DEFAULT_BATCH_SIZE = 20;
+
+export function rpcProxyUrl(evmChainId: number): string {
+    return `${RPC_PROXY_URL}/api/${evmChainId}/rpc`;
+}
+
+/**
+ * Requests per batch from the requestBatchSize in the rpcConfig of the chain's data/chains.json entry
+ */
+function chainBatchSize(evmChainId: number): number {
+    const chain = readChainsJson().find(entry => entry.evmChainId === evmChainId);
+    const requestBatchSize = (chain?.rpcConfig as { requestBatchSize?: unknown } | undefined)?.requestBatchSize;
+    return typeof requestBatchSize === 'number' && requestBatchSize > 0 ? requestBatchSize : DEFAULT_BATCH_SIZE;
+}
+
+export function ethCallRequest(to: string, data: string): RpcRequest {
+    return { method: 'eth_call', params: [{ to, data }, 'latest'] };
+}
+
+/**
+ * Fetches JSON: a GET, or a POST when body is given.
+ * @returns Parsed response, or null on network errors, non-2xx statuses and timeouts
+ */
+export async function fetchJson(url: string, body?: unknown): Promise<unknown | null> {
+    try {
+        const response = body === undefined
+            ? await fetch(url, { signal: AbortSignal.timeout(RPC_TIMEOUT_MS) })
+            : await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body), signal: AbortSignal.timeout(RPC_TIMEOUT_MS) });
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return await response.json();
+    } catch (error) {
+        console.error(`Request to ${url} failed:`, error instanceof Error ? error.message : error);
+        return null;
+    }
+}
+
+/**
+ * Sends JSON-RPC requests through the chain's RPC proxy in batches of its requestBatchSize.
+ * @returns One result per request in order, or null if the proxy couldn't be reached
+ */
+export async function rpcBatch(evmChainId: number, requests: RpcRequest[]): Promise<RpcResult[] | null> {
+    if (requests.length === 0) return [];
+
+    const url = rpcProxyUrl(evmChainId);
+    const batchSize = chainBatchSize(evmChainId);
+    const results: RpcResult[] = [];
+    for (let start = 0; start < requests.length; start += batchSize) {
+        const chunk = requests.slice(start, start + batchSize);
+        const body = chunk.map((request, id) => ({ jsonrpc: '2.0', id, method: request.method, params: request.params }));
+
+        const responses = await fetchJson(url, body) as Array<{ id: number; result?: string; error?: { message?: string } }> | null;
+        if (!Array.isArray(responses)) return null;
+
+        const byId = new Map(responses.map(response => [response.id, response]));
+        chunk.forEach((_, id) => {
+            const response = byId.get(id);
+            if (response && typeof response.result === 'string') results.push({ ok: true, result: response.result });
+            else results.push({ ok: false, error: response?.error?.message || 'missing response' });
+        });
+    }
+    return results;
+}
@@ -0,0 +1,83 @@
+import { viem } from "frostbyte-sdk";
+import { readChainsJson } from "./chainContext";
+
+export interface TeleporterMessengerDeployment {
+    address: string; // checksummed
+    version: string;
+}
+
+export interface ChainMessengerOverride {
+    evmChainId: number;
+    chainName: string;
+    messengers: TeleporterMessengerDeployment[];
+}
+
+// Canonical TeleporterMessenger deployments, same address on every chain (Nick's method)
+export const DEFAULT_TELEPORTER_MESSENGERS: TeleporterMessengerDeployment[] = [
+    { address: "0x253b2784c75e510dD0fF1da844684a1aC0aa5fcf", version: "v1.0.0" },
+];
+
+// Log addresses come lowercase from the RPC while chains.json may use any casing. Deployments are
+// keyed by their lowercase form once at load, so logs are looked up without converting them
+const lowercaseAddress = (address: string): string => viem.bytesToHex(viem.hexToBytes(address as `0x${string}`));
+
+const keyByLowercaseAddress = (messengers: TeleporterMessengerDeployment[]): Map<string, TeleporterMessengerDeployment> =>
+    new Map(messengers.map(messenger => [lowercaseAddress(messenger.address), messenger]));
+
+// Chains can replace the default list with a "teleporterMessengers" array in data/chains.json:
+//   { "evmChainId": 123, ..., "teleporterMessengers": [{ "address": "0x...", "version": "v1.0.0" }] }
+function loadOverrides(): Map<number, ChainMessengerOverride> {
+    const overrides = new Map<number, ChainMessengerOverride>();
+
+    for (const chain of readChainsJson()) {
+        const entries = chain.teleporterMessengers as TeleporterMessengerDeployment[] | undefined;
+        if (!Array.isArray(entries) || entries.length === 0) continue;
+
+        const messengers: TeleporterMessengerDeployment[] = [];
+        for (const entry of entries) {
+            if (typeof entry?.address !== 'string' || !viem.isAddress(entry.address, { strict: false })) {
+                console.error(`Ignoring teleporterMessengers entry of chain ${chain.evmChainId} with invalid address:`, entry?.address);
+                continue;
+            }
+            messengers.push({ address: viem.getAddress(entry.address), version: String(entry.version) });
+        }
+        if (messengers.length === 0) continue;
+
+        overrides.set(chain.evmChainId, {
+            evmChainId: chain.evmChainId,
+            chainName: chain.chainName,
+            messengers,
+        });
+    }
+
+    return overrides;
+}
+
+const overrides = loadOverrides();
+
+const defaultMessengersByAddress = keyByLowercaseAddress(DEFAULT_TELEPORTER_MESSENGERS);
+const overrideMessengersByAddress = new Map(Array.from(overrides, ([evmChainId, override]) => [evmChainId, keyByLowercaseAddress(override.messengers)]));
+
+// Every known deployment, used when the chain of a tx cannot be determined
+const allMessengersByAddress = keyByLowercaseAddress([
+    ...DEFAULT_TELEPORTER_MESSENGERS,
+    ...Array.from(overrides.values()).flatMap(override => override.messengers),
+]);
+
+export function getChainMessengerOverrides(): ChainMessengerOverride[] {
+    return Array.from(overrides.values());
+}
+
+export function getTeleporterMessengers(evmChainId: number): TeleporterMessengerDeployment[] {
+    return overrides.get(evmChainId)?.messengers ?? DEFAULT_TELEPORTER_MESSENGERS;
+}
+
+/**
+ * Looks up the messenger deployment emitting a log, by the lowercase log address
+ * as the RPC returns it. evmChainId comes from the tx's chainId field; pre-EIP-155
+ * legacy txs have none, in which case every known deployment is accepted.
+ */
+export function findTeleporterMessenger(logAddress: string, evmChainId: number | null): TeleporterMessengerDeployment | undefined {
+    if (evmChainId === null) return allMessengersByAddress.get(logAddress);
+    return (overrideMessengersByAddress.get(evmChainId) ?? defaultMessengersByAddress).get(logAddress);
+}
@@ -0,0 +1,65 @@
+import { viem } from "frostbyte-sdk";
+import { ethCallRequest, rpcBatch, type RpcResult } from "./rpc";
+
+export interface TokenMetadata {
+    name: string | null;
+    symbol: string | null;
+    decimals: number | null;
+}
+
+// 'unreachable' when the RPC failed and the fetch should be retried
+export type TokenMetadataOutcome = TokenMetadata | 'unreachable';
+
+const NAME_SELECTOR = viem.toFunctionSelector('name()');
+const SYMBOL_SELECTOR = viem.toFunctionSelector('symbol()');
+const DECIMALS_SELECTOR = viem.toFunctionSelector('decimals()');
+
+// ERC20 strings come ABI-encoded, a few old tokens (MKR style) return bytes32 instead
+const decodeString = (result: RpcResult | undefined): string | null => {
+    if (!result || !result.ok || result.result === '0x') return null;
+    try {
+        if (result.result.length === 66) {
+            const value = viem.hexToString(result.result as `0x${string}`, { size: 32 }).replace(/\0+$/, '');
+            return value || null;
+        }
+        const [value] = viem.decodeAbiParameters([{ type: 'string' }], result.result as `0x${string}`);
+        return value || null;
+    } catch {
+        return null;
+    }
+};
+
+const decodeDecimals = (result: RpcResult | undefined): number | null => {
+    if (!result || !result.ok || result.result.length !== 66) return null;
+    const decimals = BigInt(result.result);
+    return decimals <= 255n ? Number(decimals) : null;
+};
+
+/**
+ * Reads ERC20 name(), symbol() and decimals() through the chain's RPC proxy.
+ * Calls that revert or return garbage leave the field null.
+ * @returns Metadata per address, all 'unreachable' if the RPC couldn't be reached
+ */
+export async function fetchTokenMetadata(evmChainId: number, addresses: string[]): Promise<Map<string, TokenMetadataOutcome>> {
+    const outcomes = new Map<string, TokenMetadataOutcome>();
+
+    const results = await rpcBatch(evmChainId, addresses.flatMap(address => [
+        ethCallRequest(address, NAME_SELECTOR),
+        ethCallRequest(address, SYMBOL_SELECTOR),
+        ethCallRequest(address, DECIMALS_SELECTOR),
+    ]));
+
+    addresses.forEach((address, i) => {
+        if (!results) {
+            outcomes.set(address, 'unreachable');
+            return;
+        }
+        outcomes.set(address, {
+            name: decodeString(results[i * 3]),
+            symbol: decodeString(results[i * 3 + 1]),
+            decimals: decodeDecimals(results[i * 3 + 2])
+        });
+    });
+
+    return outcomes;
+}
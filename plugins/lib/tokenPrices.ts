@@ -0,0 +1,194 @@
+import fs from "node:fs";
+import path from "node:path";
+import { viem } from "frostbyte-sdk";
+import { DATA_DIR } from "./chainContext";
+import { fetchJson } from "./rpc";
+
+export interface PriceQuery {
+    evmChainId: number;
+    coinAddress: string;
+    symbol: string | null; // ERC20 symbol() if known, for sources keyed by symbol
+    dayTs: number; // UTC day start
+}
+
+export interface PriceSource {
+    name: string;
+    // USD price of one whole token on that day, null if the source doesn't know it
+    getPrice(query: PriceQuery): Promise<number | null>;
+}
+
+export interface ResolvedPrice {
+    priceUsd: number;
+    source: string;
+}
+
+// Same data dir as chains.json
+const PRICES_JSON_PATH = process.env.PRICES_JSON || path.join(DATA_DIR, "prices.json");
+const PRICES_CSV_PATH = process.env.PRICES_CSV || path.join(DATA_DIR, "prices.csv");
+const PRICE_HTTP_URL = process.env.PRICE_HTTP_URL || "";
+
+const isPrice = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+// Addresses are checksummed for lookups so files can use any casing
+const addressKey = (evmChainId: number | string, address: string): string | null =>
+    viem.isAddress(address, { strict: false }) ? `${evmChainId}:${viem.getAddress(address)}` : null;
+
+/**
+ * Constant prices from a JSON object, e.g. for stablecoins. Keys are either
+ * "<evmChainId>:<coinAddress>" or a token symbol matching any chain:
+ * { "43114:0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E": 1, "USDT": 1 }
+ */
+export function staticJsonPriceSource(path: string): PriceSource | null {
+    if (!fs.existsSync(path)) return null;
+
+    const byAddress = new Map<string, number>();
+    const bySymbol = new Map<string, number>();
+    try {
+        const prices = JSON.parse(fs.readFileSync(path, "utf8")) as Record<string, unknown>;
+        for (const [key, price] of Object.entries(prices)) {
+            if (!isPrice(price)) continue;
+            const [evmChainId, address] = key.split(':');
+            const normalized = address ? addressKey(evmChainId!, address) : null;
+            if (normalized) {
+                byAddress.set(normalized, price);
+            } else {
+                bySymbol.set(key, price);
+            }
+        }
+    } catch (error) {
+        console.error(`Failed to read ${path}:`, error);
+        return null;
+    }
+
+    return {
+        name: 'static-json',
+        getPrice: async ({ evmChainId, coinAddress, symbol }) => {
+            const key = addressKey(evmChainId, coinAddress);
+            return (key ? byAddress.get(key) : undefined) ?? (symbol ? bySymbol.get(symbol) : undefined) ?? null;
+        }
+    };
+}
+
+/**
+ * Daily prices from a CSV with a header row: date,evmChainId,coinAddress,priceUsd
+ * (date as YYYY-MM-DD, UTC). Days missing from the file use the closest earlier row.
+ */
+export function csvPriceSource(path: string): PriceSource | null {
+    if (!fs.existsSync(path)) return null;
+
+    // Sorted by day per token
+    const pricesByToken = new Map<string, Array<{ dayTs: number; price: number }>>();
+    try {
+        const lines = fs.readFileSync(path, "utf8").split(/\r?\n/).slice(1);
+        for (const line of lines) {
+            const [date, evmChainId, coinAddress, price] = line.split(',').map(field => field.trim());
+            if (!date || !evmChainId || !coinAddress || !price) continue;
+
+            const key = addressKey(evmChainId, coinAddress);
+            const dayTs = Date.parse(`${date}T00:00:00Z`) / 1000;
+            const priceUsd = Number(price);
+            if (!key || Number.isNaN(dayTs) || !isPrice(priceUsd)) continue;
+
+            const prices = pricesByToken.get(key) ?? [];
+            prices.push({ dayTs, price: priceUsd });
+            pricesByToken.set(key, prices);
+        }
+    } catch (error) {
+        console.error(`Failed to read ${path}:`, error);
+        return null;
+    }
+    for (const prices of pricesByToken.values()) {
+        prices.sort((a, b) => a.dayTs - b.dayTs);
+    }
+
+    return {
+        name: 'csv',
+        getPrice: async ({ evmChainId, coinAddress, dayTs }) => {
+            const key = addressKey(evmChainId, coinAddress);
+            const prices = key ? pricesByToken.get(key) : undefined;
+            if (!prices) return null;
+
+            let price: number | null = null;
+            for (const row of prices) {
+                if (row.dayTs > dayTs) break;
+                price = row.price;
+            }
+            return price;
+        }
+    };
+}
+
+/**
+ * Prices from an HTTP endpoint. The URL template gets {evmChainId}, {address},
+ * {symbol} and {date} (YYYY-MM-DD) substituted and must return either a number
+ * or { "usd": number }. The ictt indexer stores what it resolved and asks again only for days without a price.
+ */
+export function httpPriceSource(urlTemplate: string): PriceSource {
+    return {
+        name: 'http',
+        getPrice: async ({ evmChainId, coinAddress, symbol, dayTs }) => {
+            const url = urlTemplate
+                .replace('{evmChainId}', String(evmChainId))
+                .replace('{address}', coinAddress)
+                .replace('{symbol}', encodeURIComponent(symbol ?? ''))
+                .replace('{date}', new Date(dayTs * 1000).toISOString().slice(0, 10));
+
+            const response = await fetchJson(url);
+            const price = typeof response === 'object' && response !== null ? (response as { usd?: unknown }).usd : response;
+            return isPrice(price) ? price : null;
+        }
+    };
+}
+
+let sourcesCache: PriceSource[] | null = null;
+
+/**
+ * Configured sources in priority order: data/prices.json, data/prices.csv, then
+ * PRICE_HTTP_URL if set. File paths can be overridden with PRICES_JSON/PRICES_CSV.
+ * Files are read once per process.
+ */
+export function getPriceSources(): PriceSource[] {
+    if (sourcesCache) return sourcesCache;
+
+    const sources: Array<PriceSource | null> = [
+        staticJsonPriceSource(PRICES_JSON_PATH),
+        csvPriceSource(PRICES_CSV_PATH),
+        PRICE_HTTP_URL ? httpPriceSource(PRICE_HTTP_URL) : null,
+    ];
+    sourcesCache = sources.filter((source): source is PriceSource => source !== null);
+    return sourcesCache;
+}
+
+// Source lookups at a time when resolving many prices
+const PRICE_LOOKUP_CONCURRENCY = 10;
+
+/**
+ * First price any configured source has for the token on that day.
+ */
+export async function resolvePrice(query: PriceQuery): Promise<ResolvedPrice | null> {
+    for (const source of getPriceSources()) {
+        const priceUsd = await source.getPrice(query);
+        if (priceUsd !== null) return { priceUsd, source: source.name };
+    }
+    return null;
+}
+
+// Key of a coin's day for lookupDailyPrices. Coin addresses and day timestamps have no ':', the symbol goes last
+export const dailyPriceKey = (coinAddress: string, dayTs: number, symbol: string | null): string =>
+    `${coinAddress}:${dayTs}:${symbol ?? ''}`;
+
+/**
+ * Resolves the prices of coin days given by dailyPriceKey, for an indexer's background lookup.
+ * @returns Price per key, null where no source has one
+ */
+export async function lookupDailyPrices(evmChainId: number, keys: string[]): Promise<Map<string, ResolvedPrice | null>> {
+    const prices = new Map<string, ResolvedPrice | null>();
+    for (let start = 0; start < keys.length; start += PRICE_LOOKUP_CONCURRENCY) {
+        await Promise.all(keys.slice(start, start + PRICE_LOOKUP_CONCURRENCY).map(async key => {
+            const [coinAddress, dayTs, ...symbol] = key.split(':');
+            const query = { evmChainId, coinAddress: coinAddress!, symbol: symbol.join(':') || null, dayTs: Number(dayTs) };
+            prices.set(key, await resolvePrice(query));
+        }));
+    }
+    return prices;
+}
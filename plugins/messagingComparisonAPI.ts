@@ -1,10 +1,22 @@
 import type { ApiPlugin } from "frostbyte-sdk";
-
-interface WindowDataPoint {
+import {
+    type ChainConfig,
+    type MessagingProtocolAdapter,
+    type PairCosts,
+    MESSAGING_INDEXER_NAMES,
+    MESSAGING_PROTOCOL_IDS,
+    MESSAGING_PROTOCOLS,
+    countProtocolMessages,
+    countProtocolPairs,
+    getProtocolConnection
+} from "./lib/messagingProtocols";
+
+// Message count per protocol id, e.g. { icm: 3, layerzero: 5 }
+type ProtocolMessageCounts = Record<string, number>;
+
+type WindowDataPoint = ProtocolMessageCounts & {
     fromTs: number;
     toTs: number;
-    layerzero: number;
-    icm: number;
 }
 
 interface ChainComparison {
@@ -14,47 +26,94 @@ interface ChainComparison {
     data: WindowDataPoint[];
 }
 
-interface ChainPairDataPoint {
-    fromTs: number;
-    toTs: number;
-    count: number;
-}
-
-interface ChainPairStats {
-    otherChainId: string; // For ICM: blockchain ID, for LayerZero: endpoint ID
-    protocol: 'icm' | 'layerzero';
-    data: ChainPairDataPoint[];
-}
-
 interface DetailedChainComparison {
     chainId: number;
     chainName: string;
     blockchainId: string;
-    layerzeroTotal: number;
-    icmTotal: number;
+    protocolTotals: ProtocolMessageCounts;
     chainPairs: {
         otherChainId: string;
-        protocol: 'icm' | 'layerzero';
+        otherChainName: string;
+        otherBlockchainId: string | null;
+        protocol: string;
         inbound: number;
         outbound: number;
         total: number;
+        costs: PairCosts | null;
     }[];
 }
 
+interface ProtocolCounts {
+    protocol: string;
+    inbound: number;
+    outbound: number;
+    total: number;
+}
+
 interface ChainPairSummary {
     sourceChainId: number;
     sourceChainName: string;
     sourceBlockchainId: string;
-    otherChainId: string; // blockchain ID for ICM, endpoint ID for LayerZero
-    protocol: 'icm' | 'layerzero';
+    otherChainId: string; // Protocol-native chain ID, blockchain ID when merged and known
+    otherChainName: string;
+    otherBlockchainId: string | null;
+    protocol: string; // Protocol id, 'all' for merged rows
     inbound: number;
     outbound: number;
     total: number;
+    breakdown?: ProtocolCounts[]; // Merged rows only
+}
+
+/**
+ * Chain pairs of one protocol on one chain, counterparts described by the protocol's adapter
+ */
+function protocolPairs(protocol: MessagingProtocolAdapter, conn: NonNullable<ReturnType<typeof getProtocolConnection>>, fromTs: number, toTs: number, configs: ChainConfig[]) {
+    return countProtocolPairs(conn, protocol, fromTs, toTs).map(pair => ({
+        otherChainId: pair.otherChainId,
+        ...protocol.describeOtherChain(pair.otherChainId, configs),
+        protocol: protocol.id,
+        inbound: pair.inbound,
+        outbound: pair.outbound,
+        total: pair.inbound + pair.outbound
+    }));
+}
+
+/**
+ * Merges the rows of all protocols of each source chain that reach the same counterpart. Counterparts
+ * without a known blockchain ID stay on their own, keyed by protocol and protocol-native chain ID
+ */
+function mergeProtocols(rows: ChainPairSummary[]): ChainPairSummary[] {
+    const merged = new Map<string, ChainPairSummary>();
+
+    for (const row of rows) {
+        const key = `${row.sourceBlockchainId}:${row.otherBlockchainId ?? `${row.protocol}:${row.otherChainId}`}`;
+        let target = merged.get(key);
+        if (!target) {
+            target = {
+                ...row,
+                otherChainId: row.otherBlockchainId ?? row.otherChainId,
+                protocol: 'all',
+                inbound: 0,
+                outbound: 0,
+                total: 0,
+                breakdown: []
+            };
+            merged.set(key, target);
+        }
+        target.inbound += row.inbound;
+        target.outbound += row.outbound;
+        target.total += row.total;
+        target.breakdown!.push({ protocol: row.protocol, inbound: row.inbound, outbound: row.outbound, total: row.total });
+    }
+
+    return Array.from(merged.values());
 }
 
+const protocolList = MESSAGING_PROTOCOLS.map(protocol => `${protocol.id} (${protocol.name})`).join(', ');
+
 const module: ApiPlugin = {
     name: "messaging_comparison",
-    requiredIndexers: ['layerzero_messages', 'teleporter_messages'],
+    requiredIndexers: MESSAGING_INDEXER_NAMES,
 
     registerRoutes: (app, dbCtx) => {
         // Enhanced global messaging comparison with time windows
@@ -63,6 +122,7 @@ const module: ApiPlugin = {
         }>('/api/global/messaging/comparison', {
             schema: {
                 tags: ["Cross-Chain Messaging"],
+                description: `Message counts per chain in rolling 30-day windows, one count per messaging protocol keyed by protocol id: ${protocolList}.`,
                 querystring: {
                     type: 'object',
                     properties: {
@@ -108,14 +168,18 @@ const module: ApiPlugin = {
                                             },
                                             layerzero: { 
                                                 type: 'number',
-                                                description: 'LayerZero message count in window'
+                                                description: 'LayerZero message count in window, V1 and V2 endpoints'
                                             },
                                             icm: { 
                                                 type: 'number',
                                                 description: 'ICM/Teleporter message count in window'
                                             }
                                         },
-                                        required: ['fromTs', 'toTs', 'layerzero', 'icm']
+                                        additionalProperties: {
+                                            type: 'number',
+                                            description: 'Message count in window of every other registered protocol, keyed by protocol id'
+                                        },
+                                        required: ['fromTs', 'toTs', ...MESSAGING_PROTOCOL_IDS]
                                     }
                                 }
                             },
@@ -145,39 +209,23 @@ const module: ApiPlugin = {
 
             for (const config of configs) {
                 try {
-                    const lzConn = dbCtx.getIndexerDbConnection(config.evmChainId, 'layerzero_messages');
-                    const tpConn = dbCtx.getIndexerDbConnection(config.evmChainId, 'teleporter_messages');
-
-                    // Quick check if either table has any data
-                    const lzCheck = lzConn.prepare('SELECT 1 FROM layerzero_messages LIMIT 1').get();
-                    const tpCheck = tpConn.prepare('SELECT 1 FROM teleporter_messages LIMIT 1').get();
+                    const connections = MESSAGING_PROTOCOLS.map(protocol => ({ protocol, conn: getProtocolConnection(dbCtx, protocol, config.evmChainId) }));
 
-                    if (!lzCheck && !tpCheck) continue;
-
-                    // Prepare statements once
-                    const lzCountStmt = lzConn.prepare(`
-                        SELECT COUNT(*) as c FROM layerzero_messages 
-                        WHERE block_timestamp > ? AND block_timestamp <= ?
-                    `);
-                    const tpCountStmt = tpConn.prepare(`
-                        SELECT COUNT(*) as c FROM teleporter_messages 
-                        WHERE block_timestamp > ? AND block_timestamp <= ?
-                    `);
+                    // Skip chains without data for any protocol
+                    if (connections.every(({ conn }) => conn === null)) continue;
 
+                    // Zeros are kept to preserve alignment across chains
                     const data: WindowDataPoint[] = [];
                     for (const w of windows) {
-                        const lzRow = lzCountStmt.get(w.fromTs, w.toTs) as { c: number } | undefined;
-                        const tpRow = tpCountStmt.get(w.fromTs, w.toTs) as { c: number } | undefined;
-                        const layerzero = lzRow?.c || 0;
-                        const icm = tpRow?.c || 0;
-                        if (layerzero === 0 && icm === 0) {
-                            // keep zeros to preserve alignment across chains; we'll filter empty chains later
+                        const point: WindowDataPoint = { fromTs: w.fromTs, toTs: w.toTs };
+                        for (const { protocol, conn } of connections) {
+                            point[protocol.id] = conn ? countProtocolMessages(conn, protocol, w.fromTs, w.toTs) : 0;
                         }
-                        data.push({ fromTs: w.fromTs, toTs: w.toTs, layerzero, icm });
+                        data.push(point);
                     }
 
                     // Skip chains with no activity across all windows
-                    const hasActivity = data.some(d => d.layerzero > 0 || d.icm > 0);
+                    const hasActivity = data.some(d => MESSAGING_PROTOCOL_IDS.some(id => d[id]! > 0));
                     if (!hasActivity) continue;
 
                     results.push({
@@ -213,6 +261,7 @@ const module: ApiPlugin = {
         }>('/api/global/messaging/comparison/detailed', {
             schema: {
                 tags: ["Cross-Chain Messaging"],
+                description: `Message totals and chain pairs with costs per chain for every messaging protocol: ${protocolList}.`,
                 querystring: {
                     type: 'object',
                     properties: {
@@ -245,13 +294,10 @@ const module: ApiPlugin = {
                                     type: 'string',
                                     description: 'Avalanche blockchain ID'
                                 },
-                                layerzeroTotal: { 
-                                    type: 'number',
-                                    description: 'Total LayerZero messages in period'
-                                },
-                                icmTotal: { 
-                                    type: 'number',
-                                    description: 'Total ICM/Teleporter messages in period'
+                                protocolTotals: {
+                                    type: 'object',
+                                    description: 'Total messages in period per protocol id',
+                                    additionalProperties: { type: 'number' }
                                 },
                                 chainPairs: {
                                     type: 'array',
@@ -262,9 +308,17 @@ const module: ApiPlugin = {
                                                 type: 'string',
                                                 description: 'Connected chain ID (blockchain ID for ICM, endpoint ID for LayerZero)'
                                             },
+                                            otherChainName: {
+                                                type: 'string',
+                                                description: 'Connected chain name from the indexed chains or the LayerZero EID registry (V1 and V2 EIDs), "EID <id>" if unknown'
+                                            },
+                                            otherBlockchainId: {
+                                                type: ['string', 'null'],
+                                                description: 'Avalanche blockchain ID of the connected chain, null for LayerZero chains outside Avalanche or not in the registry'
+                                            },
                                             protocol: { 
                                                 type: 'string', 
-                                                enum: ['icm', 'layerzero'],
+                                                enum: MESSAGING_PROTOCOL_IDS,
                                                 description: 'Cross-chain protocol used'
                                             },
                                             inbound: { 
@@ -278,13 +332,25 @@ const module: ApiPlugin = {
                                             total: { 
                                                 type: 'number',
                                                 description: 'Total bidirectional message count'
+                                            },
+                                            costs: {
+                                                type: ['object', 'null'],
+                                                description: 'Costs on this chain in its native token, null without cost data for the pair. ICM gas comes from icm_gas_usage (5 minute intervals), LayerZero gas is the tx gas split across the packets of the tx',
+                                                properties: {
+                                                    sendGasCost: { type: 'number', description: 'Gas of the txs sending to the other chain' },
+                                                    receiveGasCost: { type: 'number', description: 'Gas of the txs receiving (ICM) or verifying (LayerZero) messages from the other chain' },
+                                                    executorFee: { type: ['number', 'null'], description: 'Sum of ExecutorFeePaid of outbound V2 packets, null for ICM' },
+                                                    dvnFee: { type: ['number', 'null'], description: 'Sum of DVNFeePaid of outbound V2 packets, null for ICM' },
+                                                    feePaidMessages: { type: ['number', 'null'], description: 'Outbound packets the worker fees were seen for, null for ICM' }
+                                                },
+                                                required: ['sendGasCost', 'receiveGasCost', 'executorFee', 'dvnFee', 'feePaidMessages']
                                             }
                                         },
-                                        required: ['otherChainId', 'protocol', 'inbound', 'outbound', 'total']
+                                        required: ['otherChainId', 'otherChainName', 'otherBlockchainId', 'protocol', 'inbound', 'outbound', 'total', 'costs']
                                     }
                                 }
                             },
-                            required: ['chainId', 'chainName', 'blockchainId', 'layerzeroTotal', 'icmTotal', 'chainPairs']
+                            required: ['chainId', 'chainName', 'blockchainId', 'protocolTotals', 'chainPairs']
                         }
                     }
                 }
@@ -301,120 +367,29 @@ const module: ApiPlugin = {
 
             for (const config of configs) {
                 try {
-                    const lzConn = dbCtx.getIndexerDbConnection(config.evmChainId, 'layerzero_messages');
-                    const tpConn = dbCtx.getIndexerDbConnection(config.evmChainId, 'teleporter_messages');
-
-                    // Quick check if either table has any data
-                    const lzCheck = lzConn.prepare('SELECT 1 FROM layerzero_messages LIMIT 1').get();
-                    const tpCheck = tpConn.prepare('SELECT 1 FROM teleporter_messages LIMIT 1').get();
-
-                    if (!lzCheck && !tpCheck) continue;
-
-                    // Get total counts
-                    const lzTotalRow = lzConn.prepare(`
-                        SELECT COUNT(*) as c FROM layerzero_messages 
-                        WHERE block_timestamp > ? AND block_timestamp <= ?
-                    `).get(startTs, endTs) as { c: number } | undefined;
-
-                    const tpTotalRow = tpConn.prepare(`
-                        SELECT COUNT(*) as c FROM teleporter_messages 
-                        WHERE block_timestamp > ? AND block_timestamp <= ?
-                    `).get(startTs, endTs) as { c: number } | undefined;
-
-                    const layerzeroTotal = lzTotalRow?.c || 0;
-                    const icmTotal = tpTotalRow?.c || 0;
-
-                    // Skip chains with no activity in this period
-                    if (layerzeroTotal === 0 && icmTotal === 0) continue;
-
-                    // Get chain pair breakdown
+                    const protocolTotals: ProtocolMessageCounts = {};
                     const chainPairs: DetailedChainComparison['chainPairs'] = [];
 
-                    // LayerZero chain pairs
-                    if (layerzeroTotal > 0) {
-                        const lzStmt = lzConn.prepare(`
-                            SELECT 
-                                chain_id,
-                                is_outgoing,
-                                COUNT(*) as count
-                            FROM layerzero_messages
-                            WHERE block_timestamp > ? AND block_timestamp <= ?
-                            GROUP BY chain_id, is_outgoing
-                        `);
-
-                        const lzRows = lzStmt.all(startTs, endTs) as Array<{
-                            chain_id: number;
-                            is_outgoing: number;
-                            count: number;
-                        }>;
-
-                        // Aggregate by chain_id
-                        const lzAggregated = new Map<string, { inbound: number; outbound: number }>();
-                        for (const row of lzRows) {
-                            const chainId = row.chain_id.toString();
-                            const current = lzAggregated.get(chainId) || { inbound: 0, outbound: 0 };
-                            if (row.is_outgoing) {
-                                current.outbound += row.count;
-                            } else {
-                                current.inbound += row.count;
-                            }
-                            lzAggregated.set(chainId, current);
-                        }
+                    for (const protocol of MESSAGING_PROTOCOLS) {
+                        const conn = getProtocolConnection(dbCtx, protocol, config.evmChainId);
+                        protocolTotals[protocol.id] = conn ? countProtocolMessages(conn, protocol, startTs, endTs) : 0;
+                        if (!conn || protocolTotals[protocol.id] === 0) continue;
 
-                        // Create chain pair entries
-                        for (const [chainId, counts] of lzAggregated) {
-                            chainPairs.push({
-                                otherChainId: chainId,
-                                protocol: 'layerzero',
-                                inbound: counts.inbound,
-                                outbound: counts.outbound,
-                                total: counts.inbound + counts.outbound
-                            });
+                        let costs = new Map<string, PairCosts>();
+                        try {
+                            costs = protocol.pairCosts?.(dbCtx, config.evmChainId, startTs, endTs) ?? costs;
+                        } catch (error) {
+                            console.error(`Error reading ${protocol.name} costs for ${config.chainName}:`, error);
                         }
-                    }
 
-                    // ICM/Teleporter chain pairs
-                    if (icmTotal > 0) {
-                        const tpStmt = tpConn.prepare(`
-                            SELECT 
-                                other_chain_id,
-                                is_outgoing,
-                                COUNT(*) as count
-                            FROM teleporter_messages
-                            WHERE block_timestamp > ? AND block_timestamp <= ?
-                            GROUP BY other_chain_id, is_outgoing
-                        `);
-
-                        const tpRows = tpStmt.all(startTs, endTs) as Array<{
-                            other_chain_id: string;
-                            is_outgoing: number;
-                            count: number;
-                        }>;
-
-                        // Aggregate by other_chain_id
-                        const tpAggregated = new Map<string, { inbound: number; outbound: number }>();
-                        for (const row of tpRows) {
-                            const current = tpAggregated.get(row.other_chain_id) || { inbound: 0, outbound: 0 };
-                            if (row.is_outgoing) {
-                                current.outbound += row.count;
-                            } else {
-                                current.inbound += row.count;
-                            }
-                            tpAggregated.set(row.other_chain_id, current);
-                        }
-
-                        // Create chain pair entries
-                        for (const [chainId, counts] of tpAggregated) {
-                            chainPairs.push({
-                                otherChainId: chainId,
-                                protocol: 'icm',
-                                inbound: counts.inbound,
-                                outbound: counts.outbound,
-                                total: counts.inbound + counts.outbound
-                            });
+                        for (const pair of protocolPairs(protocol, conn, startTs, endTs, configs)) {
+                            chainPairs.push({ ...pair, costs: costs.get(pair.otherChainId) ?? null });
                         }
                     }
 
+                    // Skip chains with no activity in this period
+                    if (chainPairs.length === 0) continue;
+
                     // Sort chain pairs by total activity
                     chainPairs.sort((a, b) => b.total - a.total);
 
@@ -422,8 +397,7 @@ const module: ApiPlugin = {
                         chainId: config.evmChainId,
                         chainName: config.chainName,
                         blockchainId: config.blockchainId,
-                        layerzeroTotal,
-                        icmTotal,
+                        protocolTotals,
                         chainPairs
                     });
 
@@ -449,10 +423,11 @@ const module: ApiPlugin = {
 
         // NEW: Chain pairs summary endpoint - shows all chain pairs with message counts
         app.get<{
-            Querystring: { days?: number }
+            Querystring: { days?: number; mergeProtocols?: boolean }
         }>('/api/global/messaging/chain-pairs', {
             schema: {
                 tags: ["Cross-Chain Messaging"],
+                description: `Chain pairs with inbound and outbound message counts for every messaging protocol: ${protocolList}.`,
                 querystring: {
                     type: 'object',
                     properties: {
@@ -461,6 +436,10 @@ const module: ApiPlugin = {
                             minimum: 1, 
                             maximum: 365,
                             description: 'Number of days to analyze (default: 30)'
+                        },
+                        mergeProtocols: {
+                            type: 'boolean',
+                            description: 'Combine the rows of all protocols reaching the same counterpart chain (matched by Avalanche blockchain ID) into one row with protocol "all" and a per-protocol breakdown'
                         }
                     },
                     additionalProperties: false
@@ -485,12 +464,20 @@ const module: ApiPlugin = {
                                 },
                                 otherChainId: { 
                                     type: 'string',
-                                    description: 'Connected chain ID (format depends on protocol)'
+                                    description: 'Connected chain ID (format depends on protocol, blockchain ID for merged rows when known)'
+                                },
+                                otherChainName: {
+                                    type: 'string',
+                                    description: 'Connected chain name from the indexed chains or the LayerZero EID registry (V1 and V2 EIDs), "EID <id>" if unknown'
+                                },
+                                otherBlockchainId: {
+                                    type: ['string', 'null'],
+                                    description: 'Avalanche blockchain ID of the connected chain, null for LayerZero chains outside Avalanche or not in the registry'
                                 },
                                 protocol: { 
                                     type: 'string', 
-                                    enum: ['icm', 'layerzero'],
-                                    description: 'Cross-chain messaging protocol'
+                                    enum: [...MESSAGING_PROTOCOL_IDS, 'all'],
+                                    description: 'Cross-chain messaging protocol, "all" for merged rows'
                                 },
                                 inbound: { 
                                     type: 'number',
@@ -503,9 +490,23 @@ const module: ApiPlugin = {
                                 total: { 
                                     type: 'number',
                                     description: 'Total bidirectional message count'
+                                },
+                                breakdown: {
+                                    type: 'array',
+                                    description: 'Per-protocol counts of merged rows',
+                                    items: {
+                                        type: 'object',
+                                        properties: {
+                                            protocol: { type: 'string', enum: MESSAGING_PROTOCOL_IDS },
+                                            inbound: { type: 'number' },
+                                            outbound: { type: 'number' },
+                                            total: { type: 'number' }
+                                        },
+                                        required: ['protocol', 'inbound', 'outbound', 'total']
+                                    }
                                 }
                             },
-                            required: ['sourceChainId', 'sourceChainName', 'sourceBlockchainId', 'otherChainId', 'protocol', 'inbound', 'outbound', 'total']
+                            required: ['sourceChainId', 'sourceChainName', 'sourceBlockchainId', 'otherChainId', 'otherChainName', 'otherBlockchainId', 'protocol', 'inbound', 'outbound', 'total']
                         }
                     }
                 }
@@ -520,116 +521,31 @@ const module: ApiPlugin = {
             const toTs = now;
 
             for (const config of configs) {
-                try {
-                    const lzConn = dbCtx.getIndexerDbConnection(config.evmChainId, 'layerzero_messages');
-                    const tpConn = dbCtx.getIndexerDbConnection(config.evmChainId, 'teleporter_messages');
-
-                    // Quick check if either table has any data
-                    const lzCheck = lzConn.prepare('SELECT 1 FROM layerzero_messages LIMIT 1').get();
-                    const tpCheck = tpConn.prepare('SELECT 1 FROM teleporter_messages LIMIT 1').get();
-
-                    if (!lzCheck && !tpCheck) continue;
-
-                    // LayerZero chain pairs
-                    if (lzCheck) {
-                        const lzStmt = lzConn.prepare(`
-                            SELECT 
-                                chain_id,
-                                is_outgoing,
-                                COUNT(*) as count
-                            FROM layerzero_messages
-                            WHERE block_timestamp > ? AND block_timestamp <= ?
-                            GROUP BY chain_id, is_outgoing
-                        `);
-
-                        const lzRows = lzStmt.all(fromTs, toTs) as Array<{
-                            chain_id: number;
-                            is_outgoing: number;
-                            count: number;
-                        }>;
-
-                        // Aggregate by chain_id
-                        const lzAggregated = new Map<string, { inbound: number; outbound: number }>();
-                        for (const row of lzRows) {
-                            const chainId = row.chain_id.toString();
-                            const current = lzAggregated.get(chainId) || { inbound: 0, outbound: 0 };
-                            if (row.is_outgoing) {
-                                current.outbound += row.count;
-                            } else {
-                                current.inbound += row.count;
-                            }
-                            lzAggregated.set(chainId, current);
-                        }
-
-                        // Create summary entries
-                        for (const [chainId, counts] of lzAggregated) {
-                            results.push({
-                                sourceChainId: config.evmChainId,
-                                sourceChainName: config.chainName,
-                                sourceBlockchainId: config.blockchainId,
-                                otherChainId: chainId,
-                                protocol: 'layerzero',
-                                inbound: counts.inbound,
-                                outbound: counts.outbound,
-                                total: counts.inbound + counts.outbound
-                            });
-                        }
-                    }
-
-                    // ICM/Teleporter chain pairs
-                    if (tpCheck) {
-                        const tpStmt = tpConn.prepare(`
-                            SELECT 
-                                other_chain_id,
-                                is_outgoing,
-                                COUNT(*) as count
-                            FROM teleporter_messages
-                            WHERE block_timestamp > ? AND block_timestamp <= ?
-                            GROUP BY other_chain_id, is_outgoing
-                        `);
-
-                        const tpRows = tpStmt.all(fromTs, toTs) as Array<{
-                            other_chain_id: string;
-                            is_outgoing: number;
-                            count: number;
-                        }>;
-
-                        // Aggregate by other_chain_id
-                        const tpAggregated = new Map<string, { inbound: number; outbound: number }>();
-                        for (const row of tpRows) {
-                            const current = tpAggregated.get(row.other_chain_id) || { inbound: 0, outbound: 0 };
-                            if (row.is_outgoing) {
-                                current.outbound += row.count;
-                            } else {
-                                current.inbound += row.count;
-                            }
-                            tpAggregated.set(row.other_chain_id, current);
-                        }
+                for (const protocol of MESSAGING_PROTOCOLS) {
+                    try {
+                        const conn = getProtocolConnection(dbCtx, protocol, config.evmChainId);
+                        if (!conn) continue;
 
-                        // Create summary entries
-                        for (const [chainId, counts] of tpAggregated) {
+                        for (const pair of protocolPairs(protocol, conn, fromTs, toTs, configs)) {
                             results.push({
                                 sourceChainId: config.evmChainId,
                                 sourceChainName: config.chainName,
                                 sourceBlockchainId: config.blockchainId,
-                                otherChainId: chainId,
-                                protocol: 'icm',
-                                inbound: counts.inbound,
-                                outbound: counts.outbound,
-                                total: counts.inbound + counts.outbound
+                                ...pair
                             });
                         }
+                    } catch (error) {
+                        console.error(`Error processing ${protocol.name} on chain ${config.chainName}:`, error);
                     }
-
-                } catch (error) {
-                    console.error(`Error processing chain ${config.chainName}:`, error);
                 }
             }
 
+            const pairs = request.query.mergeProtocols ? mergeProtocols(results) : results;
+
             // Sort by total activity descending
-            results.sort((a, b) => b.total - a.total);
+            pairs.sort((a, b) => b.total - a.total);
 
-            return reply.send(results);
+            return reply.send(pairs);
         });
     }
 };
@@ -1,8 +1,8 @@
-import type { IndexingPlugin } from "frostbyte-sdk";
+import { finishBatch, initBlockRange, planBatch, rewindBlockRange, txBlockNumber, type BlockRollbackPlugin } from "./lib/blockLedger";
 
-const module: IndexingPlugin = {
+const module: BlockRollbackPlugin = {
     name: "minute_tx_counter",
-    version: 7,
+    version: 10,
     usesTraces: false,
 
     initialize: (db) => {
@@ -14,14 +14,27 @@ const module: IndexingPlugin = {
             )
         `);
 
+        // Hourly checkpoints for cumulative counts, summed at query time (see lib/cumulativeTxs)
         db.exec(`
-            CREATE TABLE IF NOT EXISTS cumulative_tx_counts (
-                minute_ts INTEGER PRIMARY KEY,  -- Unix timestamp rounded down to minute
-                cumulative_count INTEGER NOT NULL,
-                cumulative_gas_used INTEGER NOT NULL DEFAULT 0
+            CREATE TABLE IF NOT EXISTS hourly_tx_counts (
+                hour_ts INTEGER PRIMARY KEY,  -- Unix timestamp rounded down to hour
+                tx_count INTEGER NOT NULL,
+                gas_used INTEGER NOT NULL DEFAULT 0
+            )
+        `);
+
+        // What each block added to minute_tx_counts, kept for the rollback window
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS minute_tx_ledger (
+                block_number INTEGER PRIMARY KEY,
+                minute_ts INTEGER NOT NULL,
+                tx_count INTEGER NOT NULL,
+                gas_used INTEGER NOT NULL
             )
         `);
 
+        initBlockRange(db);
+
         try {
             db.exec(`
                 CREATE INDEX IF NOT EXISTS idx_minute_ts ON minute_tx_counts(minute_ts)
@@ -32,48 +45,75 @@ const module: IndexingPlugin = {
                 throw error;
             }
         }
+    },
 
-        try {
-            db.exec(`
-                CREATE INDEX IF NOT EXISTS idx_cumulative_minute_ts ON cumulative_tx_counts(minute_ts)
-            `);
-        } catch (error: any) {
-            // Ignore error if index already exists
-            if (!error.message.includes('already exists')) {
-                throw error;
-            }
+    // Subtracts the ledgered blocks >= fromBlock from the minute and hourly counts
+    rollbackBlocks: (db, fromBlock) => {
+        const reverted = db.prepare(`
+            SELECT minute_ts, SUM(tx_count) as tx_count, SUM(gas_used) as gas_used
+            FROM minute_tx_ledger
+            WHERE block_number >= ?
+            GROUP BY minute_ts
+        `).all(fromBlock) as Array<{ minute_ts: number; tx_count: number; gas_used: number }>;
+
+        const subtractMinuteStmt = db.prepare(`
+            UPDATE minute_tx_counts SET tx_count = tx_count - ?, gas_used = gas_used - ? WHERE minute_ts = ?
+        `);
+        const subtractHourStmt = db.prepare(`
+            UPDATE hourly_tx_counts SET tx_count = tx_count - ?, gas_used = gas_used - ? WHERE hour_ts = ?
+        `);
+
+        // Minutes and hours left without transactions disappear like they were never indexed
+        const deleteMinuteStmt = db.prepare('DELETE FROM minute_tx_counts WHERE minute_ts = ? AND tx_count <= 0');
+        const deleteHourStmt = db.prepare('DELETE FROM hourly_tx_counts WHERE hour_ts = ? AND tx_count <= 0');
+
+        for (const row of reverted) {
+            const hourTs = Math.floor(row.minute_ts / 3600) * 3600;
+            subtractMinuteStmt.run(row.tx_count, row.gas_used, row.minute_ts);
+            subtractHourStmt.run(row.tx_count, row.gas_used, hourTs);
+            deleteMinuteStmt.run(row.minute_ts);
+            deleteHourStmt.run(hourTs);
         }
+
+        db.prepare('DELETE FROM minute_tx_ledger WHERE block_number >= ?').run(fromBlock);
+        rewindBlockRange(db, fromBlock);
     },
 
     handleTxBatch: (db, blocksDb, batch) => {
-        // Accumulate tx counts and gas usage by minute in memory
+        const { txs, rollbackFromBlock } = planBatch(db, batch.txs);
+
+        // Accumulate tx counts and gas usage by minute, hour and block in memory
         const minuteStats = new Map<number, { count: number, gasUsed: number }>();
+        const hourStats = new Map<number, { count: number, gasUsed: number }>();
+        const blockStats = new Map<number, { minuteTs: number, count: number, gasUsed: number }>();
 
-        for (const tx of batch.txs) {
+        for (const tx of txs) {
             const ts = tx.blockTs;
             const minuteTs = Math.floor(ts / 60) * 60;
+            const gasUsed = Number(tx.receipt.gasUsed || 0);
             const stats = minuteStats.get(minuteTs) || { count: 0, gasUsed: 0 };
             stats.count += 1;
-            stats.gasUsed += Number(tx.receipt.gasUsed || 0);
+            stats.gasUsed += gasUsed;
             minuteStats.set(minuteTs, stats);
+
+            const hourTs = Math.floor(ts / 3600) * 3600;
+            const hour = hourStats.get(hourTs) || { count: 0, gasUsed: 0 };
+            hour.count += 1;
+            hour.gasUsed += gasUsed;
+            hourStats.set(hourTs, hour);
+
+            const blockNumber = txBlockNumber(tx);
+            const block = blockStats.get(blockNumber) || { minuteTs, count: 0, gasUsed: 0 };
+            block.count += 1;
+            block.gasUsed += gasUsed;
+            blockStats.set(blockNumber, block);
         }
 
+        if (rollbackFromBlock !== null) module.rollbackBlocks(db, rollbackFromBlock);
+
         // Only write to DB if we have accumulated enough data
         if (minuteStats.size === 0) return;
 
-        // Sort minutes to process them in chronological order
-        const sortedMinutes = Array.from(minuteStats.entries()).sort((a, b) => a[0] - b[0]);
-        const firstMinuteTs = sortedMinutes[0]![0];
-
-        // Get the cumulative counts just before our first minute
-        const selectStmt = db.prepare(
-            'SELECT cumulative_count, cumulative_gas_used FROM cumulative_tx_counts WHERE minute_ts < ? ORDER BY minute_ts DESC LIMIT 1'
-        );
-        const previousCumulative = selectStmt.get(firstMinuteTs) as { cumulative_count: number, cumulative_gas_used: number } | undefined;
-
-        let runningTotal = previousCumulative?.cumulative_count || 0;
-        let runningGasTotal = previousCumulative?.cumulative_gas_used || 0;
-
         // Prepare statements for batch operations
         const insertMinuteStmt = db.prepare(`
             INSERT INTO minute_tx_counts (minute_ts, tx_count, gas_used)
@@ -83,24 +123,32 @@ const module: IndexingPlugin = {
                 gas_used = gas_used + excluded.gas_used
         `);
 
-        const insertCumulativeStmt = db.prepare(`
-            INSERT INTO cumulative_tx_counts (minute_ts, cumulative_count, cumulative_gas_used)
+        const insertHourStmt = db.prepare(`
+            INSERT INTO hourly_tx_counts (hour_ts, tx_count, gas_used)
             VALUES (?, ?, ?)
-            ON CONFLICT(minute_ts) DO UPDATE SET
-                cumulative_count = excluded.cumulative_count,
-                cumulative_gas_used = excluded.cumulative_gas_used
+            ON CONFLICT(hour_ts) DO UPDATE SET
+                tx_count = tx_count + excluded.tx_count,
+                gas_used = gas_used + excluded.gas_used
         `);
 
-        // Process each minute
-        for (const [minuteTs, stats] of sortedMinutes) {
-            // Insert minute stats
+        for (const [minuteTs, stats] of minuteStats) {
             insertMinuteStmt.run(minuteTs, stats.count, stats.gasUsed);
+        }
 
-            // Update running totals and insert cumulative counts
-            runningTotal += stats.count;
-            runningGasTotal += stats.gasUsed;
-            insertCumulativeStmt.run(minuteTs, runningTotal, runningGasTotal);
+        // Minutes may arrive in any order, hourly totals stay exact since nothing here is a running total
+        for (const [hourTs, stats] of hourStats) {
+            insertHourStmt.run(hourTs, stats.count, stats.gasUsed);
         }
+
+        const insertLedgerStmt = db.prepare(`
+            INSERT OR REPLACE INTO minute_tx_ledger (block_number, minute_ts, tx_count, gas_used)
+            VALUES (?, ?, ?, ?)
+        `);
+        for (const [blockNumber, block] of blockStats) {
+            insertLedgerStmt.run(blockNumber, block.minuteTs, block.count, block.gasUsed);
+        }
+
+        finishBatch(db, txs, ['minute_tx_ledger']);
     }
 };
 
@@ -1,4 +1,7 @@
 import type { ApiPlugin } from "frostbyte-sdk";
+import { viem } from "frostbyte-sdk";
+import { MESSAGING_INDEXER_NAMES, MESSAGING_PROTOCOL_IDS, MESSAGING_PROTOCOLS, getProtocolConnection } from "./lib/messagingProtocols";
+import { ROLLUP_RETENTION, nextRollupBucket, rollupBucketStart, type RollupResolution } from "./lib/rollups";
 
 interface TxSumResult {
     total_txs: number | null;
@@ -19,6 +22,13 @@ interface DailyTxDataPoint {
     [chainId: string]: number | string; // date is string, chain values are numbers
 }
 
+interface UsdMovementRow {
+    month: string;
+    amount_raw: string;
+    token_decimals: number;
+    price_usd: number | null;
+}
+
 interface CacheEntry<T> {
     promise: Promise<T>;
     timestamp: number;
@@ -43,9 +53,93 @@ function getCached<T>(key: string, factory: () => Promise<T>): Promise<T> {
     return promise;
 }
 
+type CompactPeriod = 'hourly' | 'daily' | 'weekly' | 'monthly';
+
+const COMPACT_RESOLUTIONS: Record<CompactPeriod, RollupResolution> = {
+    hourly: 'hour',
+    daily: 'day',
+    weekly: 'week',
+    monthly: 'month'
+};
+
+// Compact tx series start no earlier than the Avalanche C-Chain launch
+const COMPACT_AXIS_START = Math.floor(Date.UTC(2020, 8, 23) / 1000);
+
+interface CompactRangeQuery {
+    days?: number;
+    from?: number;
+    to?: number;
+}
+
+interface TxsByChainCompact {
+    dates: string[];
+    timestamps: number[];
+    chains: Array<{ evmChainId: number; name: string; values: number[] }>;
+}
+
+const compactRangeQuerystring = {
+    days: { type: 'integer', minimum: 1, description: 'Last N days up to now' },
+    from: { type: 'number', description: 'Custom range start (Unix timestamp), the bucket containing it is the first one. Takes precedence over days' },
+    to: { type: 'number', description: 'Custom range end (Unix timestamp), inclusive. Defaults to and is capped at now' }
+};
+
+function compactTxsResponse(datesDescription: string, valuesDescription: string) {
+    return {
+        type: 'object',
+        properties: {
+            dates: {
+                type: 'array',
+                items: { type: 'string' },
+                description: datesDescription
+            },
+            timestamps: {
+                type: 'array',
+                items: { type: 'number' },
+                description: 'Bucket start (Unix timestamp, UTC) of each date'
+            },
+            chains: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    properties: {
+                        evmChainId: { type: 'number' },
+                        name: { type: 'string' },
+                        values: {
+                            type: 'array',
+                            items: { type: 'number' },
+                            description: valuesDescription
+                        }
+                    },
+                    required: ['evmChainId', 'name', 'values']
+                }
+            }
+        },
+        required: ['dates', 'timestamps', 'chains']
+    };
+}
+
+function compactDateLabel(ts: number, period: CompactPeriod): string {
+    const iso = new Date(ts * 1000).toISOString();
+    switch (period) {
+        case 'hourly':
+            return `${iso.substring(0, 13)}:00Z`;
+        case 'daily':
+            return iso.substring(0, 10);
+        case 'weekly': {
+            // ISO week-numbering year is the year of the week's Thursday
+            const thursday = new Date((ts + 3 * 86400) * 1000);
+            const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+            const week = Math.floor((thursday.getTime() - yearStart) / (7 * 86400 * 1000)) + 1;
+            return `${thursday.getUTCFullYear()}-W${week.toString().padStart(2, '0')}`;
+        }
+        case 'monthly':
+            return iso.substring(0, 7);
+    }
+}
+
 const module: ApiPlugin = {
     name: "overview_api",
-    requiredIndexers: ['minute_tx_counter', 'period_address_activity', 'period_tx_counter', 'ictt', 'icm_gas_usage'],
+    requiredIndexers: Array.from(new Set(['minute_tx_counter', 'period_address_activity', 'period_tx_counter', 'rollups', 'ictt', 'icm_gas_usage', ...MESSAGING_INDEXER_NAMES])),
 
     registerRoutes: (app, dbCtx) => {
         app.get('/api/global/overview/lastWeekTxs', {
@@ -289,170 +383,153 @@ const module: ApiPlugin = {
             });
         });
 
-        // Helper function to get tx data for a given period
-        async function getTxsByChainCompact(
-            period: 'daily' | 'monthly',
-            cacheKey: string,
-            startDate: Date
-        ) {
-            return getCached(cacheKey, async () => {
-                const configs = dbCtx.getAllChainConfigs();
+        // Transaction counts per chain from the rollup buckets of the range. Dates are every bucket from
+        // the one containing fromTs to the one containing toTs, buckets without transactions get 0.
+        // The range is clamped to COMPACT_AXIS_START, the retention of the resolution and now, which bounds
+        // a response to a few thousand buckets per chain (hours of the retention, days since 2020)
+        function buildTxsByChainCompact(period: CompactPeriod, fromTs: number, toTs: number): TxsByChainCompact {
+            const configs = dbCtx.getAllChainConfigs();
+            const resolution = COMPACT_RESOLUTIONS[period];
+            const now = Math.floor(Date.now() / 1000);
+            const retention = ROLLUP_RETENTION[resolution];
+            const retainedFrom = retention === null ? COMPACT_AXIS_START : now - retention;
+            const firstBucket = rollupBucketStart(Math.max(fromTs, COMPACT_AXIS_START, retainedFrom), resolution);
+            const lastTs = Math.min(toTs, now);
+
+            const countsByChain = new Map<number, Map<number, number>>();
+
+            for (const config of configs) {
+                const conn = dbCtx.getIndexerDbConnection(config.evmChainId, "rollups");
+                const rows = conn.prepare(`
+                    SELECT bucket_ts, tx_count
+                    FROM rollup_buckets
+                    WHERE resolution = ? AND bucket_ts >= ? AND bucket_ts <= ?
+                `).all(resolution, firstBucket, lastTs) as Array<{ bucket_ts: number; tx_count: number }>;
+
+                countsByChain.set(config.evmChainId, new Map(rows.map(row => [row.bucket_ts, row.tx_count])));
+            }
 
-                const startTs = startDate.getTime() / 1000;
-                const now = Math.floor(Date.now() / 1000);
+            const timestamps: number[] = [];
+            for (let ts = firstBucket; ts <= lastTs; ts = nextRollupBucket(ts, resolution)) timestamps.push(ts);
 
-                let endTs: number;
-                let dateFormatter: (ts: number) => string;
-
-                if (period === 'daily') {
-                    endTs = Math.floor(now / 86400) * 86400; // Round to start of current day
-                    dateFormatter = (ts: number) => new Date(ts * 1000).toISOString().split('T')[0];
-                } else {
-                    // Round to start of current month
-                    const currentDate = new Date(now * 1000);
-                    currentDate.setUTCDate(1);
-                    currentDate.setUTCHours(0, 0, 0, 0);
-                    endTs = Math.floor(currentDate.getTime() / 1000);
-                    dateFormatter = (ts: number) => {
-                        const date = new Date(ts * 1000);
-                        return date.toISOString().substring(0, 7); // YYYY-MM format
+            return {
+                dates: timestamps.map(ts => compactDateLabel(ts, period)),
+                timestamps,
+                chains: configs.map(config => {
+                    const counts = countsByChain.get(config.evmChainId)!;
+                    return {
+                        evmChainId: config.evmChainId,
+                        name: config.chainName,
+                        values: timestamps.map(ts => counts.get(ts) || 0)
                     };
-                }
-
-                // Generate date labels
-                const dates: string[] = [];
-                if (period === 'daily') {
-                    for (let ts = startTs; ts <= endTs; ts += 86400) { // 86400 = 1 day in seconds
-                        dates.push(dateFormatter(ts));
-                    }
-                } else {
-                    // For monthly, we need special handling
-                    const currentDate = new Date(startTs * 1000);
-                    while (currentDate.getTime() / 1000 <= endTs) {
-                        dates.push(dateFormatter(currentDate.getTime() / 1000));
-                        currentDate.setUTCMonth(currentDate.getUTCMonth() + 1);
-                    }
-                }
+                })
+            };
+        }
 
-                // Collect data from all chains
-                const chains: Array<{
-                    evmChainId: number;
-                    name: string;
-                    values: number[];
-                }> = [];
+        // Only the default range of each period is cached, days and from/to requests are built each time
+        function getTxsByChainCompact(period: CompactPeriod, query: CompactRangeQuery): Promise<TxsByChainCompact> | { error: string } {
+            const now = Math.floor(Date.now() / 1000);
+            const resolution = COMPACT_RESOLUTIONS[period];
 
-                for (const config of configs) {
-                    const conn = dbCtx.getIndexerDbConnection(config.evmChainId, "period_tx_counter");
+            if (query.from !== undefined || query.to !== undefined) {
+                const fromTs = rollupBucketStart(query.from ?? 0, resolution);
+                const toTs = query.to ?? now;
+                if (fromTs > toTs) return { error: 'from must not be after to' };
+                return Promise.resolve(buildTxsByChainCompact(period, fromTs, toTs));
+            }
 
-                    // Get counts for this chain in the specified period
-                    const query = period === 'daily'
-                        ? `SELECT day_ts as ts, tx_count FROM daily_tx_counts WHERE day_ts >= ? AND day_ts <= ? ORDER BY day_ts ASC`
-                        : `SELECT month_ts as ts, tx_count FROM monthly_tx_counts WHERE month_ts >= ? AND month_ts <= ? ORDER BY month_ts ASC`;
+            if (query.days !== undefined) {
+                return Promise.resolve(buildTxsByChainCompact(period, rollupBucketStart(now - query.days * 86400, resolution), now));
+            }
 
-                    const counts = conn.prepare(query).all(startTs, endTs) as Array<{ ts: number; tx_count: number }>;
+            const fromTs = period === 'hourly' ? rollupBucketStart(now - 7 * 86400, resolution) : COMPACT_AXIS_START;
+            return getCached(`txsByChainCompact:${period}`, async () => buildTxsByChainCompact(period, fromTs, now));
+        }
 
-                    // Create a map for quick lookup
-                    const countMap = new Map<string, number>();
-                    for (const count of counts) {
-                        countMap.set(dateFormatter(count.ts), count.tx_count);
+        app.get<{
+            Querystring: CompactRangeQuery & { period: CompactPeriod }
+        }>('/api/global/overview/txsByChainCompact', {
+            schema: {
+                description: `Transaction counts by chain in compact format (arrays) from the rollups indexer, which buckets every transaction by block timestamp in UTC. Periods: hourly (hour buckets are kept for ${ROLLUP_RETENTION.hour! / 86400} days), daily, weekly (ISO weeks starting Monday 00:00 UTC) and monthly. Range: from/to for a custom range, otherwise the last days days (hourly defaults to 7), otherwise everything since 2020-09-23. Every bucket of the range is listed, 0 where a chain has no transactions; ranges start no earlier than 2020-09-23 and, for hourly, the hour bucket retention.`,
+                tags: ['📊 L1Beat Overview'],
+                querystring: {
+                    type: 'object',
+                    properties: {
+                        period: { type: 'string', enum: Object.keys(COMPACT_RESOLUTIONS) },
+                        ...compactRangeQuerystring
+                    },
+                    required: ['period'],
+                    additionalProperties: false
+                },
+                response: {
+                    200: compactTxsResponse('Bucket labels: YYYY-MM-DDTHH:00Z (hourly), YYYY-MM-DD (daily), YYYY-Www ISO week (weekly), YYYY-MM (monthly)', 'Transaction counts corresponding to dates array'),
+                    400: {
+                        type: 'object',
+                        properties: {
+                            error: { type: 'string' }
+                        }
                     }
-
-                    // Build values array in same order as dates
-                    const values: number[] = dates.map(date => countMap.get(date) || 0);
-
-                    chains.push({
-                        evmChainId: config.evmChainId,
-                        name: config.chainName,
-                        values
-                    });
                 }
+            }
+        }, async (request, reply) => {
+            const { period, ...range } = request.query;
+            const result = getTxsByChainCompact(period, range);
+            if ('error' in result) return reply.code(400).send(result);
+            return result;
+        });
 
-                return { dates, chains };
-            });
-        }
-
-        app.get('/api/global/overview/dailyTxsByChainCompact', {
+        app.get<{
+            Querystring: CompactRangeQuery
+        }>('/api/global/overview/dailyTxsByChainCompact', {
             schema: {
-                description: 'Get daily transaction counts by chain in compact format (arrays) since September 2020',
+                description: 'Get daily transaction counts by chain in compact format (arrays) from the rollups indexer day buckets, for every day since 2020-09-23 unless days or from/to narrow the range. Every day of the range is listed, 0 where a chain has no transactions. Same as txsByChainCompact?period=daily',
                 tags: ['📊 L1Beat Overview'],
+                querystring: {
+                    type: 'object',
+                    properties: compactRangeQuerystring,
+                    additionalProperties: false
+                },
                 response: {
-                    200: {
+                    200: compactTxsResponse('Array of dates in YYYY-MM-DD format', 'Daily transaction counts corresponding to dates array'),
+                    400: {
                         type: 'object',
                         properties: {
-                            dates: {
-                                type: 'array',
-                                items: { type: 'string' },
-                                description: 'Array of dates in YYYY-MM-DD format'
-                            },
-                            chains: {
-                                type: 'array',
-                                items: {
-                                    type: 'object',
-                                    properties: {
-                                        evmChainId: { type: 'number' },
-                                        name: { type: 'string' },
-                                        values: {
-                                            type: 'array',
-                                            items: { type: 'number' },
-                                            description: 'Daily transaction counts corresponding to dates array'
-                                        }
-                                    },
-                                    required: ['evmChainId', 'name', 'values']
-                                }
-                            }
-                        },
-                        required: ['dates', 'chains']
+                            error: { type: 'string' }
+                        }
                     }
                 }
             }
         }, async (request, reply) => {
-            return getTxsByChainCompact(
-                'daily',
-                'dailyTxsByChainCompact',
-                new Date('2020-09-23T00:00:00Z')
-            );
+            const result = getTxsByChainCompact('daily', request.query);
+            if ('error' in result) return reply.code(400).send(result);
+            return result;
         });
 
-        app.get('/api/global/overview/monthlyTxsByChainCompact', {
+        app.get<{
+            Querystring: CompactRangeQuery
+        }>('/api/global/overview/monthlyTxsByChainCompact', {
             schema: {
-                description: 'Get monthly transaction counts by chain in compact format (arrays) since September 2020',
+                description: 'Get monthly transaction counts by chain in compact format (arrays) from the rollups indexer month buckets, for every month since September 2020 unless days or from/to narrow the range. Every month of the range is listed, 0 where a chain has no transactions. Same as txsByChainCompact?period=monthly',
                 tags: ['📊 L1Beat Overview'],
+                querystring: {
+                    type: 'object',
+                    properties: compactRangeQuerystring,
+                    additionalProperties: false
+                },
                 response: {
-                    200: {
+                    200: compactTxsResponse('Array of months in YYYY-MM format', 'Monthly transaction counts corresponding to dates array'),
+                    400: {
                         type: 'object',
                         properties: {
-                            dates: {
-                                type: 'array',
-                                items: { type: 'string' },
-                                description: 'Array of months in YYYY-MM format'
-                            },
-                            chains: {
-                                type: 'array',
-                                items: {
-                                    type: 'object',
-                                    properties: {
-                                        evmChainId: { type: 'number' },
-                                        name: { type: 'string' },
-                                        values: {
-                                            type: 'array',
-                                            items: { type: 'number' },
-                                            description: 'Monthly transaction counts corresponding to dates array'
-                                        }
-                                    },
-                                    required: ['evmChainId', 'name', 'values']
-                                }
-                            }
-                        },
-                        required: ['dates', 'chains']
+                            error: { type: 'string' }
+                        }
                     }
                 }
             }
         }, async (request, reply) => {
-            return getTxsByChainCompact(
-                'monthly',
-                'monthlyTxsByChainCompact',
-                new Date('2020-09-01T00:00:00Z') // Start from September 2020
-            );
+            const result = getTxsByChainCompact('monthly', request.query);
+            if ('error' in result) return reply.code(400).send(result);
+            return result;
         });
 
         app.get('/api/global/overview/monthlyICTTOperationsByChainCompact', {
@@ -533,12 +610,14 @@ const module: ApiPlugin = {
                     const conn = dbCtx.getIndexerDbConnection(config.evmChainId, "ictt");
 
                     // Query movements grouped by month and pair_chain
+                    // Home side only, remote movements would count the same transfer twice
                     const movements = conn.prepare(`
                         SELECT 
                             strftime('%Y-%m', datetime(block_timestamp, 'unixepoch')) as month,
                             pair_chain,
                             COUNT(*) as movement_count
                         FROM token_movements
+                        WHERE role = 'home'
                         GROUP BY month, pair_chain
                     `).all() as Array<{ month: string; pair_chain: string; movement_count: number }>;
 
@@ -590,6 +669,111 @@ const module: ApiPlugin = {
             });
         });
 
+        app.get('/api/global/overview/monthlyBridgedUsdVolumeByChainCompact', {
+            schema: {
+                description: 'Get monthly ICTT bridged volume in USD by home chain in compact format since June 2024. Each ICTT home movement (outbound and inbound) is valued at its coin\'s daily USD price from the ictt indexer\'s token_prices table. A multi-hop transfer routed through a home counts once, at its inbound leg. Movements of coins without a price are left out and counted in unpricedTransfers.',
+                tags: ['📊 L1Beat Overview'],
+                response: {
+                    200: {
+                        type: 'object',
+                        properties: {
+                            dates: {
+                                type: 'array',
+                                items: { type: 'string' },
+                                description: 'Array of months in YYYY-MM format'
+                            },
+                            totalUsd: { type: 'number', description: 'Bridged USD volume across all chains over the months in dates' },
+                            unpricedTransfers: { type: 'number', description: 'Home movements over the months in dates without a USD price, not included in the values' },
+                            chains: {
+                                type: 'array',
+                                items: {
+                                    type: 'object',
+                                    properties: {
+                                        evmChainId: { type: 'number' },
+                                        name: { type: 'string' },
+                                        values: {
+                                            type: 'array',
+                                            items: { type: 'number' },
+                                            description: 'Monthly USD volume (inbound + outbound) of ICTT homes on this chain'
+                                        }
+                                    },
+                                    required: ['evmChainId', 'name', 'values']
+                                }
+                            }
+                        },
+                        required: ['dates', 'totalUsd', 'unpricedTransfers', 'chains']
+                    }
+                }
+            }
+        }, async (request, reply) => {
+            return getCached('monthlyBridgedUsdVolumeByChainCompact', async () => {
+                const configs = dbCtx.getAllChainConfigs();
+
+                // June 1st 2024 00:00:00 UTC
+                const startDate = new Date('2024-06-01T00:00:00Z');
+
+                // Round to start of current month
+                const now = Math.floor(Date.now() / 1000);
+                const endDate = new Date(now * 1000);
+                endDate.setUTCDate(1);
+                endDate.setUTCHours(0, 0, 0, 0);
+
+                // Generate month labels
+                const dates: string[] = [];
+                const currentDate = new Date(startDate);
+                while (currentDate <= endDate) {
+                    dates.push(currentDate.toISOString().substring(0, 7)); // YYYY-MM format
+                    currentDate.setUTCMonth(currentDate.getUTCMonth() + 1);
+                }
+
+                let totalUsd = 0;
+                let unpricedTransfers = 0;
+                const chains: Array<{
+                    evmChainId: number;
+                    name: string;
+                    values: number[];
+                }> = [];
+
+                for (const config of configs) {
+                    const conn = dbCtx.getIndexerDbConnection(config.evmChainId, "ictt");
+
+                    // Home side only, like the operations count. Remote movements mirror the same transfers.
+                    // A routed transfer leaves an inbound and an outbound leg at the home, only the inbound one counts
+                    const movements = conn.prepare(`
+                        SELECT 
+                            strftime('%Y-%m', datetime(tm.block_timestamp, 'unixepoch')) as month,
+                            tm.amount_raw,
+                            rth.token_decimals,
+                            (SELECT tp.price_usd FROM token_prices tp WHERE tp.coin_address = rth.coin_address AND tp.day_ts <= tm.block_timestamp AND tp.price_usd IS NOT NULL ORDER BY tp.day_ts DESC LIMIT 1) as price_usd
+                        FROM token_movements tm
+                        JOIN recognized_token_homes rth ON tm.contract_address = rth.contract_address
+                        WHERE tm.role = 'home'
+                          AND tm.block_timestamp >= ?
+                          AND NOT (tm.is_inbound = 0 AND tm.event_name IN ('TokensRouted', 'TokensAndCallRouted'))
+                    `).all(Math.floor(startDate.getTime() / 1000)) as UsdMovementRow[];
+
+                    const monthTotals = new Map<string, number>();
+                    for (const movement of movements) {
+                        if (movement.price_usd === null) {
+                            unpricedTransfers++;
+                            continue;
+                        }
+                        const usd = Number(viem.formatUnits(BigInt(movement.amount_raw), movement.token_decimals)) * movement.price_usd;
+                        monthTotals.set(movement.month, (monthTotals.get(movement.month) || 0) + usd);
+                        totalUsd += usd;
+                    }
+
+                    chains.push({
+                        evmChainId: config.evmChainId,
+                        name: config.chainName,
+                        values: dates.map(date => monthTotals.get(date) || 0)
+                    });
+                }
+
+                return { dates, totalUsd, unpricedTransfers, chains };
+            });
+        });
+
         // Endpoint for monthly ICM messages by chain (incoming or outgoing)
         app.get('/api/global/overview/monthlyICM/:direction/byChainCompact', {
             schema: {
@@ -728,6 +912,126 @@ const module: ApiPlugin = {
                 return { dates, chains };
             });
         });
+
+        // Endpoint for monthly cross-chain messages of any registered protocol by chain
+        app.get<{
+            Params: { direction: 'incoming' | 'outgoing' };
+            Querystring: { protocol?: string }
+        }>('/api/global/overview/monthlyMessages/:direction/byChainCompact', {
+            schema: {
+                description: `Get monthly cross-chain message counts by direction (incoming/outgoing) and chain since June 2024, for one messaging protocol or all of them summed. Protocols: ${MESSAGING_PROTOCOLS.map(protocol => `${protocol.id} (${protocol.name})`).join(', ')}`,
+                tags: ['📊 L1Beat Overview'],
+                params: {
+                    type: 'object',
+                    properties: {
+                        direction: {
+                            type: 'string',
+                            enum: ['incoming', 'outgoing'],
+                            description: 'Message direction: incoming (received) or outgoing (sent)'
+                        }
+                    },
+                    required: ['direction']
+                },
+                querystring: {
+                    type: 'object',
+                    properties: {
+                        protocol: {
+                            type: 'string',
+                            enum: [...MESSAGING_PROTOCOL_IDS, 'all'],
+                            description: 'Protocol id, or all to sum every protocol (default: all)'
+                        }
+                    },
+                    additionalProperties: false
+                },
+                response: {
+                    200: {
+                        type: 'object',
+                        properties: {
+                            dates: {
+                                type: 'array',
+                                items: { type: 'string' },
+                                description: 'Array of months in YYYY-MM format'
+                            },
+                            protocols: {
+                                type: 'array',
+                                items: { type: 'string' },
+                                description: 'Protocol ids included in the counts'
+                            },
+                            chains: {
+                                type: 'array',
+                                items: {
+                                    type: 'object',
+                                    properties: {
+                                        evmChainId: { type: 'number' },
+                                        name: { type: 'string' },
+                                        values: {
+                                            type: 'array',
+                                            items: { type: 'number' },
+                                            description: 'Monthly message counts for specified direction'
+                                        }
+                                    },
+                                    required: ['evmChainId', 'name', 'values']
+                                }
+                            }
+                        },
+                        required: ['dates', 'protocols', 'chains']
+                    }
+                }
+            }
+        }, async (request, reply) => {
+            const { direction } = request.params;
+            const protocolId = request.query.protocol || 'all';
+            const cacheKey = `monthlyMessages_${protocolId}_${direction}_byChainCompact`;
+
+            return getCached(cacheKey, async () => {
+                const configs = dbCtx.getAllChainConfigs();
+                const protocols = MESSAGING_PROTOCOLS.filter(protocol => protocolId === 'all' || protocol.id === protocolId);
+
+                // June 1st 2024 00:00:00 UTC
+                const startTs = Math.floor(Date.parse('2024-06-01T00:00:00Z') / 1000);
+
+                // Month labels up to the current month
+                const endDate = new Date();
+                endDate.setUTCDate(1);
+                endDate.setUTCHours(0, 0, 0, 0);
+                const dates: string[] = [];
+                const currentDate = new Date(startTs * 1000);
+                while (currentDate <= endDate) {
+                    dates.push(currentDate.toISOString().substring(0, 7)); // YYYY-MM format
+                    currentDate.setUTCMonth(currentDate.getUTCMonth() + 1);
+                }
+
+                const chains: Array<{ evmChainId: number; name: string; values: number[] }> = [];
+
+                for (const config of configs) {
+                    const monthCounts = new Map<string, number>();
+
+                    for (const protocol of protocols) {
+                        const conn = getProtocolConnection(dbCtx, protocol, config.evmChainId);
+                        if (!conn) continue;
+
+                        const rows = conn.prepare(`
+                            SELECT strftime('%Y-%m', datetime(block_timestamp, 'unixepoch')) as month, COUNT(*) as message_count
+                            FROM (${protocol.messagesSql})
+                            WHERE is_outgoing = ? AND block_timestamp >= ?
+                            GROUP BY month
+                        `).all(direction === 'outgoing' ? 1 : 0, startTs) as Array<{ month: string; message_count: number }>;
+
+                        for (const row of rows) {
+                            monthCounts.set(row.month, (monthCounts.get(row.month) || 0) + row.message_count);
+                        }
+                    }
+
+                    chains.push({
+                        evmChainId: config.evmChainId,
+                        name: config.chainName,
+                        values: dates.map(date => monthCounts.get(date) || 0)
+                    });
+                }
+
+                return { dates, protocols: protocols.map(protocol => protocol.id), chains };
+            });
+        });
     }
 };
 
@@ -1,8 +1,8 @@
-import type { IndexingPlugin } from "frostbyte-sdk";
+import { finishBatch, initBlockRange, planBatch, rewindBlockRange, txBlockNumber, type BlockRollbackPlugin } from "./lib/blockLedger";
 
-const module: IndexingPlugin = {
+const module: BlockRollbackPlugin = {
     name: "period_address_activity",
-    version: 2,
+    version: 4,
     usesTraces: false,
 
     initialize: (db) => {
@@ -16,16 +16,56 @@ const module: IndexingPlugin = {
             )
         `);
 
+        // What each block added to period_address_activity, kept for the rollback window
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS period_address_ledger (
+                block_number INTEGER NOT NULL,
+                period_ts INTEGER NOT NULL,
+                address TEXT NOT NULL,
+                tx_count INTEGER NOT NULL,
+                PRIMARY KEY (block_number, address)
+            )
+        `);
+
+        initBlockRange(db);
+
         // Note: No additional indexes needed - the composite PRIMARY KEY (period_ts, address) 
         // is sufficient for both INSERT ON CONFLICT operations and queries
     },
 
+    // Subtracts the ledgered blocks >= fromBlock from the address activity
+    rollbackBlocks: (db, fromBlock) => {
+        const reverted = db.prepare(`
+            SELECT period_ts, address, SUM(tx_count) as tx_count
+            FROM period_address_ledger
+            WHERE block_number >= ?
+            GROUP BY period_ts, address
+        `).all(fromBlock) as Array<{ period_ts: number; address: string; tx_count: number }>;
+
+        const subtractAddressStmt = db.prepare(`
+            UPDATE period_address_activity SET tx_count = tx_count - ? WHERE period_ts = ? AND address = ?
+        `);
+        const deleteAddressStmt = db.prepare(`
+            DELETE FROM period_address_activity WHERE period_ts = ? AND address = ? AND tx_count <= 0
+        `);
+        for (const row of reverted) {
+            subtractAddressStmt.run(row.tx_count, row.period_ts, row.address);
+            deleteAddressStmt.run(row.period_ts, row.address);
+        }
+
+        db.prepare('DELETE FROM period_address_ledger WHERE block_number >= ?').run(fromBlock);
+        rewindBlockRange(db, fromBlock);
+    },
+
     handleTxBatch: (db, blocksDb, batch) => {
+        const { txs, rollbackFromBlock } = planBatch(db, batch.txs);
+
         // Accumulate data in memory
         const periodAddressMap = new Map<number, Map<string, number>>();
+        const blockAddressMap = new Map<number, { periodTs: number, addresses: Map<string, number> }>();
         const FOUR_HOURS = 14400; // 4 hours in seconds
 
-        for (const tx of batch.txs) {
+        for (const tx of txs) {
             // Round down to 4-hour period
             const periodTs = Math.floor(tx.blockTs / FOUR_HOURS) * FOUR_HOURS;
 
@@ -39,13 +79,23 @@ const module: IndexingPlugin = {
             const fromAddress = tx.tx.from;
             addressMap.set(fromAddress, (addressMap.get(fromAddress) || 0) + 1);
 
+            const blockNumber = txBlockNumber(tx);
+            if (!blockAddressMap.has(blockNumber)) {
+                blockAddressMap.set(blockNumber, { periodTs, addresses: new Map() });
+            }
+            const blockAddresses = blockAddressMap.get(blockNumber)!.addresses;
+            blockAddresses.set(fromAddress, (blockAddresses.get(fromAddress) || 0) + 1);
+
             // Track 'to' address if it exists
             if (tx.tx.to) {
                 const toAddress = tx.tx.to;
                 addressMap.set(toAddress, (addressMap.get(toAddress) || 0) + 1);
+                blockAddresses.set(toAddress, (blockAddresses.get(toAddress) || 0) + 1);
             }
         }
 
+        if (rollbackFromBlock !== null) module.rollbackBlocks(db, rollbackFromBlock);
+
         if (periodAddressMap.size === 0) return;
 
         // Prepare statement for batch operations
@@ -63,6 +113,18 @@ const module: IndexingPlugin = {
                 insertAddressStmt.run(periodTs, address, txCount);
             }
         }
+
+        const insertLedgerStmt = db.prepare(`
+            INSERT OR REPLACE INTO period_address_ledger (block_number, period_ts, address, tx_count)
+            VALUES (?, ?, ?, ?)
+        `);
+        for (const [blockNumber, { periodTs, addresses }] of blockAddressMap) {
+            for (const [address, txCount] of addresses) {
+                insertLedgerStmt.run(blockNumber, periodTs, address, txCount);
+            }
+        }
+
+        finishBatch(db, txs, ['period_address_ledger']);
     }
 };
 
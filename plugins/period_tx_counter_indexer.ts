@@ -1,8 +1,8 @@
-import type { IndexingPlugin } from "frostbyte-sdk";
+import { finishBatch, initBlockRange, planBatch, rewindBlockRange, txBlockNumber, type BlockRollbackPlugin } from "./lib/blockLedger";
 
-const module: IndexingPlugin = {
+const module: BlockRollbackPlugin = {
     name: "period_tx_counter",
-    version: 2,
+    version: 4,
     usesTraces: false,
 
     initialize: (db) => {
@@ -20,8 +20,19 @@ const module: IndexingPlugin = {
                 gas_used INTEGER NOT NULL DEFAULT 0,
                 PRIMARY KEY (month_ts)
             );
+
+            -- What each block added to the day and month counts, kept for the rollback window
+            CREATE TABLE IF NOT EXISTS period_tx_ledger (
+                block_number INTEGER PRIMARY KEY,
+                day_ts INTEGER NOT NULL,
+                month_ts INTEGER NOT NULL,
+                tx_count INTEGER NOT NULL,
+                gas_used INTEGER NOT NULL
+            );
         `);
 
+        initBlockRange(db);
+
         // Index for efficient date range queries
         try {
             db.exec(`
@@ -36,12 +47,45 @@ const module: IndexingPlugin = {
         }
     },
 
+    // Subtracts the ledgered blocks >= fromBlock from the day and month counts
+    rollbackBlocks: (db, fromBlock) => {
+        const reverted = db.prepare(`
+            SELECT day_ts, month_ts, SUM(tx_count) as tx_count, SUM(gas_used) as gas_used
+            FROM period_tx_ledger
+            WHERE block_number >= ?
+            GROUP BY day_ts, month_ts
+        `).all(fromBlock) as Array<{ day_ts: number; month_ts: number; tx_count: number; gas_used: number }>;
+
+        const subtractDayStmt = db.prepare(`
+            UPDATE daily_tx_counts SET tx_count = tx_count - ?, gas_used = gas_used - ? WHERE day_ts = ?
+        `);
+        const subtractMonthStmt = db.prepare(`
+            UPDATE monthly_tx_counts SET tx_count = tx_count - ?, gas_used = gas_used - ? WHERE month_ts = ?
+        `);
+
+        const deleteDayStmt = db.prepare('DELETE FROM daily_tx_counts WHERE day_ts = ? AND tx_count <= 0');
+        const deleteMonthStmt = db.prepare('DELETE FROM monthly_tx_counts WHERE month_ts = ? AND tx_count <= 0');
+
+        for (const row of reverted) {
+            subtractDayStmt.run(row.tx_count, row.gas_used, row.day_ts);
+            subtractMonthStmt.run(row.tx_count, row.gas_used, row.month_ts);
+            deleteDayStmt.run(row.day_ts);
+            deleteMonthStmt.run(row.month_ts);
+        }
+
+        db.prepare('DELETE FROM period_tx_ledger WHERE block_number >= ?').run(fromBlock);
+        rewindBlockRange(db, fromBlock);
+    },
+
     handleTxBatch: (db, blocksDb, batch) => {
-        // Accumulate tx counts and gas usage by day and month in memory
+        const { txs, rollbackFromBlock } = planBatch(db, batch.txs);
+
+        // Accumulate tx counts and gas usage by day, month and block in memory
         const dayStats = new Map<number, { count: number, gasUsed: number }>();
         const monthStats = new Map<number, { count: number, gasUsed: number }>();
+        const blockStats = new Map<number, { dayTs: number, monthTs: number, count: number, gasUsed: number }>();
 
-        for (const tx of batch.txs) {
+        for (const tx of txs) {
             const ts = tx.blockTs;
 
             // Round down to start of day (00:00:00 UTC)
@@ -60,8 +104,16 @@ const module: IndexingPlugin = {
             monthData.count += 1;
             monthData.gasUsed += Number(tx.receipt.gasUsed || 0);
             monthStats.set(monthTs, monthData);
+
+            const blockNumber = txBlockNumber(tx);
+            const blockData = blockStats.get(blockNumber) || { dayTs, monthTs, count: 0, gasUsed: 0 };
+            blockData.count += 1;
+            blockData.gasUsed += Number(tx.receipt.gasUsed || 0);
+            blockStats.set(blockNumber, blockData);
         }
 
+        if (rollbackFromBlock !== null) module.rollbackBlocks(db, rollbackFromBlock);
+
         // Only write to DB if we have accumulated data
         if (dayStats.size === 0 && monthStats.size === 0) return;
 
@@ -91,6 +143,16 @@ const module: IndexingPlugin = {
         for (const [monthTs, stats] of monthStats) {
             upsertMonthStmt.run(monthTs, stats.count, stats.gasUsed);
         }
+
+        const insertLedgerStmt = db.prepare(`
+            INSERT OR REPLACE INTO period_tx_ledger (block_number, day_ts, month_ts, tx_count, gas_used)
+            VALUES (?, ?, ?, ?, ?)
+        `);
+        for (const [blockNumber, block] of blockStats) {
+            insertLedgerStmt.run(blockNumber, block.dayTs, block.monthTs, block.count, block.gasUsed);
+        }
+
+        finishBatch(db, txs, ['period_tx_ledger']);
     }
 };
 
@@ -0,0 +1,249 @@
+import { finishBatch, initBlockRange, planBatch, rewindBlockRange, txBlockNumber, type BlockRollbackPlugin } from "./lib/blockLedger";
+import { ROLLUP_RESOLUTIONS, ROLLUP_RETENTION, rollupBucketStart, type RollupResolution } from "./lib/rollups";
+
+interface BucketStats {
+    count: number;
+    gasUsed: number;
+    fees: bigint; // wei
+}
+
+interface BucketDelta {
+    resolution: RollupResolution;
+    bucketTs: number;
+    count: number;
+    gasUsed: number;
+    fees: number; // native token units
+}
+
+interface SenderDelta {
+    resolution: RollupResolution;
+    bucketTs: number;
+    address: string;
+    count: number;
+}
+
+/**
+ * Groups per-(block, sender) contributions into bucket and sender deltas for every resolution
+ */
+function toDeltas(rows: Array<{ block_ts: number; address: string; tx_count: number; gas_used: number; fees_paid: number }>): { buckets: BucketDelta[]; senders: SenderDelta[] } {
+    const buckets = new Map<string, BucketDelta>();
+    const senders = new Map<string, SenderDelta>();
+
+    for (const row of rows) {
+        for (const resolution of ROLLUP_RESOLUTIONS) {
+            const bucketTs = rollupBucketStart(row.block_ts, resolution);
+            const bucketKey = `${resolution}|${bucketTs}`;
+            const bucket = buckets.get(bucketKey) || { resolution, bucketTs, count: 0, gasUsed: 0, fees: 0 };
+            bucket.count += row.tx_count;
+            bucket.gasUsed += row.gas_used;
+            bucket.fees += row.fees_paid;
+            buckets.set(bucketKey, bucket);
+
+            const senderKey = `${bucketKey}|${row.address}`;
+            const sender = senders.get(senderKey) || { resolution, bucketTs, address: row.address, count: 0 };
+            sender.count += row.tx_count;
+            senders.set(senderKey, sender);
+        }
+    }
+
+    return { buckets: Array.from(buckets.values()), senders: Array.from(senders.values()) };
+}
+
+const module: BlockRollbackPlugin = {
+    name: "rollups",
+    version: 3,
+    usesTraces: false,
+
+    initialize: (db) => {
+        // One row per resolution and bucket, see lib/rollups for bucket boundaries and retention
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS rollup_buckets (
+                resolution TEXT NOT NULL,       -- minute, hour, day, week or month
+                bucket_ts INTEGER NOT NULL,     -- Unix timestamp of the bucket start (UTC, weeks start on Monday)
+                tx_count INTEGER NOT NULL,
+                gas_used INTEGER NOT NULL,
+                fees_paid REAL NOT NULL,        -- gasUsed * effectiveGasPrice in native token units
+                active_senders INTEGER NOT NULL,
+                PRIMARY KEY (resolution, bucket_ts)
+            )
+        `);
+
+        // Senders per bucket while it can still change, active_senders counts the rows as they are added and removed.
+        // Rows of buckets that ended before the rollback window are pruned, their active_senders is final
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS rollup_senders (
+                resolution TEXT NOT NULL,
+                bucket_ts INTEGER NOT NULL,
+                address TEXT NOT NULL,
+                tx_count INTEGER NOT NULL,
+                PRIMARY KEY (resolution, bucket_ts, address)
+            )
+        `);
+
+        // What each block added per sender, kept for the rollback window. Every resolution is derived from block_ts
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS rollup_ledger (
+                block_number INTEGER NOT NULL,
+                address TEXT NOT NULL,
+                block_ts INTEGER NOT NULL,
+                tx_count INTEGER NOT NULL,
+                gas_used INTEGER NOT NULL,
+                fees_paid REAL NOT NULL,
+                PRIMARY KEY (block_number, address)
+            )
+        `);
+
+        initBlockRange(db);
+    },
+
+    // Subtracts the ledgered blocks >= fromBlock from the buckets of every resolution
+    rollbackBlocks: (db, fromBlock) => {
+        const rows = db.prepare(`
+            SELECT block_ts, address, tx_count, gas_used, fees_paid
+            FROM rollup_ledger
+            WHERE block_number >= ?
+        `).all(fromBlock) as Array<{ block_ts: number; address: string; tx_count: number; gas_used: number; fees_paid: number }>;
+        const { buckets, senders } = toDeltas(rows);
+
+        const subtractBucketStmt = db.prepare(`
+            UPDATE rollup_buckets SET tx_count = tx_count - ?, gas_used = gas_used - ?, fees_paid = fees_paid - ?, active_senders = active_senders - ?
+            WHERE resolution = ? AND bucket_ts = ?
+        `);
+        const subtractSenderStmt = db.prepare(`
+            UPDATE rollup_senders SET tx_count = tx_count - ? WHERE resolution = ? AND bucket_ts = ? AND address = ?
+        `);
+        const deleteSenderStmt = db.prepare(`
+            DELETE FROM rollup_senders WHERE resolution = ? AND bucket_ts = ? AND address = ? AND tx_count <= 0
+        `);
+        const deleteBucketStmt = db.prepare('DELETE FROM rollup_buckets WHERE resolution = ? AND bucket_ts = ? AND tx_count <= 0');
+
+        // Senders left without transactions in a bucket
+        const removedSenders = new Map<string, number>();
+        for (const sender of senders) {
+            subtractSenderStmt.run(sender.count, sender.resolution, sender.bucketTs, sender.address);
+            const removed = deleteSenderStmt.run(sender.resolution, sender.bucketTs, sender.address).changes;
+            const bucketKey = `${sender.resolution}|${sender.bucketTs}`;
+            removedSenders.set(bucketKey, (removedSenders.get(bucketKey) || 0) + removed);
+        }
+
+        for (const bucket of buckets) {
+            const removed = removedSenders.get(`${bucket.resolution}|${bucket.bucketTs}`) || 0;
+            subtractBucketStmt.run(bucket.count, bucket.gasUsed, bucket.fees, removed, bucket.resolution, bucket.bucketTs);
+            deleteBucketStmt.run(bucket.resolution, bucket.bucketTs);
+        }
+
+        db.prepare('DELETE FROM rollup_ledger WHERE block_number >= ?').run(fromBlock);
+        rewindBlockRange(db, fromBlock);
+    },
+
+    handleTxBatch: (db, blocksDb, batch) => {
+        const { txs, rollbackFromBlock } = planBatch(db, batch.txs);
+
+        // Accumulate per block and sender in memory, buckets of every resolution are derived from these
+        const blockSenders = new Map<string, { blockNumber: number; blockTs: number; address: string; stats: BucketStats }>();
+        let latestTs = 0;
+
+        for (const tx of txs) {
+            const blockNumber = txBlockNumber(tx);
+            const address = tx.tx.from;
+            const gasUsed = BigInt(tx.receipt.gasUsed || '0');
+            const gasPrice = BigInt(tx.receipt.effectiveGasPrice || '0');
+
+            const key = `${blockNumber}|${address}`;
+            if (!blockSenders.has(key)) {
+                blockSenders.set(key, { blockNumber, blockTs: tx.blockTs, address, stats: { count: 0, gasUsed: 0, fees: 0n } });
+            }
+            const stats = blockSenders.get(key)!.stats;
+            stats.count += 1;
+            stats.gasUsed += Number(gasUsed);
+            stats.fees += gasUsed * gasPrice;
+
+            if (tx.blockTs > latestTs) latestTs = tx.blockTs;
+        }
+
+        if (rollbackFromBlock !== null) module.rollbackBlocks(db, rollbackFromBlock);
+
+        if (blockSenders.size === 0) return;
+
+        const ledgerRows = Array.from(blockSenders.values(), ({ blockNumber, blockTs, address, stats }) => ({
+            block_number: blockNumber,
+            block_ts: blockTs,
+            address,
+            tx_count: stats.count,
+            gas_used: stats.gasUsed,
+            fees_paid: Number(stats.fees) / 1e18
+        }));
+        const { buckets, senders } = toDeltas(ledgerRows);
+
+        // Buckets that fell out of retention are neither written nor kept
+        const cutoffs = new Map(ROLLUP_RESOLUTIONS.map(resolution => {
+            const retention = ROLLUP_RETENTION[resolution];
+            return [resolution, retention === null ? -Infinity : rollupBucketStart(latestTs - retention, resolution)];
+        }));
+
+        const upsertBucketStmt = db.prepare(`
+            INSERT INTO rollup_buckets (resolution, bucket_ts, tx_count, gas_used, fees_paid, active_senders)
+            VALUES (?, ?, ?, ?, ?, ?)
+            ON CONFLICT(resolution, bucket_ts) DO UPDATE SET
+                tx_count = tx_count + excluded.tx_count,
+                gas_used = gas_used + excluded.gas_used,
+                fees_paid = fees_paid + excluded.fees_paid,
+                active_senders = active_senders + excluded.active_senders
+        `);
+        // A sender is new to its bucket when the insert adds a row, otherwise its count is bumped
+        const insertSenderStmt = db.prepare(`
+            INSERT INTO rollup_senders (resolution, bucket_ts, address, tx_count)
+            VALUES (?, ?, ?, ?)
+            ON CONFLICT(resolution, bucket_ts, address) DO NOTHING
+        `);
+        const addSenderTxsStmt = db.prepare(`
+            UPDATE rollup_senders SET tx_count = tx_count + ? WHERE resolution = ? AND bucket_ts = ? AND address = ?
+        `);
+
+        const newSenders = new Map<string, number>();
+        for (const sender of senders) {
+            if (sender.bucketTs < cutoffs.get(sender.resolution)!) continue;
+            const bucketKey = `${sender.resolution}|${sender.bucketTs}`;
+            if (insertSenderStmt.run(sender.resolution, sender.bucketTs, sender.address, sender.count).changes > 0) {
+                newSenders.set(bucketKey, (newSenders.get(bucketKey) || 0) + 1);
+            } else {
+                addSenderTxsStmt.run(sender.count, sender.resolution, sender.bucketTs, sender.address);
+            }
+        }
+
+        for (const bucket of buckets) {
+            if (bucket.bucketTs < cutoffs.get(bucket.resolution)!) continue;
+            const added = newSenders.get(`${bucket.resolution}|${bucket.bucketTs}`) || 0;
+            upsertBucketStmt.run(bucket.resolution, bucket.bucketTs, bucket.count, bucket.gasUsed, bucket.fees, added);
+        }
+
+        // Prune buckets by resolution
+        const pruneBucketsStmt = db.prepare('DELETE FROM rollup_buckets WHERE resolution = ? AND bucket_ts < ?');
+        for (const [resolution, cutoff] of cutoffs) {
+            if (cutoff === -Infinity) continue;
+            pruneBucketsStmt.run(resolution, cutoff);
+        }
+
+        const insertLedgerStmt = db.prepare(`
+            INSERT OR REPLACE INTO rollup_ledger (block_number, address, block_ts, tx_count, gas_used, fees_paid)
+            VALUES (?, ?, ?, ?, ?, ?)
+        `);
+        for (const row of ledgerRows) {
+            insertLedgerStmt.run(row.block_number, row.address, row.block_ts, row.tx_count, row.gas_used, row.fees_paid);
+        }
+
+        finishBatch(db, txs, ['rollup_ledger']);
+
+        // Blocks before the oldest ledgered one can no longer be rolled back, so buckets that ended
+        // before it are closed and need no sender rows
+        const oldestLedgered = db.prepare('SELECT block_ts FROM rollup_ledger ORDER BY block_number LIMIT 1').get() as { block_ts: number } | undefined;
+        if (oldestLedgered) {
+            const pruneSendersStmt = db.prepare('DELETE FROM rollup_senders WHERE resolution = ? AND bucket_ts < ?');
+            for (const resolution of ROLLUP_RESOLUTIONS) {
+                pruneSendersStmt.run(resolution, Math.max(cutoffs.get(resolution)!, rollupBucketStart(oldestLedgered.block_ts, resolution)));
+            }
+        }
+    }
+};
+
+export default module;
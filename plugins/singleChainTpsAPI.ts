@@ -1,4 +1,5 @@
 import type { ApiPlugin } from "frostbyte-sdk";
+import { getCumulativeTxs } from "./lib/cumulativeTxs";
 
 type DailyTpsDataPoint = {
     timestamp: number;  // Unix timestamp for the end of the 24h period
@@ -10,11 +11,6 @@ interface TxSumResult {
     total_txs: number | null;
 }
 
-interface CumulativeResult {
-    minute_ts: number;
-    cumulative_count: number;
-}
-
 const module: ApiPlugin = {
     name: "single_chain_tps",
     requiredIndexers: ['minute_tx_counter'],
@@ -185,29 +181,8 @@ const module: ApiPlugin = {
 
             const indexerConn = dbCtx.getIndexerDbConnection(evmChainId, 'minute_tx_counter');
 
-            let result: CumulativeResult | undefined;
-
-            if (queryTimestamp) {
-                // Get cumulative count at or before the specified timestamp
-                const minuteTs = Math.floor(queryTimestamp / 60) * 60;
-                const stmt = indexerConn.prepare(`
-                    SELECT minute_ts, cumulative_count
-                    FROM cumulative_tx_counts
-                    WHERE minute_ts <= ?
-                    ORDER BY minute_ts DESC
-                    LIMIT 1
-                `);
-                result = stmt.get(minuteTs) as CumulativeResult | undefined;
-            } else {
-                // Get the latest cumulative count
-                const stmt = indexerConn.prepare(`
-                    SELECT minute_ts, cumulative_count
-                    FROM cumulative_tx_counts
-                    ORDER BY minute_ts DESC
-                    LIMIT 1
-                `);
-                result = stmt.get() as CumulativeResult | undefined;
-            }
+            // Prefix sum over hourly checkpoints and minutes, exact even for minutes indexed out of order
+            const result = getCumulativeTxs(indexerConn, queryTimestamp ? Math.floor(queryTimestamp / 60) * 60 : null);
 
             if (!result) {
                 return reply.send({
@@ -217,8 +192,8 @@ const module: ApiPlugin = {
             }
 
             return reply.send({
-                timestamp: result.minute_ts,
-                cumulativeTxs: result.cumulative_count
+                timestamp: result.minuteTs,
+                cumulativeTxs: result.cumulativeCount
             });
         });
     }
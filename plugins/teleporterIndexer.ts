@@ -1,49 +1,167 @@
-import type { IndexingPlugin } from "frostbyte-sdk";
-import { encodingUtils } from "frostbyte-sdk";
+import { type IndexingPlugin, abiUtils, encodingUtils, viem } from "frostbyte-sdk";
+import TeleporterMessenger from './abi/TeleporterMessenger.json';
+import { findTeleporterMessenger } from './lib/teleporterRegistry';
+import { txEvmChainId } from './lib/chainContext';
 
 
-// Teleporter contract address
-const TELEPORTER_ADDRESS = "0x253b2784c75e510dd0ff1da844684a1ac0aa5fcf";
-
 // Event topic signatures
 const SEND_CROSS_CHAIN_MESSAGE_TOPIC = '0x2a211ad4a59ab9d003852404f9c57c690704ee755f3c79d2c2812ad32da99df8';
 const RECEIVE_CROSS_CHAIN_MESSAGE_TOPIC = '0x292ee90bbaf70b5d4936025e09d56ba08f3e421156b6a568cf3c2840d9343e34';
+const MESSAGE_EXECUTED_TOPIC = '0x34795cc6b122b9a0ae684946319f1e14a577b4e8f9b3dda9ac94c21a54d3188c';
+const MESSAGE_EXECUTION_FAILED_TOPIC = '0x4619adc1017b82e02eaefac01a43d50d6d8de4460774bc370c3ff0210d40c985';
+const RECEIPT_RECEIVED_TOPIC = '0xd13a7935f29af029349bed0a2097455b91fd06190a30478c575db3f31e00bf57';
+const RELAYER_REWARDS_REDEEMED_TOPIC = '0x3294c84e5b0f29d9803655319087207bc94f4db29f7927846944822773780b88';
+
+// Lifecycle events that don't count as messages, stored in teleporter_message_outcomes
+const OUTCOME_EVENT_TYPES: Record<string, 'executed' | 'execution_failed' | 'receipt_received'> = {
+    [MESSAGE_EXECUTED_TOPIC]: 'executed',
+    [MESSAGE_EXECUTION_FAILED_TOPIC]: 'execution_failed',
+    [RECEIPT_RECEIVED_TOPIC]: 'receipt_received',
+};
+
+const teleporterAbi = TeleporterMessenger.abi as abiUtils.AbiItem[];
+
+interface TeleporterMessageRow {
+    is_outgoing: boolean;
+    other_chain_id: string;
+    block_timestamp: number;
+    message_id: string;
+    message_nonce: string;
+    origin_sender: string;
+    destination_address: string;
+    fee_token_address: string | null;
+    fee_amount: string | null;
+    required_gas_limit: number;
+    relayer_reward_address: string | null;
+    relayer_address: string | null;
+    deliverer: string | null;
+    messenger_address: string;
+    messenger_version: string;
+    tx_hash: string;
+    block_number: number;
+}
+
+interface TeleporterOutcomeRow {
+    message_id: string;
+    event_type: string;
+    other_chain_id: string;
+    relayer_reward_address: string | null;
+    fee_token_address: string | null;
+    fee_amount: string | null;
+    block_timestamp: number;
+    tx_hash: string;
+    block_number: number;
+}
 
+interface RewardRedemptionRow {
+    redeemer: string;
+    asset: string;
+    amount: string;
+    block_timestamp: number;
+    tx_hash: string;
+}
 
 const module: IndexingPlugin = {
     name: "teleporter_messages",
-    version: 9,
+    version: 14,
     usesTraces: false,
-    filterEvents: [SEND_CROSS_CHAIN_MESSAGE_TOPIC, RECEIVE_CROSS_CHAIN_MESSAGE_TOPIC],
+    filterEvents: [
+        SEND_CROSS_CHAIN_MESSAGE_TOPIC,
+        RECEIVE_CROSS_CHAIN_MESSAGE_TOPIC,
+        MESSAGE_EXECUTED_TOPIC,
+        MESSAGE_EXECUTION_FAILED_TOPIC,
+        RECEIPT_RECEIVED_TOPIC,
+        RELAYER_REWARDS_REDEEMED_TOPIC
+    ],
 
     // Initialize tables
     initialize: (db) => {
+        // fee_token_address/fee_amount are only known on the sending chain (SendCrossChainMessage.feeInfo),
+        // relayer_reward_address only on the receiving chain (ReceiveCrossChainMessage.rewardRedeemer).
+        // relayer_address is tx.from of the receive tx, deliverer the indexed ReceiveCrossChainMessage.deliverer
         db.exec(`
             CREATE TABLE IF NOT EXISTS teleporter_messages (
                 is_outgoing BOOLEAN NOT NULL,
                 other_chain_id TEXT NOT NULL,
-                block_timestamp INTEGER NOT NULL
+                block_timestamp INTEGER NOT NULL,
+                message_id TEXT NOT NULL,
+                message_nonce TEXT NOT NULL,            -- uint256 as decimal string
+                origin_sender TEXT NOT NULL,
+                destination_address TEXT NOT NULL,
+                fee_token_address TEXT,
+                fee_amount TEXT,                        -- uint256 base units as decimal string
+                required_gas_limit INTEGER NOT NULL,
+                relayer_reward_address TEXT,
+                relayer_address TEXT,
+                deliverer TEXT,
+                messenger_address TEXT NOT NULL,
+                messenger_version TEXT NOT NULL,
+                tx_hash TEXT NOT NULL,
+                block_number INTEGER NOT NULL
             )
         `);
 
         db.exec(`
-            CREATE INDEX IF NOT EXISTS idx_teleporter_messages_time_direction_chain 
+            CREATE INDEX IF NOT EXISTS idx_teleporter_messages_time_direction_chain
             ON teleporter_messages(block_timestamp, is_outgoing, other_chain_id)
         `);
+
+        db.exec(`
+            CREATE INDEX IF NOT EXISTS idx_teleporter_messages_message_id
+            ON teleporter_messages(message_id)
+        `);
+
+        // other_chain_id is the source chain for executed/execution_failed (emitted on the destination)
+        // and the destination chain for receipt_received (emitted back on the source).
+        // Reward columns are only set for receipt_received (ReceiptReceived.relayerRewardAddress/feeInfo)
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS teleporter_message_outcomes (
+                message_id TEXT NOT NULL,
+                event_type TEXT NOT NULL,
+                other_chain_id TEXT NOT NULL,
+                relayer_reward_address TEXT,
+                fee_token_address TEXT,
+                fee_amount TEXT,                        -- uint256 base units as decimal string
+                block_timestamp INTEGER NOT NULL,
+                tx_hash TEXT NOT NULL,
+                block_number INTEGER NOT NULL
+            )
+        `);
+
+        db.exec(`
+            CREATE INDEX IF NOT EXISTS idx_teleporter_message_outcomes_message_id
+            ON teleporter_message_outcomes(message_id)
+        `);
+
+        db.exec(`
+            CREATE INDEX IF NOT EXISTS idx_teleporter_message_outcomes_time
+            ON teleporter_message_outcomes(block_timestamp)
+        `);
+
+        db.exec(`
+            CREATE TABLE IF NOT EXISTS teleporter_reward_redemptions (
+                redeemer TEXT NOT NULL,
+                asset TEXT NOT NULL,
+                amount TEXT NOT NULL,                   -- uint256 base units as decimal string
+                block_timestamp INTEGER NOT NULL,
+                tx_hash TEXT NOT NULL
+            )
+        `);
     },
 
     // Process transactions
     handleTxBatch: (db, blocksDb, batch) => {
-        const teleporterMessages: {
-            is_outgoing: boolean;
-            other_chain_id: string;
-            block_timestamp: number;
-        }[] = [];
+        const teleporterMessages: TeleporterMessageRow[] = [];
+        const outcomes: TeleporterOutcomeRow[] = [];
+        const redemptions: RewardRedemptionRow[] = [];
 
         for (const tx of batch.txs) {
+            const evmChainId = txEvmChainId(tx.tx);
+
             for (let i = 0; i < tx.receipt.logs.length; i++) {
                 const log = tx.receipt.logs[i]!
-                if (log.address !== TELEPORTER_ADDRESS) {
+                const messenger = findTeleporterMessenger(log.address, evmChainId);
+                if (!messenger) {
                     continue;
                 }
 
@@ -52,6 +170,56 @@ const module: IndexingPlugin = {
 
                 let is_outgoing = false;
 
+                const outcomeType = OUTCOME_EVENT_TYPES[eventTopic || ''];
+                if (outcomeType) {
+                    if (!log.topics[1] || !log.topics[2]) {
+                        console.error(log);
+                        throw new Error("Invalid log: missing message id or chain id");
+                    }
+
+                    let feeInfo: { feeTokenAddress: string; amount: bigint } | null = null;
+                    let relayerRewardAddress: string | null = null;
+                    if (outcomeType === 'receipt_received') {
+                        const args = viem.decodeEventLog({
+                            abi: teleporterAbi,
+                            data: log.data as `0x${string}`,
+                            topics: log.topics as [signature: `0x${string}`, ...args: `0x${string}`[]],
+                        }).args as any;
+                        feeInfo = args.feeInfo;
+                        relayerRewardAddress = args.relayerRewardAddress;
+                    }
+
+                    outcomes.push({
+                        message_id: log.topics[1],
+                        event_type: outcomeType,
+                        other_chain_id: encodingUtils.hexToCB58(log.topics[2]),
+                        relayer_reward_address: relayerRewardAddress,
+                        fee_token_address: feeInfo ? feeInfo.feeTokenAddress : null,
+                        fee_amount: feeInfo ? feeInfo.amount.toString() : null,
+                        block_timestamp: tx.blockTs,
+                        tx_hash: tx.tx.hash,
+                        block_number: parseInt(tx.receipt.blockNumber, 16),
+                    });
+                    continue;
+                }
+
+                if (eventTopic === RELAYER_REWARDS_REDEEMED_TOPIC) {
+                    const args = viem.decodeEventLog({
+                        abi: teleporterAbi,
+                        data: log.data as `0x${string}`,
+                        topics: log.topics as [signature: `0x${string}`, ...args: `0x${string}`[]],
+                    }).args as any;
+
+                    redemptions.push({
+                        redeemer: args.redeemer,
+                        asset: args.asset,
+                        amount: args.amount.toString(),
+                        block_timestamp: tx.blockTs,
+                        tx_hash: tx.tx.hash,
+                    });
+                    continue;
+                }
+
                 if (eventTopic === SEND_CROSS_CHAIN_MESSAGE_TOPIC) {
                     is_outgoing = true;
                 } else if (eventTopic === RECEIVE_CROSS_CHAIN_MESSAGE_TOPIC) {
@@ -68,14 +236,75 @@ const module: IndexingPlugin = {
                 //FIXME: storing chain ids in a separate table might save a bunch of space
                 chainId = encodingUtils.hexToCB58(log.topics[2]);
 
+                const args = viem.decodeEventLog({
+                    abi: teleporterAbi,
+                    data: log.data as `0x${string}`,
+                    topics: log.topics as [signature: `0x${string}`, ...args: `0x${string}`[]],
+                }).args as any;
+
                 teleporterMessages.push({
                     is_outgoing,
                     other_chain_id: chainId,
                     block_timestamp: tx.blockTs,
+                    message_id: args.messageID,
+                    message_nonce: args.message.messageNonce.toString(),
+                    origin_sender: args.message.originSenderAddress,
+                    destination_address: args.message.destinationAddress,
+                    fee_token_address: is_outgoing ? args.feeInfo.feeTokenAddress : null,
+                    fee_amount: is_outgoing ? args.feeInfo.amount.toString() : null,
+                    required_gas_limit: Number(args.message.requiredGasLimit),
+                    relayer_reward_address: is_outgoing ? null : args.rewardRedeemer,
+                    relayer_address: is_outgoing ? null : tx.tx.from,
+                    deliverer: is_outgoing ? null : args.deliverer,
+                    messenger_address: messenger.address,
+                    messenger_version: messenger.version,
+                    tx_hash: tx.tx.hash,
+                    block_number: parseInt(tx.receipt.blockNumber, 16),
                 });
             }
         }
 
+        if (outcomes.length > 0) {
+            const insertOutcomeStmt = db.prepare(`
+                INSERT INTO teleporter_message_outcomes (
+                    message_id, event_type, other_chain_id, relayer_reward_address,
+                    fee_token_address, fee_amount, block_timestamp, tx_hash, block_number
+                )
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+            `);
+
+            for (const outcome of outcomes) {
+                insertOutcomeStmt.run(
+                    outcome.message_id,
+                    outcome.event_type,
+                    outcome.other_chain_id,
+                    outcome.relayer_reward_address,
+                    outcome.fee_token_address,
+                    outcome.fee_amount,
+                    outcome.block_timestamp,
+                    outcome.tx_hash,
+                    outcome.block_number
+                );
+            }
+        }
+
+        if (redemptions.length > 0) {
+            const insertRedemptionStmt = db.prepare(`
+                INSERT INTO teleporter_reward_redemptions (redeemer, asset, amount, block_timestamp, tx_hash)
+                VALUES (?, ?, ?, ?, ?)
+            `);
+
+            for (const redemption of redemptions) {
+                insertRedemptionStmt.run(
+                    redemption.redeemer,
+                    redemption.asset,
+                    redemption.amount,
+                    redemption.block_timestamp,
+                    redemption.tx_hash
+                );
+            }
+        }
+
         // Insert messages into table
         if (teleporterMessages.length === 0) {
             return;
@@ -83,13 +312,36 @@ const module: IndexingPlugin = {
 
         // Prepare statement for batch insert
         const insertStmt = db.prepare(`
-            INSERT INTO teleporter_messages (is_outgoing, other_chain_id, block_timestamp) 
-            VALUES (?, ?, ?)
+            INSERT INTO teleporter_messages (
+                is_outgoing, other_chain_id, block_timestamp, message_id, message_nonce,
+                origin_sender, destination_address, fee_token_address, fee_amount,
+                required_gas_limit, relayer_reward_address, relayer_address, deliverer,
+                messenger_address, messenger_version, tx_hash, block_number
+            )
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         `);
 
         // Insert each message
         for (const msg of teleporterMessages) {
-            insertStmt.run(msg.is_outgoing ? 1 : 0, msg.other_chain_id, msg.block_timestamp);
+            insertStmt.run(
+                msg.is_outgoing ? 1 : 0,
+                msg.other_chain_id,
+                msg.block_timestamp,
+                msg.message_id,
+                msg.message_nonce,
+                msg.origin_sender,
+                msg.destination_address,
+                msg.fee_token_address,
+                msg.fee_amount,
+                msg.required_gas_limit,
+                msg.relayer_reward_address,
+                msg.relayer_address,
+                msg.deliverer,
+                msg.messenger_address,
+                msg.messenger_version,
+                msg.tx_hash,
+                msg.block_number
+            );
         }
     }
 };
@@ -1,4 +1,53 @@
 import type { ApiPlugin } from "frostbyte-sdk";
+import { viem } from "frostbyte-sdk";
+import { resolveIcmStatus } from "./lib/icmLifecycle";
+
+interface MessageRow {
+    is_outgoing: number;
+    other_chain_id: string;
+    block_timestamp: number;
+    message_id: string;
+    message_nonce: string;
+    origin_sender: string;
+    destination_address: string;
+    fee_token_address: string | null;
+    fee_amount: string | null;
+    required_gas_limit: number;
+    relayer_reward_address: string | null;
+    tx_hash: string;
+    block_number: number;
+}
+
+type MessageEvent = {
+    evmChainId: number;
+    chainName: string;
+    blockchainId: string;
+    direction: 'sent' | 'received';
+    otherChainBlockchainId: string;
+    otherChainName: string;
+    feeTokenAddress: string | null;
+    feeAmount: string | null;
+    relayerRewardAddress: string | null;
+    txHash: string;
+    blockNumber: number;
+    blockTimestamp: number;
+}
+
+interface OutcomeRow {
+    event_type: 'executed' | 'execution_failed' | 'receipt_received';
+    block_timestamp: number;
+    tx_hash: string;
+    block_number: number;
+}
+
+type MessageOutcome = {
+    evmChainId: number;
+    chainName: string;
+    eventType: 'executed' | 'execution_failed' | 'receipt_received';
+    txHash: string;
+    blockNumber: number;
+    blockTimestamp: number;
+}
 
 // Helper function to get available chains for dropdown
 function getAvailableChains(dbCtx: any) {
@@ -140,6 +189,189 @@ const module: ApiPlugin = {
                 totalIncoming: result.incoming || 0
             });
         });
+
+        // Look up a single ICM message by its Teleporter messageID across all indexed chains
+        app.get<{
+            Params: { messageId: string }
+        }>('/api/global/icm/messages/:messageId', {
+            schema: {
+                tags: ["Cross-Chain Messaging"],
+                params: {
+                    type: 'object',
+                    properties: {
+                        messageId: {
+                            type: 'string',
+                            pattern: '^0x[0-9a-fA-F]{64}$',
+                            description: 'Teleporter messageID (bytes32 hex as in topic[1] of SendCrossChainMessage/ReceiveCrossChainMessage, any casing)'
+                        }
+                    },
+                    required: ['messageId'],
+                    additionalProperties: false
+                },
+                response: {
+                    200: {
+                        type: 'object',
+                        properties: {
+                            messageId: { type: 'string' },
+                            sourceBlockchainId: { type: 'string' },
+                            destinationBlockchainId: { type: 'string' },
+                            messageNonce: { type: 'string' },
+                            originSenderAddress: { type: 'string' },
+                            destinationAddress: { type: 'string' },
+                            requiredGasLimit: { type: 'number' },
+                            status: {
+                                type: 'string',
+                                enum: ['sent', 'received', 'executed', 'failed'],
+                                description: 'Lifecycle status as seen on indexed chains. A message to a non-indexed chain stays "sent".'
+                            },
+                            deliveryLatency: { type: ['number', 'null'], description: 'Seconds between send and receive, if both were indexed' },
+                            outcomes: {
+                                type: 'array',
+                                description: 'MessageExecuted / MessageExecutionFailed on the destination and ReceiptReceived back on the source',
+                                items: {
+                                    type: 'object',
+                                    properties: {
+                                        evmChainId: { type: 'number' },
+                                        chainName: { type: 'string' },
+                                        eventType: { type: 'string', enum: ['executed', 'execution_failed', 'receipt_received'] },
+                                        txHash: { type: 'string' },
+                                        blockNumber: { type: 'number' },
+                                        blockTimestamp: { type: 'number' }
+                                    },
+                                    required: ['evmChainId', 'chainName', 'eventType', 'txHash', 'blockNumber', 'blockTimestamp']
+                                }
+                            },
+                            events: {
+                                type: 'array',
+                                items: {
+                                    type: 'object',
+                                    properties: {
+                                        evmChainId: { type: 'number' },
+                                        chainName: { type: 'string' },
+                                        blockchainId: { type: 'string' },
+                                        direction: { type: 'string', enum: ['sent', 'received'] },
+                                        otherChainBlockchainId: { type: 'string' },
+                                        otherChainName: { type: 'string' },
+                                        feeTokenAddress: { type: ['string', 'null'], description: 'Fee token (SendCrossChainMessage only)' },
+                                        feeAmount: { type: ['string', 'null'], description: 'Fee amount in token base units (SendCrossChainMessage only)' },
+                                        relayerRewardAddress: { type: ['string', 'null'], description: 'rewardRedeemer (ReceiveCrossChainMessage only)' },
+                                        txHash: { type: 'string' },
+                                        blockNumber: { type: 'number' },
+                                        blockTimestamp: { type: 'number' }
+                                    },
+                                    required: ['evmChainId', 'chainName', 'blockchainId', 'direction', 'otherChainBlockchainId', 'otherChainName',
+                                        'feeTokenAddress', 'feeAmount', 'relayerRewardAddress', 'txHash', 'blockNumber', 'blockTimestamp']
+                                }
+                            }
+                        },
+                        required: ['messageId', 'sourceBlockchainId', 'destinationBlockchainId', 'messageNonce',
+                            'originSenderAddress', 'destinationAddress', 'requiredGasLimit', 'status', 'deliveryLatency', 'outcomes', 'events']
+                    },
+                    404: {
+                        type: 'object',
+                        properties: {
+                            error: { type: 'string' }
+                        }
+                    }
+                }
+            }
+        }, async (request, reply) => {
+            // Stored as lowercase hex like the topic it comes from
+            const messageId = viem.bytesToHex(viem.hexToBytes(request.params.messageId as `0x${string}`));
+            const configs = dbCtx.getAllChainConfigs();
+
+            const chainNameById = new Map<string, string>();
+            for (const config of configs) {
+                chainNameById.set(config.blockchainId, config.chainName);
+            }
+
+            const events: MessageEvent[] = [];
+            const outcomes: MessageOutcome[] = [];
+            let message: MessageRow | undefined;
+
+            for (const config of configs) {
+                try {
+                    const indexerConn = dbCtx.getIndexerDbConnection(config.evmChainId, 'teleporter_messages');
+                    const rows = indexerConn.prepare(`
+                        SELECT * FROM teleporter_messages WHERE message_id = ?
+                    `).all(messageId) as MessageRow[];
+
+                    for (const row of rows) {
+                        message = message || row;
+                        events.push({
+                            evmChainId: config.evmChainId,
+                            chainName: config.chainName,
+                            blockchainId: config.blockchainId,
+                            direction: row.is_outgoing === 1 ? 'sent' : 'received',
+                            otherChainBlockchainId: row.other_chain_id,
+                            otherChainName: chainNameById.get(row.other_chain_id) || row.other_chain_id,
+                            feeTokenAddress: row.fee_token_address,
+                            feeAmount: row.fee_amount,
+                            relayerRewardAddress: row.relayer_reward_address,
+                            txHash: row.tx_hash,
+                            blockNumber: row.block_number,
+                            blockTimestamp: row.block_timestamp
+                        });
+                    }
+
+                    const outcomeRows = indexerConn.prepare(`
+                        SELECT event_type, block_timestamp, tx_hash, block_number
+                        FROM teleporter_message_outcomes WHERE message_id = ?
+                    `).all(messageId) as OutcomeRow[];
+
+                    for (const row of outcomeRows) {
+                        outcomes.push({
+                            evmChainId: config.evmChainId,
+                            chainName: config.chainName,
+                            eventType: row.event_type,
+                            txHash: row.tx_hash,
+                            blockNumber: row.block_number,
+                            blockTimestamp: row.block_timestamp
+                        });
+                    }
+                } catch (error) {
+                    // Chain might not have the teleporter_messages indexer
+                    continue;
+                }
+            }
+
+            if (!message || events.length === 0) {
+                return reply.code(404).send({ error: `Message ${messageId} not found on any indexed chain` });
+            }
+
+            // Either side tells us both ends of the route
+            const first = events[0]!;
+            const sourceBlockchainId = first.direction === 'sent' ? first.blockchainId : first.otherChainBlockchainId;
+            const destinationBlockchainId = first.direction === 'sent' ? first.otherChainBlockchainId : first.blockchainId;
+
+            events.sort((a, b) => a.blockTimestamp - b.blockTimestamp);
+            outcomes.sort((a, b) => a.blockTimestamp - b.blockTimestamp);
+
+            const sent = events.find(e => e.direction === 'sent');
+            const received = events.find(e => e.direction === 'received');
+            const executed = outcomes.filter(o => o.eventType === 'executed');
+            const failed = outcomes.find(o => o.eventType === 'execution_failed');
+
+            const status = resolveIcmStatus({
+                receivedAt: received?.blockTimestamp ?? null,
+                executedAt: executed.length > 0 ? executed[executed.length - 1]!.blockTimestamp : null,
+                failedAt: failed?.blockTimestamp ?? null
+            });
+
+            return reply.send({
+                messageId,
+                sourceBlockchainId,
+                destinationBlockchainId,
+                messageNonce: message.message_nonce,
+                originSenderAddress: message.origin_sender,
+                destinationAddress: message.destination_address,
+                requiredGasLimit: message.required_gas_limit,
+                status,
+                deliveryLatency: sent && received ? received.blockTimestamp - sent.blockTimestamp : null,
+                outcomes,
+                events
+            });
+        });
     }
 };
 
@@ -0,0 +1,134 @@
+import type { ApiPlugin } from "frostbyte-sdk";
+import { ROLLUP_METRICS, ROLLUP_RESOLUTIONS, ROLLUP_RETENTION, rollupBucketStart, type RollupMetric, type RollupResolution } from "./lib/rollups";
+
+interface TimeseriesPoint {
+    timestamp: number;
+    value: number;
+}
+
+// Range returned when from is not given
+const DEFAULT_SPAN: Record<RollupResolution, number> = {
+    minute: 86400,
+    hour: 7 * 86400,
+    day: 90 * 86400,
+    week: 365 * 86400,
+    month: 5 * 365 * 86400
+};
+
+const module: ApiPlugin = {
+    name: "timeseries_api",
+    requiredIndexers: ['rollups'],
+
+    registerRoutes: (app, dbCtx) => {
+        const configs = dbCtx.getAllChainConfigs();
+        const chainIds = configs.map(config => config.evmChainId.toString());
+        const metricNames = Object.keys(ROLLUP_METRICS) as RollupMetric[];
+
+        app.get<{
+            Params: { evmChainId: string };
+            Querystring: { metric: RollupMetric; resolution: RollupResolution; from?: number; to?: number }
+        }>('/api/:evmChainId/timeseries', {
+            schema: {
+                description: `Time series from the rollups indexer, which aggregates every transaction of the chain into UTC buckets by block timestamp. Metrics: ${metricNames.map(metric => `${metric} (${ROLLUP_METRICS[metric].description})`).join(', ')}. Weeks are ISO weeks starting Monday 00:00 UTC. Minute buckets are kept for ${ROLLUP_RETENTION.minute! / 86400} days and hour buckets for ${ROLLUP_RETENTION.hour! / 86400} days behind the newest indexed block, coarser ones forever. Buckets without transactions are omitted.`,
+                tags: ["Transaction Analytics"],
+                params: {
+                    type: 'object',
+                    properties: {
+                        evmChainId: {
+                            type: 'string',
+                            enum: chainIds,
+                            description: `EVM Chain ID. Available chains: ${chainIds.join(', ')}`
+                        }
+                    },
+                    required: ['evmChainId'],
+                    additionalProperties: false
+                },
+                querystring: {
+                    type: 'object',
+                    properties: {
+                        metric: { type: 'string', enum: metricNames },
+                        resolution: { type: 'string', enum: ROLLUP_RESOLUTIONS },
+                        from: { type: 'number', description: 'Unix timestamp, the bucket containing it is the first one. Defaults to a resolution-dependent span before to' },
+                        to: { type: 'number', description: 'Unix timestamp, inclusive. Defaults to now' }
+                    },
+                    required: ['metric', 'resolution'],
+                    additionalProperties: false
+                },
+                response: {
+                    200: {
+                        type: 'object',
+                        properties: {
+                            evmChainId: { type: 'number' },
+                            metric: { type: 'string' },
+                            resolution: { type: 'string' },
+                            from: { type: 'number', description: 'Start of the first bucket in range' },
+                            to: { type: 'number' },
+                            retentionSeconds: { type: ['number', 'null'], description: 'How long buckets of this resolution are kept, null if forever' },
+                            points: {
+                                type: 'array',
+                                items: {
+                                    type: 'object',
+                                    properties: {
+                                        timestamp: { type: 'number', description: 'Bucket start' },
+                                        value: { type: 'number' }
+                                    },
+                                    required: ['timestamp', 'value']
+                                }
+                            }
+                        },
+                        required: ['evmChainId', 'metric', 'resolution', 'from', 'to', 'retentionSeconds', 'points']
+                    },
+                    400: {
+                        type: 'object',
+                        properties: {
+                            error: { type: 'string' }
+                        }
+                    },
+                    404: {
+                        type: 'object',
+                        properties: {
+                            error: { type: 'string' }
+                        }
+                    }
+                }
+            }
+        }, async (request, reply) => {
+            const evmChainId = parseInt(request.params.evmChainId);
+            if (isNaN(evmChainId)) {
+                return reply.code(400).send({ error: 'Invalid chain ID format' });
+            }
+
+            const chainConfig = configs.find(config => config.evmChainId === evmChainId);
+            if (!chainConfig) {
+                return reply.code(404).send({ error: `Chain ${evmChainId} not found` });
+            }
+
+            const { metric, resolution } = request.query;
+            const to = request.query.to ?? Math.floor(Date.now() / 1000);
+            const from = rollupBucketStart(request.query.from ?? to - DEFAULT_SPAN[resolution], resolution);
+            if (from > to) {
+                return reply.code(400).send({ error: 'from must not be after to' });
+            }
+
+            const indexerConn = dbCtx.getIndexerDbConnection(evmChainId, 'rollups');
+            const points = indexerConn.prepare(`
+                SELECT bucket_ts as timestamp, ${ROLLUP_METRICS[metric].column} as value
+                FROM rollup_buckets
+                WHERE resolution = ? AND bucket_ts >= ? AND bucket_ts <= ?
+                ORDER BY bucket_ts ASC
+            `).all(resolution, from, to) as TimeseriesPoint[];
+
+            return reply.send({
+                evmChainId,
+                metric,
+                resolution,
+                from,
+                to,
+                retentionSeconds: ROLLUP_RETENTION[resolution],
+                points
+            });
+        });
+    }
+};
+
+export default module;
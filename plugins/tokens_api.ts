@@ -0,0 +1,96 @@
+import type { ApiPlugin } from "frostbyte-sdk";
+
+type TokenInfo = {
+    evmChainId: number;
+    chainName: string;
+    blockchainId: string;
+    coinAddress: string;
+    name: string | null;
+    symbol: string | null;
+    decimals: number | null;
+    fetchedAt: number | null;
+    icttContracts: string[];
+}
+
+interface TokenRow {
+    coin_address: string;
+    name: string | null;
+    symbol: string | null;
+    decimals: number | null;
+    fetched_ts: number | null;
+    contract_address: string;
+}
+
+const module: ApiPlugin = {
+    name: "tokens_api",
+    requiredIndexers: ["ictt"],
+
+    registerRoutes: (app, dbCtx) => {
+        app.get('/api/global/tokens', {
+            schema: {
+                tags: ["Token Transfers"],
+                description: 'Tokens used by ICTT contracts (coin_address of ERC20TokenHome, NativeTokenHome and ERC20TokenRemote) on every indexed chain, with ERC20 name(), symbol() and decimals() read through the chain RPC by the ictt indexer. Fields are null while the fetch is pending or when the call reverted. The native coin of NativeTokenRemote chains has no contract and is not listed.',
+                response: {
+                    200: {
+                        type: 'array',
+                        items: {
+                            type: 'object',
+                            properties: {
+                                evmChainId: { type: 'number' },
+                                chainName: { type: 'string' },
+                                blockchainId: { type: 'string' },
+                                coinAddress: { type: 'string' },
+                                name: { type: ['string', 'null'] },
+                                symbol: { type: ['string', 'null'] },
+                                decimals: { type: ['number', 'null'] },
+                                fetchedAt: { type: ['number', 'null'], description: 'Block timestamp of the batch that fetched the metadata' },
+                                icttContracts: { type: 'array', items: { type: 'string' } }
+                            },
+                            required: ['evmChainId', 'chainName', 'blockchainId', 'coinAddress', 'name', 'symbol', 'decimals', 'fetchedAt', 'icttContracts']
+                        }
+                    }
+                }
+            }
+        }, async (request, reply) => {
+            const tokens: TokenInfo[] = [];
+
+            for (const config of dbCtx.getAllChainConfigs()) {
+                const conn = dbCtx.getIndexerDbConnection(config.evmChainId, "ictt");
+
+                const rows = conn.prepare(`
+                    SELECT rth.coin_address, tmd.name, tmd.symbol, tmd.decimals, tmd.fetched_ts, rth.contract_address
+                    FROM recognized_token_homes rth
+                    LEFT JOIN token_metadata tmd ON tmd.coin_address = rth.coin_address
+                    WHERE rth.coin_address != '0x0000000000000000000000000000000000000000'
+                    ORDER BY rth.coin_address
+                `).all() as TokenRow[];
+
+                const byCoin = new Map<string, TokenInfo>();
+                for (const row of rows) {
+                    let token = byCoin.get(row.coin_address);
+                    if (!token) {
+                        token = {
+                            evmChainId: config.evmChainId,
+                            chainName: config.chainName,
+                            blockchainId: config.blockchainId,
+                            coinAddress: row.coin_address,
+                            name: row.name,
+                            symbol: row.symbol,
+                            decimals: row.decimals,
+                            fetchedAt: row.fetched_ts,
+                            icttContracts: []
+                        };
+                        byCoin.set(row.coin_address, token);
+                    }
+                    token.icttContracts.push(row.contract_address);
+                }
+
+                tokens.push(...byCoin.values());
+            }
+
+            return reply.send(tokens);
+        });
+    }
+};
+
+export default module;